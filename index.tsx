@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
+import { GoogleGenAI, Type, Schema } from "@google/genai";
 import * as Icons from 'lucide-react';
 
 // --- Global Setup ---
@@ -14,7 +14,8 @@ const hideLoader = () => {
 
 // Helper to get API Key safely in browser environment
 const getApiKey = () => {
-    // 1. Try LocalStorage (User set in Settings)
+    // 1. Try the unlocked key (app lock on) or LocalStorage (User set in Settings)
+    if (sessionApiKey) return sessionApiKey;
     if (typeof window !== 'undefined') {
         const stored = localStorage.getItem('lifeos_google_api_key');
         if (stored && stored.trim() !== '') return stored;
@@ -32,15 +33,26 @@ const getApiKey = () => {
     return undefined;
 };
 
-type GroupKey = 'life' | 'body' | 'work';
+interface GroupMeta {
+  key: string;
+  label: string;
+  archived?: boolean;
+}
 
 interface CategoryMeta {
-  group: GroupKey;
+  group: string; // GroupMeta key
   color: string;
   icon: string;
   label: string;
+  archived?: boolean; // Hidden from the dashboard and the organizer, existing entries stay
 }
 
+const BASE_GROUPS: GroupMeta[] = [
+  { key: 'life', label: 'Life' },
+  { key: 'body', label: 'Body' },
+  { key: 'work', label: 'Work' },
+];
+
 const BASE_CATEGORY_META: Record<string, CategoryMeta> = {
   // Life (日常)
   finance_tracking: { group: 'life', color: 'bg-emerald-500', icon: 'Wallet', label: '记账' },
@@ -69,8 +81,72 @@ const BASE_CATEGORY_META: Record<string, CategoryMeta> = {
   other: { group: 'life', color: 'bg-gray-500', icon: 'Hash', label: '其他' },
 };
 
+// Options offered by the category editor
+const CATEGORY_COLORS = [
+  'bg-red-500', 'bg-orange-500', 'bg-amber-500', 'bg-yellow-500', 'bg-lime-600', 'bg-emerald-500', 'bg-teal-500', 'bg-cyan-600',
+  'bg-sky-600', 'bg-blue-500', 'bg-indigo-500', 'bg-purple-500', 'bg-pink-500', 'bg-rose-500', 'bg-slate-500', 'bg-gray-500',
+];
+const CATEGORY_ICONS = [
+  'Hash', 'Wallet', 'BookHeart', 'GraduationCap', 'Gamepad2', 'Film', 'BookOpen', 'Utensils', 'Home', 'Sparkles',
+  'Dumbbell', 'Moon', 'Scale', 'Stethoscope', 'Activity', 'Droplet', 'Briefcase', 'Lightbulb', 'PawPrint', 'Baby',
+  'Car', 'Plane', 'Music', 'Camera', 'Heart', 'ShoppingCart', 'Gift', 'Coffee', 'Leaf', 'Users', 'Wrench', 'Pill',
+];
+
+// Saved entries come first so the user's order wins; built-ins added in later versions are appended
+const mergeCategoryMeta = (saved?: Record<string, CategoryMeta>): Record<string, CategoryMeta> => {
+  const merged = { ...(saved || {}) };
+  Object.entries(BASE_CATEGORY_META).forEach(([key, meta]) => {
+    if (!merged[key]) merged[key] = meta;
+  });
+  return merged;
+};
+
+const mergeGroups = (saved?: GroupMeta[]): GroupMeta[] => [
+  ...(saved || []),
+  ...BASE_GROUPS.filter(g => !saved?.some(s => s.key === g.key)),
+];
+
+const getCategoryMeta = (categories: Record<string, CategoryMeta>, key: string): CategoryMeta =>
+  categories[key] || categories.other || BASE_CATEGORY_META.other;
+
+// Categories the organizer may use: not archived themselves and not in an archived group.
+// 'other' is the validation fallback and always stays available.
+const activeCategoryKeys = (categories: Record<string, CategoryMeta>, groups: GroupMeta[]): string[] =>
+  Object.keys(categories).filter(key => {
+    const meta = categories[key];
+    return key === 'other' || (!meta.archived && !groups.find(g => g.key === meta.group)?.archived);
+  });
+
 // Define Schema types for dynamic form
-type FieldType = 'text' | 'number' | 'select' | 'multiselect' | 'date' | 'rating';
+type FieldType =
+  | 'text' | 'number' | 'select' | 'multiselect' | 'date' | 'rating'
+  | 'boolean' | 'time'
+  | 'duration'  // Stored as minutes
+  | 'money'     // Stored as { amount, currency }, options = allowed currencies
+  | 'url'
+  | 'reference'; // Stored as an Entry id, options = categories it may point to
+
+const FIELD_TYPES: FieldType[] = ['text', 'number', 'select', 'multiselect', 'date', 'rating', 'boolean', 'time', 'duration', 'money', 'url', 'reference'];
+const DEFAULT_CURRENCIES = ['CNY', 'USD', 'EUR', 'JPY', 'HKD'];
+
+// Ledger totals are reported in this currency
+const BASE_CURRENCY = 'CNY';
+
+// Starting rates (CNY per unit), maintained by the user in the Ledger view
+const DEFAULT_EXCHANGE_RATES: ExchangeRate[] = [
+  { id: 'usd', currency: 'USD', rate: 7.1, effectiveDate: '2024-01-01' },
+  { id: 'eur', currency: 'EUR', rate: 7.8, effectiveDate: '2024-01-01' },
+  { id: 'jpy', currency: 'JPY', rate: 0.048, effectiveDate: '2024-01-01' },
+  { id: 'hkd', currency: 'HKD', rate: 0.91, effectiveDate: '2024-01-01' },
+];
+
+interface FieldRules {
+  min?: number; // Numbers, ratings, durations and money amounts
+  max?: number;
+  integer?: boolean;
+  pattern?: string; // Regular expression text values must match
+  maxLength?: number;
+}
 
 interface FieldSchema {
   key: string;
@@ -80,6 +156,8 @@ interface FieldSchema {
   options?: string[]; // For select/multiselect
   unit?: string;
   placeholder?: string;
+  rules?: FieldRules;
+  formula?: string; // Computed field: derived from sibling fields on save, never asked from the organizer
 }
 
 // Helper to create standardized schemas
@@ -115,14 +193,15 @@ const INITIAL_SCHEMAS: Record<string, FieldSchema[]> = {
   sleep: createSchema([
     { key: 'waketime', label: '醒来时间', type: 'text', required: false },
     { key: 'quality', label: '睡眠质量', type: 'select', required: false, options: ['很好', '还行', '一般', '差'] },
+    { key: 'hours', label: '睡眠时长', type: 'number', unit: '小时', formula: 'hours_between(time, waketime)' },
   ]),
   personal_care: createSchema([
     { key: 'item', label: '护理项目', type: 'text', required: true }, // e.g., Skincare, Mask
     { key: 'product', label: '使用产品', type: 'text', required: false },
   ]),
   weight: createSchema([
-    { key: 'value', label: '体重(kg)', type: 'number', required: true },
-    { key: 'fat_rate', label: '体脂率(%)', type: 'number', required: false },
+    { key: 'value', label: '体重(kg)', type: 'number', required: true, rules: { min: 20, max: 300 } },
+    { key: 'fat_rate', label: '体脂率(%)', type: 'number', required: false, rules: { min: 1, max: 70 } },
   ]),
   diary: createSchema([
     { key: 'mood', label: '心情', type: 'text', required: false },
@@ -177,6 +256,15 @@ const DEFAULT_CHAT_INSTRUCTIONS = `You are a friendly, empathetic AI assistant i
 Your user interacts with you to record their life, emotions, work, and health.
 Style: Warm, encouraging, concise, and natural. Use Chinese.
 If the user shares good news, celebrate. If bad news, comfort.
+You are the companion. The database recording happens in the background, you don't need to confirm it.
+If the user asks about previous records, look them up with the available tools and answer with concrete numbers and dates.
+`;
+
+// Default shipped before chat tools; saved copies that were never edited are upgraded on load
+const PREVIOUS_CHAT_INSTRUCTIONS = `You are a friendly, empathetic AI assistant in a personal "LifeOS" app.
+Your user interacts with you to record their life, emotions, work, and health.
+Style: Warm, encouraging, concise, and natural. Use Chinese.
+If the user shares good news, celebrate. If bad news, comfort.
 You are NOT the database. You are the companion. The database recording happens in the background.
 If the user asks about previous records, you can generally refer to "the dashboard".
 `;
@@ -203,12 +291,6 @@ Input: A natural language message (which may contain multiple events) and the Cu
     *   Tags: Infer from '餐饮', '交通', '购物', '娱乐', '医疗', '教育', '住房', '旅行', '人情', '工资', '理财', '其他'.
     *   Currency: Default 'CNY'.
 
-**Category Codes**:
-*   Money: \`finance_tracking\`
-*   Body: \`exercise\`, \`sleep\`, \`weight\`, \`medical\`, \`checkup\`, \`physiology\`
-*   Life: \`movie\`, \`reading\`, \`study\`, \`entertainment\`, \`dining\`, \`housework\`, \`personal_care\`, \`diary\`
-*   Work: \`work\`, \`idea\`
-
 **Output JSON Schema:**
 Return an array of objects.
 {
@@ -225,6 +307,16 @@ Return an array of objects.
 }
 `;
 
+// Fixed category list the organizer default carried before categories became editable (the live list
+// is added to each prompt). A saved default that still has it is upgraded on load.
+const PREVIOUS_ORGANIZER_CATEGORY_BLOCK = `**Category Codes**:
+*   Money: \`finance_tracking\`
+*   Body: \`exercise\`, \`sleep\`, \`weight\`, \`medical\`, \`checkup\`, \`physiology\`
+*   Life: \`movie\`, \`reading\`, \`study\`, \`entertainment\`, \`dining\`, \`housework\`, \`personal_care\`, \`diary\`
+*   Work: \`work\`, \`idea\`
+
+`;
+
 const DEFAULT_LOGGER_INSTRUCTIONS = `You are a background logger.
 The user has been chatting casually.
 Your job: Summarize the last ~30 messages into a single "Diary/Muttering" entry.
@@ -234,22 +326,52 @@ Category: 'diary'.
 Event Title: "闲聊速记".
 `;
 
+type AppTab = 'chat' | 'dashboard' | 'ledger' | 'trends' | 'settings';
+
+const NAV_ITEMS: { id: AppTab; icon: string; label: string }[] = [
+  { id: 'chat', icon: 'MessageSquare', label: 'Chat' },
+  { id: 'dashboard', icon: 'LayoutGrid', label: 'Dashboard' },
+  { id: 'ledger', icon: 'Wallet', label: 'Ledger' },
+  { id: 'trends', icon: 'TrendingUp', label: 'Trends' },
+  { id: 'settings', icon: 'Settings', label: 'Settings' }
+];
+
 // --- Interfaces ---
 
+interface EntryIssue {
+  field: string; // Detail key, or 'date' / 'category'
+  message: string;
+  rule?: boolean; // A declared constraint (required or a field rule) is broken; blocks saving an edit
+}
+
 interface Entry {
   id: string;
   date: string; // YYYY-MM-DD
   category: string;
   event: string;
   details: Record<string, any>;
-  image?: string; // Base64 data URI
+  image?: string; // Base64 JPEG data (without the data URI prefix)
+  issues?: EntryIssue[]; // Validation problems to review, absent when clean
+  rawLogId?: string; // RawLog the organizer extracted this from (absent for logger summaries and manual entries)
+  recurringRuleId?: string; // Auto-generated by this RecurringRule
+  importRef?: string; // Bill statement row this was imported from, e.g. "alipay:<order number>"
+}
+
+interface DraftEntry extends Entry {
+  status: 'pending' | 'accepted' | 'discarded';
+  confidence?: number; // 0-1 as reported by the organizer
 }
 
 interface ChatMessage {
+  id: string;
   role: 'user' | 'model' | 'system';
   text: string;
   timestamp: number;
   relatedEntryIds?: string[]; // IDs of entries created by this message
+  image?: string; // Attached photo, Base64 JPEG data (without the data URI prefix)
+  drafts?: DraftEntry[]; // Organizer proposals awaiting review (draft mode)
+  truncated?: boolean; // Reply was stopped before it finished
+  citedEntryIds?: string[]; // Entries the reply's tool lookups were based on
 }
 
 interface RawLog {
@@ -258,290 +380,3696 @@ interface RawLog {
     text: string;
 }
 
+interface ExchangeRate {
+    id: string;
+    currency: string;
+    rate: number; // Units of BASE_CURRENCY for one unit of currency
+    effectiveDate: string; // YYYY-MM-DD, applies until the next rate of the same currency
+}
+
+interface TagRule {
+    keyword: string; // Matched case-insensitively in merchant and description
+    tag: string;
+}
+
+type RecurringCadence = 'weekly' | 'monthly' | 'yearly';
+
+// Generates a finance_tracking entry on every due date
+interface RecurringRule {
+    id: string;
+    event: string; // Title of the generated entries
+    amount: number; // Positive, the sign follows transactionType
+    currency: string;
+    transactionType: '支出' | '收入';
+    tags: string[];
+    merchant: string;
+    paymentMethod: string;
+    cadence: RecurringCadence;
+    startDate: string; // YYYY-MM-DD, first occurrence; later ones keep its weekday / day of month
+    lastGenerated?: string; // Date of the newest occurrence already turned into an entry
+    paused?: boolean;
+}
+
+interface Budget {
+    id: string;
+    tag: string; // finance_tracking tag, empty for the overall budget
+    period: 'week' | 'month';
+    limit: number; // In BASE_CURRENCY
+}
+
+interface UserProfile {
+    heightCm?: number; // For BMI
+    weightGoal?: number; // kg
+    sleepTargetHours?: number; // Sleep debt baseline, DEFAULT_SLEEP_TARGET when unset
+}
+
+type ProviderKind = 'gemini' | 'openai';
+type AIRole = 'chat' | 'organizer' | 'logger';
+
+interface ModelConfig {
+  provider: ProviderKind;
+  model: string;
+  baseUrl: string; // Empty = provider default
+  apiKey: string; // OpenAI-compatible only, Gemini uses the key from API Configuration
+}
+
 interface AISettings {
   chatInstructions: string;
   organizerInstructions: string;
   loggerInstructions: string;
   batchSize: number;
+  models: Record<AIRole, ModelConfig>;
+}
+
+const DEFAULT_MODEL_CONFIGS: Record<AIRole, ModelConfig> = {
+  chat: { provider: 'gemini', model: 'gemini-3-pro-preview', baseUrl: '', apiKey: '' },
+  organizer: { provider: 'gemini', model: 'gemini-2.5-flash', baseUrl: '', apiKey: '' },
+  logger: { provider: 'gemini', model: 'gemini-2.5-flash', baseUrl: '', apiKey: '' },
+};
+
+// Fill in defaults for settings saved (or exported) by older versions
+const mergeAISettings = (saved?: Partial<AISettings>): AISettings => ({
+  chatInstructions: DEFAULT_CHAT_INSTRUCTIONS,
+  organizerInstructions: DEFAULT_ORGANIZER_INSTRUCTIONS,
+  loggerInstructions: DEFAULT_LOGGER_INSTRUCTIONS,
+  batchSize: 30,
+  ...(saved || {}),
+  ...(saved?.chatInstructions?.trim() === PREVIOUS_CHAT_INSTRUCTIONS.trim() ? { chatInstructions: DEFAULT_CHAT_INSTRUCTIONS } : {}),
+  ...(saved?.organizerInstructions?.replace(PREVIOUS_ORGANIZER_CATEGORY_BLOCK, '').trim() === DEFAULT_ORGANIZER_INSTRUCTIONS.trim()
+    ? { organizerInstructions: DEFAULT_ORGANIZER_INSTRUCTIONS } : {}),
+  models: { ...DEFAULT_MODEL_CONFIGS, ...(saved?.models || {}) }
+});
+
+// Model API keys never leave the device: exports blank them and imports keep the local ones
+const mapModels = (config: AISettings, update: (model: ModelConfig, role: AIRole) => ModelConfig): AISettings => ({
+  ...config,
+  models: Object.fromEntries((Object.keys(config.models) as AIRole[]).map(role => [role, update(config.models[role], role)])) as Record<AIRole, ModelConfig>
+});
+
+const withoutModelKeys = (config: AISettings) => mapModels(config, model => ({ ...model, apiKey: '' }));
+
+const keepLocalModelKeys = (incoming: AISettings, local: AISettings) =>
+  mapModels(incoming, (model, role) => ({ ...model, apiKey: model.apiKey || local.models[role]?.apiKey || '' }));
+
+interface LoggerState {
+    watermark: number; // Timestamp of the newest message already summarized
+    lastRunAt?: number;
+    lastEntryId?: string;
+    lastError?: string;
 }
 
 interface ChatSettings {
     chatEnabled: boolean;
     organizerEnabled: boolean;
+    loggerEnabled: boolean;
+    draftMode: boolean; // Organizer proposals need review before they become entries
+    autoAcceptEnabled: boolean;
+    autoAcceptThreshold: number; // 0-1, drafts at or above this confidence skip review
+    toolsEnabled: boolean; // Chat may look up entries and raw logs to answer questions
     contextRounds: number; // 9999 for infinite
     contextMode: 'global' | 'today' | 'week' | 'custom';
     customStartDate: string;
     customEndDate: string;
 }
 
-// --- Components ---
+// --- Encryption ---
 
-const IconComponent = ({ name, className }: { name: string; className?: string }) => {
-  // Safe icon access for ESM environments
-  const iconName = name as keyof typeof Icons;
-  const LucideIcon = Icons[iconName] as React.ElementType | undefined;
-  
-  // Fallback to Hash if not found
-  if (!LucideIcon) return <Icons.Hash className={className} />;
-  return <LucideIcon className={className} />;
+// AES-GCM with a PBKDF2-SHA256 key, used for passphrase backups and the app lock
+const PBKDF2_ITERATIONS = 310000;
+
+interface SealedValue {
+    iv: string; // base64
+    data: string; // base64 ciphertext incl. the GCM tag
+}
+
+// Self-contained: everything but the passphrase needed to decrypt
+interface PassphraseEnvelope extends SealedValue {
+    kdf: 'PBKDF2-SHA256';
+    iterations: number;
+    salt: string;
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(binary);
 };
 
-// --- Helper Functions ---
-const formatDate = (date: Date) => {
-  // Local YYYY-MM-DD
-  const offset = date.getTimezoneOffset() * 60000;
-  const local = new Date(date.getTime() - offset);
-  return local.toISOString().split('T')[0];
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+    if (!crypto?.subtle) throw new Error('WebCrypto is not available (the page must be served over HTTPS or localhost)');
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
 };
 
-const getWeekRange = (date: Date) => {
-  const d = new Date(date);
-  const day = d.getDay();
-  const diff = d.getDate() - day + (day === 0 ? -6 : 1); // adjust when day is sunday
-  const start = new Date(d.setDate(diff));
-  start.setHours(0,0,0,0);
-  const end = new Date(start);
-  end.setDate(start.getDate() + 6);
-  end.setHours(23,59,59,999);
-  return { start, end };
+const sealJSON = async (value: unknown, key: CryptoKey): Promise<SealedValue> => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
 };
 
-const isSameDay = (d1: Date, d2: Date) => {
-    return d1.getFullYear() === d2.getFullYear() &&
-           d1.getMonth() === d2.getMonth() &&
-           d1.getDate() === d2.getDate();
+// Throws when the key is wrong or the data was tampered with
+const openJSON = async <T,>(sealed: SealedValue, key: CryptoKey): Promise<T> => {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(sealed.iv) }, key, fromBase64(sealed.data));
+    return JSON.parse(new TextDecoder().decode(data));
 };
 
-const renderDetails = (cat: string, details: Record<string, any>) => {
-  // Filter out standard fields to avoid duplication if handled by parent container
-  const standardFields = ['summary', 'time', 'duration', 'notes'];
-  
-  // Custom Renderers for specific logic
-  const renderSpecifics = () => {
-    if (cat === 'finance_tracking') {
-        return (
-          <div className="mt-1 mb-1">
-             <div className={`font-mono font-bold text-sm ${details.transaction_type === '收入' ? 'text-emerald-400' : 'text-red-400'}`}>
-                 {details.amount ? (details.transaction_type === '支出' && details.amount > 0 ? -details.amount : details.amount) : 0} {details.currency}
-             </div>
-             {details.merchant && <div className="text-[10px] text-gray-500">@{details.merchant}</div>}
-             {details.tags && <div className="flex flex-wrap gap-1 mt-1">{
-                 (Array.isArray(details.tags) ? details.tags : [details.tags]).map((t:string, i:number) => (
-                     <span key={i} className="bg-gray-700 px-1 rounded text-[10px]">{t}</span>
-                 ))
-             }</div>}
-          </div>
-        );
-    }
-    if (cat === 'movie') {
-        return (
-            <div className="flex gap-2 items-center mt-1">
-              {details.rating && <div className="text-yellow-500 text-xs">{'★'.repeat(Math.round(details.rating))}</div>}
-              {details.genre && <div className="text-[10px] bg-pink-900/50 px-1 rounded text-pink-300">{details.genre}</div>}
-            </div>
-        );
+const encryptWithPassphrase = async (value: unknown, passphrase: string): Promise<PassphraseEnvelope> => {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    return { kdf: 'PBKDF2-SHA256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt), ...(await sealJSON(value, key)) };
+};
+
+const decryptWithPassphrase = async <T,>(envelope: PassphraseEnvelope, passphrase: string): Promise<T> => {
+    const key = await deriveKey(passphrase, fromBase64(envelope.salt), envelope.iterations);
+    try {
+        return await openJSON<T>(envelope, key);
+    } catch (e) {
+        throw new Error('Wrong passphrase or damaged data');
     }
-    // Default fallback loop for non-standard fields
-    return Object.entries(details).map(([k, v]) => {
-        if (standardFields.includes(k) || !v) return null;
-        if (k === 'type' && cat === 'exercise') return null; // 'type' usually redundant with event in exercise
-        return <div key={k} className="text-[10px]"><span className="opacity-50 mr-1 capitalize">{k.replace(/_/g, ' ')}:</span>{String(v)}</div>;
-    });
-  };
+};
 
-  return (
-      <div className="w-full">
-          {/* Standard Fields Header */}
-          <div className="flex justify-between items-start text-[10px] text-gray-500 mb-1 border-b border-gray-700/50 pb-1">
-              <span className="text-gray-300 font-medium line-clamp-2 flex-1 mr-2" title={details.summary}>{details.summary}</span>
-              <div className="text-right whitespace-nowrap">
-                  <span className="font-mono text-blue-300">{details.time}</span>
-                  {details.duration && <span className="ml-1 text-gray-600">({details.duration})</span>}
-              </div>
-          </div>
-          
-          {/* Specifics */}
-          {renderSpecifics()}
+// --- Storage Layer (IndexedDB) ---
 
-          {/* Catch-all Notes */}
-          {details.notes && (
-              <div className="mt-1 pt-1 border-t border-gray-700/50 text-[10px] text-gray-400 italic">
-                  Note: {details.notes}
-              </div>
-          )}
-      </div>
-  );
-};
+const DB_NAME = 'lifeos';
+const DB_VERSION = 1; // Object store layout, bump together with onupgradeneeded
 
-// --- Dashboard View Component ---
+type RecordStoreName = 'entries' | 'messages' | 'rawLogs';
 
-interface DashboardViewProps {
-  entries: Entry[];
-  viewDate: Date;
-  viewMode: 'day' | 'week' | 'month';
-  setViewDate: (date: Date) => void;
-  setViewMode: (mode: 'day' | 'week' | 'month') => void;
-  setEditingEntry: (entry: Entry) => void;
-  setEntries: React.Dispatch<React.SetStateAction<Entry[]>>;
-  rawLogs: RawLog[];
-  setRawLogs: React.Dispatch<React.SetStateAction<RawLog[]>>;
+interface StoredData {
+    entries: Entry[];
+    messages: ChatMessage[];
+    rawLogs: RawLog[];
+    kv: Record<string, any>; // aiConfig, chatSettings, customSchemas, loggerState...
 }
 
-const DashboardView = ({ 
-  entries, 
-  viewDate, 
-  viewMode, 
-  setViewDate, 
-  setViewMode, 
-  setEditingEntry, 
-  setEntries,
-  rawLogs,
-  setRawLogs
-}: DashboardViewProps) => {
-    const [isLogView, setIsLogView] = useState(false);
-    const [editingLogId, setEditingLogId] = useState<string | null>(null);
-    const [editingLogText, setEditingLogText] = useState('');
+interface Migration {
+    version: number;
+    description: string;
+    migrate: (data: StoredData) => StoredData;
+}
 
-    const filteredEntries = useMemo(() => {
-        return entries.filter((e: Entry) => {
-            if (!e.date) return false;
-            // Validate date format to prevent invalid date errors
-            if (!/^\d{4}-\d{2}-\d{2}$/.test(e.date)) return false;
-            
-            const eDate = new Date(e.date + "T00:00:00"); // Force local time interpretation
-            if (isNaN(eDate.getTime())) return false;
+// Ordered data migrations. Never edit a shipped entry, append a new one instead.
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Backfill missing RawLog ids',
+        migrate: data => ({
+            ...data,
+            rawLogs: data.rawLogs.map(log => log.id ? log : { ...log, id: Math.random().toString(36).substr(2, 9) })
+        })
+    },
+    {
+        version: 2,
+        description: 'Backfill missing ChatMessage ids',
+        migrate: data => ({
+            ...data,
+            messages: data.messages.map(m => m.id ? m : { ...m, id: Math.random().toString(36).substr(2, 9) })
+        })
+    },
+    {
+        version: 3,
+        description: 'Link entries to the raw log they were extracted from',
+        migrate: data => {
+            // "Saved:"/"Proposed:" messages follow the user message whose raw log shares its timestamp
+            const logIdByTime = new Map(data.rawLogs.map(l => [l.timestamp, l.id]));
+            const sourceOf = new Map<string, string>();
+            let lastUser: ChatMessage | undefined;
+            [...data.messages].sort((a, b) => a.timestamp - b.timestamp).forEach(m => {
+                if (m.role === 'user') lastUser = m;
+                if (m.role !== 'system' || !m.relatedEntryIds || !lastUser || m.text.startsWith('Logged:')) return;
+                const logId = logIdByTime.get(lastUser.timestamp);
+                if (logId) m.relatedEntryIds.forEach(id => sourceOf.set(id, logId));
+            });
+            return {
+                ...data,
+                entries: data.entries.map(e => e.rawLogId || !sourceOf.has(e.id) ? e : { ...e, rawLogId: sourceOf.get(e.id) })
+            };
+        }
+    },
+    {
+        version: 4,
+        description: 'Add the computed sleep hours field to saved sleep schemas',
+        migrate: data => {
+            const sleep = data.kv.customSchemas?.sleep;
+            // A hand-made hours field is kept as is
+            if (!Array.isArray(sleep) || sleep.some((f: FieldSchema) => f.key === 'hours')) return data;
+            return {
+                ...data,
+                kv: {
+                    ...data.kv,
+                    customSchemas: {
+                        ...data.kv.customSchemas,
+                        sleep: [...sleep, { key: 'hours', label: '睡眠时长', type: 'number', unit: '小时', formula: 'hours_between(time, waketime)' }]
+                    }
+                }
+            };
+        }
+    },
+];
 
-            if (viewMode === 'day') {
-                return isSameDay(eDate, viewDate);
-            } else if (viewMode === 'week') {
-                const { start, end } = getWeekRange(viewDate);
-                return eDate >= start && eDate <= end;
-            } else {
-                return eDate.getMonth() === viewDate.getMonth() && eDate.getFullYear() === viewDate.getFullYear();
-            }
-        });
-    }, [entries, viewMode, viewDate]);
+const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
 
-    // Grouping
-    const groups = { life: [] as string[], body: [] as string[], work: [] as string[] };
-    Object.entries(BASE_CATEGORY_META).forEach(([key, meta]) => {
-        if (groups[meta.group]) groups[meta.group].push(key);
-    });
+const runMigrations = (data: StoredData, fromVersion: number): StoredData => {
+    return MIGRATIONS
+        .filter(m => m.version > fromVersion)
+        .reduce((acc, m) => m.migrate(acc), data);
+};
 
-    const filteredRawLogs = useMemo(() => {
-        if (!rawLogs) return [];
-        return rawLogs.filter((log: RawLog) => {
-             const d = new Date(log.timestamp);
-             if (viewMode === 'day') return isSameDay(d, viewDate);
-             if (viewMode === 'week') {
-                const { start, end } = getWeekRange(viewDate);
-                return d >= start && d <= end;
-             }
-             return d.getMonth() === viewDate.getMonth() && d.getFullYear() === viewDate.getFullYear();
-        }).sort((a: RawLog, b: RawLog) => b.timestamp - a.timestamp);
-    }, [rawLogs, viewDate, viewMode]);
+// Legacy localStorage keys from before the IndexedDB store
+const LEGACY_KEYS: Record<string, string> = {
+    aiConfig: 'lifeos_aiconfig',
+    chatSettings: 'lifeos_chatsettings',
+    customSchemas: 'lifeos_schemas',
+    loggerState: 'lifeos_logger_state',
+};
 
-    const handleSaveLogEdit = (id: string) => {
-        setRawLogs((prev: RawLog[]) => prev.map(log => 
-            log.id === id ? { ...log, text: editingLogText } : log
-        ));
-        setEditingLogId(null);
+// Settings kept in the kv store, read back on startup
+const KV_KEYS = [...Object.keys(LEGACY_KEYS), 'categories', 'categoryGroups', 'exchangeRates', 'budgets', 'recurringRules', 'tagRules', 'profile', 'dismissedSuggestions'];
+
+// Every localStorage key the pre-IndexedDB version wrote data to
+const LEGACY_STORAGE_KEYS = [...Object.values(LEGACY_KEYS), 'lifeos_entries', 'lifeos_messages', 'lifeos_rawlogs'];
+
+const readLegacyLocalStorage = (): StoredData | null => {
+    const read = (key: string) => {
+        const saved = localStorage.getItem(key);
+        return saved ? JSON.parse(saved) : undefined;
     };
+    if (!LEGACY_STORAGE_KEYS.some(k => localStorage.getItem(k) !== null)) {
+        return null;
+    }
+    const kv: Record<string, any> = {};
+    Object.entries(LEGACY_KEYS).forEach(([name, key]) => {
+        const value = read(key);
+        if (value !== undefined) kv[name] = value;
+    });
+    return {
+        entries: read('lifeos_entries') || [],
+        messages: read('lifeos_messages') || [],
+        rawLogs: read('lifeos_rawlogs') || [],
+        kv
+    };
+};
 
-    const handleDeleteLog = (e: React.MouseEvent, id: string) => {
-        e.stopPropagation(); // Critical for proper event handling
-        if (window.confirm("Are you sure you want to delete this log?")) {
-             setRawLogs((prev: RawLog[]) => prev.filter(log => log.id !== id));
+// Plaintext copies left behind once IndexedDB holds the data (they would also outlive the app lock)
+const clearLegacyLocalStorage = () => LEGACY_STORAGE_KEYS.forEach(key => localStorage.removeItem(key));
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this browser'));
+            return;
         }
-    };
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+            const db = req.result;
+            if (!db.objectStoreNames.contains('entries')) {
+                const entries = db.createObjectStore('entries', { keyPath: 'id' });
+                entries.createIndex('date', 'date');
+                entries.createIndex('category', 'category');
+            }
+            if (!db.objectStoreNames.contains('messages')) {
+                db.createObjectStore('messages', { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+            }
+            if (!db.objectStoreNames.contains('rawLogs')) {
+                db.createObjectStore('rawLogs', { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+            }
+            if (!db.objectStoreNames.contains('kv')) {
+                db.createObjectStore('kv');
+            }
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+        req.onblocked = () => reject(new Error('Database is blocked by another open tab'));
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+};
 
-    const renderCard = (catKey: string) => {
-        const meta = BASE_CATEGORY_META[catKey] || BASE_CATEGORY_META['other'];
-        const catEntries = filteredEntries.filter((e: Entry) => e.category === catKey);
-        
-        return (
-            <div key={catKey} className={`rounded-xl border border-gray-800 bg-gray-900/50 flex flex-col h-[280px] overflow-hidden group`}>
-                <div className={`px-3 py-2 flex items-center justify-between bg-gray-900/80 border-b border-gray-800/50`}>
-                    <div className="flex items-center gap-2">
-                         <div className={`p-1.5 rounded-lg ${meta.color} text-white`}>
-                             <IconComponent name={meta.icon} className="w-3.5 h-3.5" />
-                         </div>
-                         <span className="font-medium text-sm text-gray-300">{meta.label}</span>
+const idbRequest = <T,>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+const txDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+});
+
+// App lock: while storageKey is set, records are stored as { id, sealed } and kv values as { sealed }.
+// Only schemaVersion and the lock metadata stay readable.
+let storageKey: CryptoKey | null = null;
+
+// The Gemini key moves from localStorage into the sealed kv store while the app is locked
+let sessionApiKey: string | undefined;
+
+const LOCK_CHECK = 'lifeos-lock';
+
+interface LockMeta {
+    salt: string;
+    iterations: number;
+    check: SealedValue; // LOCK_CHECK sealed with the storage key, verifies the passphrase
+}
+
+const sealRecord = async (record: { id: string }, key = storageKey) => key ? { id: record.id, sealed: await sealJSON(record, key) } : record;
+
+const sealKV = async (value: unknown, key = storageKey) => key ? { sealed: await sealJSON(value, key) } : value;
+
+// While the lock changes, incremental writes wait and are then sealed with the new key.
+// Writes already past the gate are awaited before the data is read for rewriting.
+let rekeying: Promise<void> | null = null;
+const activeWrites = new Set<Promise<void>>();
+
+const gatedWrite = async (write: () => Promise<void>): Promise<void> => {
+    while (rekeying) await rekeying;
+    const run = write();
+    activeWrites.add(run);
+    try {
+        await run;
+    } finally {
+        activeWrites.delete(run);
+    }
+};
+
+// Plain values pass through, so data written before the lock was turned on still loads
+const openStored = async <T,>(stored: unknown): Promise<T> => {
+    const sealed = (stored as { sealed?: SealedValue } | undefined)?.sealed;
+    if (!sealed) return stored as T;
+    if (!storageKey) throw new Error('Local data is locked');
+    return openJSON<T>(sealed, storageKey);
+};
+
+// Encrypt before opening the transaction: IndexedDB commits it as soon as we await anything else
+const dbGetAll = async <T,>(store: RecordStoreName): Promise<T[]> => {
+    const db = await openDB();
+    const stored = await idbRequest<unknown[]>(db.transaction(store, 'readonly').objectStore(store).getAll());
+    return Promise.all(stored.map(r => openStored<T>(r)));
+};
+
+const dbGetKV = async <T,>(key: string): Promise<T | undefined> => {
+    const db = await openDB();
+    return openStored<T | undefined>(await idbRequest(db.transaction('kv', 'readonly').objectStore('kv').get(key)));
+};
+
+const dbPutKV = (key: string, value: unknown): Promise<void> => gatedWrite(async () => {
+    const sealed = await sealKV(value);
+    const db = await openDB();
+    const tx = db.transaction('kv', 'readwrite');
+    tx.objectStore('kv').put(sealed, key);
+    return txDone(tx);
+});
+
+// Per-record write: only the changed and removed records touch the disk.
+// kv values that must not be saved without the records (a schema and its migrated entries) share the transaction.
+const dbSyncRecords = (store: RecordStoreName, puts: { id: string }[], deletes: string[], kv: Record<string, unknown> = {}): Promise<void> => gatedWrite(async () => {
+    const sealed = await Promise.all(puts.map(record => sealRecord(record)));
+    const kvValues = await Promise.all(Object.entries(kv).map(async ([key, value]) => [key, await sealKV(value)] as const));
+    const db = await openDB();
+    const tx = db.transaction(kvValues.length ? [store, 'kv'] : store, 'readwrite');
+    const os = tx.objectStore(store);
+    sealed.forEach(record => os.put(record));
+    deletes.forEach(id => os.delete(id));
+    if (kvValues.length) {
+        const kvStore = tx.objectStore('kv');
+        kvValues.forEach(([key, value]) => kvStore.put(value, key));
+    }
+    return txDone(tx);
+});
+
+// Rewrite everything in one transaction (migrations, full imports, lock changes).
+// A lock change passes the new key and lock record, written in the same transaction.
+const dbReplaceAll = async (
+    data: StoredData,
+    schemaVersion: number,
+    sealWith: CryptoKey | null = storageKey,
+    lock?: { meta: LockMeta | null; apiKey?: string }
+): Promise<void> => {
+    const stores: RecordStoreName[] = ['entries', 'messages', 'rawLogs'];
+    const records = await Promise.all(stores.map(store => Promise.all(data[store].map(record => sealRecord(record, sealWith)))));
+    const kvValues = await Promise.all(Object.entries(data.kv).map(async ([key, value]) => [key, await sealKV(value, sealWith)] as const));
+    const sealedApiKey = lock?.meta && lock.apiKey ? await sealKV(lock.apiKey, sealWith) : undefined;
+    const db = await openDB();
+    const tx = db.transaction([...stores, 'kv'], 'readwrite');
+    stores.forEach((store, i) => {
+        const os = tx.objectStore(store);
+        os.clear();
+        records[i].forEach(record => os.put(record));
+    });
+    const kv = tx.objectStore('kv');
+    kvValues.forEach(([key, value]) => kv.put(value, key));
+    kv.put(schemaVersion, 'schemaVersion');
+    if (lock) {
+        if (lock.meta) kv.put(lock.meta, 'lock'); else kv.delete('lock');
+        if (sealedApiKey) kv.put(sealedApiKey, 'apiKey'); else kv.delete('apiKey');
+    }
+    return txDone(tx);
+};
+
+const dbLoadAll = async (): Promise<{ data: StoredData; schemaVersion: number | undefined }> => {
+    const schemaVersion = await dbGetKV<number>('schemaVersion');
+    const [entries, messages, rawLogs] = await Promise.all([
+        dbGetAll<Entry>('entries'),
+        dbGetAll<ChatMessage>('messages'),
+        dbGetAll<RawLog>('rawLogs'),
+    ]);
+    const kv: Record<string, any> = {};
+    for (const key of KV_KEYS) {
+        const value = await dbGetKV(key);
+        if (value !== undefined) kv[key] = value;
+    }
+    return { data: { entries, messages, rawLogs, kv }, schemaVersion };
+};
+
+// Turns the app lock on, changes its passphrase, or turns it off (null). Every record is rewritten under the new key.
+// The slow key derivation runs first; writes are then held until the rewrite has committed, and
+// the old key stays in use if it fails.
+const dbSetLock = async (passphrase: string | null): Promise<void> => {
+    let key: CryptoKey | null = null;
+    let meta: LockMeta | null = null;
+    if (passphrase) {
+        const salt = crypto.getRandomValues(new Uint8Array(16));
+        key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+        meta = { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, check: await sealJSON(LOCK_CHECK, key) };
+    }
+
+    while (rekeying) await rekeying;
+    let release = () => {};
+    rekeying = new Promise(resolve => { release = resolve; });
+    try {
+        await Promise.allSettled(Array.from(activeWrites));
+        const { data, schemaVersion } = await dbLoadAll();
+        const apiKey = storageKey ? sessionApiKey : localStorage.getItem('lifeos_google_api_key') || undefined;
+        await dbReplaceAll(data, schemaVersion ?? SCHEMA_VERSION, key, { meta, apiKey });
+        storageKey = key;
+
+        clearLegacyLocalStorage();
+        if (meta) {
+            localStorage.removeItem('lifeos_google_api_key');
+            sessionApiKey = apiKey;
+        } else {
+            if (apiKey) localStorage.setItem('lifeos_google_api_key', apiKey);
+            sessionApiKey = undefined;
+        }
+    } finally {
+        rekeying = null;
+        release();
+    }
+};
+
+const dbIsLocked = async (): Promise<boolean> => !!(await dbGetKV<LockMeta>('lock'));
+
+// False on a wrong passphrase; on success the storage key and the API key are held in memory
+const dbUnlock = async (passphrase: string): Promise<boolean> => {
+    const meta = await dbGetKV<LockMeta>('lock');
+    if (!meta) return true;
+    const key = await deriveKey(passphrase, fromBase64(meta.salt), meta.iterations);
+    try {
+        await openJSON(meta.check, key);
+    } catch (e) {
+        return false;
+    }
+    storageKey = key;
+    sessionApiKey = await dbGetKV<string>('apiKey');
+    return true;
+};
+
+const dbDestroy = async (): Promise<void> => {
+    storageKey = null;
+    sessionApiKey = undefined;
+    if (dbPromise) {
+        try { (await dbPromise).close(); } catch (e) { /* ignore */ }
+        dbPromise = null;
+    }
+    await new Promise<void>((resolve, reject) => {
+        const req = indexedDB.deleteDatabase(DB_NAME);
+        req.onsuccess = () => resolve();
+        req.onerror = () => reject(req.error);
+        req.onblocked = () => resolve(); // Deleted once other tabs close
+    });
+};
+
+const describeStorageError = (e: unknown): string => {
+    if (e instanceof DOMException && e.name === 'QuotaExceededError') return 'Storage quota exceeded. Export a backup and delete old photos or records.';
+    return e instanceof Error ? e.message : String(e);
+};
+
+// --- LLM Providers ---
+
+interface GenerateRequest {
+    prompt: string;
+    imageDataUri?: string; // data:image/jpeg;base64,...
+    responseSchema?: Schema;  // Switches the call to JSON mode
+    signal?: AbortSignal;
+}
+
+interface ToolCall {
+    id: string;
+    name: string;
+    args: Record<string, any>;
+    thoughtSignature?: string; // Gemini: must be echoed back with the call on the next turn
+}
+
+interface ToolDeclaration {
+    name: string;
+    description: string;
+    parameters: Schema;
+}
+
+// Provider-neutral conversation for multi-turn tool use
+type ChatTurn =
+    | { role: 'user'; text: string; imageDataUri?: string }
+    | { role: 'model'; text: string; calls: ToolCall[] }
+    | { role: 'tool'; results: { call: ToolCall; result: unknown }[] };
+
+interface LLMProvider {
+    supportsResponseSchema: boolean;
+    generate: (req: GenerateRequest) => Promise<string>;
+    // Streams one model turn: onText gets the accumulated text as tokens arrive, tool calls
+    // are returned once the turn ends. Aborting the signal cancels the request.
+    streamChat: (turns: ChatTurn[], tools: ToolDeclaration[], signal: AbortSignal | undefined, onText: (text: string) => void) => Promise<{ text: string; calls: ToolCall[] }>;
+}
+
+// Yield the JSON payloads of a server-sent events response
+async function* readSSE(res: Response): AsyncGenerator<any> {
+    if (!res.body) return;
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        let newline;
+        while ((newline = buffer.indexOf('\n')) !== -1) {
+            const line = buffer.slice(0, newline).trim();
+            buffer = buffer.slice(newline + 1);
+            if (!line.startsWith('data:')) continue;
+            const payload = line.slice(5).trim();
+            if (payload === '[DONE]') return;
+            try {
+                yield JSON.parse(payload);
+            } catch (e) {
+                // Ignore keep-alive or partial lines
+            }
+        }
+    }
+}
+
+const createGeminiProvider = (config: ModelConfig): LLMProvider => ({
+    supportsResponseSchema: true,
+    generate: async ({ prompt, imageDataUri, responseSchema }) => {
+        const apiKey = getApiKey();
+        if (!apiKey) throw new Error("No API Key Configured in Settings");
+        const ai = new GoogleGenAI({ apiKey, ...(config.baseUrl ? { httpOptions: { baseUrl: config.baseUrl } } : {}) });
+
+        const parts: any[] = [{ text: prompt }];
+        if (imageDataUri) {
+            parts.push({
+                inlineData: {
+                    mimeType: "image/jpeg",
+                    data: imageDataUri.split(',')[1]
+                }
+            });
+        }
+        const res = await ai.models.generateContent({
+            model: config.model,
+            contents: imageDataUri ? { parts } : prompt,
+            config: responseSchema ? { responseMimeType: "application/json", responseSchema } : undefined
+        });
+        return res.text || "";
+    },
+    // The SDK can't cancel an in-flight request, so streaming talks to the REST endpoint directly
+    streamChat: async (turns, tools, signal, onText) => {
+        const apiKey = getApiKey();
+        if (!apiKey) throw new Error("No API Key Configured in Settings");
+        const baseUrl = (config.baseUrl || 'https://generativelanguage.googleapis.com').replace(/\/+$/, '');
+
+        const contents = turns.map(turn => {
+            if (turn.role === 'user') {
+                const parts: any[] = [{ text: turn.text }];
+                if (turn.imageDataUri) parts.push({ inlineData: { mimeType: "image/jpeg", data: turn.imageDataUri.split(',')[1] } });
+                return { role: 'user', parts };
+            }
+            if (turn.role === 'model') {
+                return {
+                    role: 'model',
+                    parts: [
+                        ...(turn.text ? [{ text: turn.text }] : []),
+                        ...turn.calls.map(c => ({
+                            functionCall: { name: c.name, args: c.args },
+                            ...(c.thoughtSignature ? { thoughtSignature: c.thoughtSignature } : {})
+                        }))
+                    ]
+                };
+            }
+            return {
+                role: 'user',
+                parts: turn.results.map(r => ({ functionResponse: { name: r.call.name, response: { result: r.result } } }))
+            };
+        });
+        const res = await fetch(`${baseUrl}/v1beta/models/${config.model}:streamGenerateContent?alt=sse`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+            body: JSON.stringify({
+                contents,
+                ...(tools.length ? { tools: [{ functionDeclarations: tools }] } : {})
+            }),
+            signal
+        });
+        if (!res.ok) throw new Error(`Gemini returned ${res.status}: ${(await res.text()).slice(0, 200)}`);
+
+        let text = '';
+        const calls: ToolCall[] = [];
+        for await (const chunk of readSSE(res)) {
+            (chunk.candidates?.[0]?.content?.parts || []).forEach((part: any) => {
+                if (part.functionCall) {
+                    calls.push({
+                        id: `${part.functionCall.name}_${calls.length}`,
+                        name: part.functionCall.name,
+                        args: part.functionCall.args || {},
+                        thoughtSignature: part.thoughtSignature
+                    });
+                } else if (part.text) {
+                    text += part.text;
+                    onText(text);
+                }
+            });
+        }
+        return { text, calls };
+    }
+});
+
+// Works with OpenAI, Ollama (http://localhost:11434/v1), llama.cpp server or a mock server
+const createOpenAICompatibleProvider = (config: ModelConfig): LLMProvider => {
+    const post = async (body: Record<string, any>, signal?: AbortSignal) => {
+        const baseUrl = (config.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+        const res = await fetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+            },
+            body: JSON.stringify({ model: config.model, ...body }),
+            signal
+        });
+        if (!res.ok) throw new Error(`Provider returned ${res.status}: ${(await res.text()).slice(0, 200)}`);
+        return res;
+    };
+
+    const userContent = (text: string, imageDataUri?: string) => imageDataUri
+        ? [{ type: 'text', text }, { type: 'image_url', image_url: { url: imageDataUri } }]
+        : text;
+
+    return {
+        supportsResponseSchema: false,
+        generate: async ({ prompt, imageDataUri, signal }) => {
+            const data = await (await post({ messages: [{ role: 'user', content: userContent(prompt, imageDataUri) }] }, signal)).json();
+            return data.choices?.[0]?.message?.content || "";
+        },
+        streamChat: async (turns, tools, signal, onText) => {
+            const messages = turns.flatMap((turn): any[] => {
+                if (turn.role === 'user') return [{ role: 'user', content: userContent(turn.text, turn.imageDataUri) }];
+                if (turn.role === 'model') {
+                    return [{
+                        role: 'assistant',
+                        content: turn.text || null,
+                        ...(turn.calls.length ? {
+                            tool_calls: turn.calls.map(c => ({ id: c.id, type: 'function', function: { name: c.name, arguments: JSON.stringify(c.args) } }))
+                        } : {})
+                    }];
+                }
+                return turn.results.map(r => ({ role: 'tool', tool_call_id: r.call.id, content: JSON.stringify(r.result) }));
+            });
+            const res = await post({
+                messages,
+                stream: true,
+                ...(tools.length ? {
+                    tools: tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: toJsonSchema(t.parameters) } }))
+                } : {})
+            }, signal);
+
+            let text = '';
+            // Tool call fragments arrive by index and are concatenated
+            const partialCalls: { id: string; name: string; args: string }[] = [];
+            for await (const chunk of readSSE(res)) {
+                const delta = chunk.choices?.[0]?.delta || {};
+                if (delta.content) {
+                    text += delta.content;
+                    onText(text);
+                }
+                (delta.tool_calls || []).forEach((tc: any) => {
+                    const slot = partialCalls[tc.index ?? 0] || (partialCalls[tc.index ?? 0] = { id: '', name: '', args: '' });
+                    if (tc.id) slot.id = tc.id;
+                    if (tc.function?.name) slot.name += tc.function.name;
+                    if (tc.function?.arguments) slot.args += tc.function.arguments;
+                });
+            }
+            const calls = partialCalls.filter(Boolean).map((c, i) => {
+                let args = {};
+                try {
+                    args = c.args ? parseJsonLoose(c.args) : {};
+                } catch { /* unparseable arguments: run the tool with none */ }
+                return { id: c.id || `${c.name}_${i}`, name: c.name, args };
+            });
+            return { text, calls };
+        }
+    };
+};
+
+const getProvider = (config: ModelConfig): LLMProvider => {
+    return config.provider === 'openai' ? createOpenAICompatibleProvider(config) : createGeminiProvider(config);
+};
+
+const hasProviderCredentials = (config: ModelConfig) => {
+    return config.provider === 'gemini' ? !!getApiKey() : !!(config.baseUrl || config.apiKey);
+};
+
+// Convert a Gemini Type-style schema into plain JSON Schema for prompting other providers
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+    const out: Record<string, unknown> = { type: String(schema.type).toLowerCase() };
+    if (schema.description) out.description = schema.description;
+    if (schema.enum) out.enum = schema.enum;
+    if (schema.items) out.items = toJsonSchema(schema.items);
+    if (schema.properties) {
+        out.properties = Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toJsonSchema(v)]));
+    }
+    if (schema.required) out.required = schema.required;
+    return out;
+};
+
+// Parse model output that may be wrapped in prose or code fences, or carry trailing commas
+const parseJsonLoose = (text: string): any => {
+    let t = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    try {
+        return JSON.parse(t);
+    } catch (e) {
+        const start = t.search(/[\[{]/);
+        const end = Math.max(t.lastIndexOf(']'), t.lastIndexOf('}'));
+        if (start === -1 || end <= start) throw new Error("No JSON found in model output");
+        t = t.slice(start, end + 1).replace(/,\s*([\]}])/g, '$1');
+        return JSON.parse(t);
+    }
+};
+
+// Coerce parsed JSON into the shape the schema describes; returns undefined for unusable values
+const conformToSchema = (value: unknown, schema: Schema | undefined): unknown => {
+    if (!schema || value === undefined || value === null) return value;
+    switch (schema.type) {
+        case Type.ARRAY: {
+            let arr = value;
+            if (typeof arr === 'string' && schema.items?.type === Type.STRING) {
+                // "餐饮, 交通" style lists
+                arr = arr.split(/[,，、]/).map(v => v.trim()).filter(Boolean);
+            }
+            if (!Array.isArray(arr)) {
+                // Unwrap {"items": [...]} style wrappers, or wrap a lone value
+                const inner = arr && typeof arr === 'object' ? Object.values(arr).find(Array.isArray) : undefined;
+                arr = inner || [arr];
+            }
+            return (arr as unknown[]).map(v => conformToSchema(v, schema.items)).filter(v => v !== undefined);
+        }
+        case Type.OBJECT: {
+            if (typeof value !== 'object' || Array.isArray(value)) return undefined;
+            const out: Record<string, unknown> = { ...value };
+            Object.entries(schema.properties || {}).forEach(([k, prop]) => {
+                if (out[k] === undefined || out[k] === null) {
+                    if ((schema.required || []).includes(k) && prop.type === Type.STRING) out[k] = '';
+                    return;
+                }
+                out[k] = conformToSchema(out[k], prop);
+                if (out[k] === undefined) delete out[k];
+            });
+            return out;
+        }
+        case Type.NUMBER:
+        case Type.INTEGER: {
+            const n = typeof value === 'number' ? value : parseFloat(String(value).replace(/[^\d.eE+-]/g, ''));
+            if (isNaN(n)) return undefined;
+            return schema.type === Type.INTEGER ? Math.round(n) : n;
+        }
+        case Type.BOOLEAN:
+            return typeof value === 'boolean' ? value : ['true', '1', 'yes', '是'].includes(String(value).toLowerCase());
+        case Type.STRING: {
+            const str = typeof value === 'string' ? value : typeof value === 'object' ? JSON.stringify(value) : String(value);
+            if (schema.enum && !schema.enum.includes(str)) {
+                return schema.enum.find(o => o.toLowerCase() === str.toLowerCase()) ?? str;
+            }
+            return str;
+        }
+        default:
+            return value;
+    }
+};
+
+// --- Organizer Schema ---
+
+// JSON type of a single configured field
+const fieldToSchema = (field: FieldSchema): Schema => {
+    const description = [field.label, field.unit ? `unit: ${field.unit}` : '', field.placeholder || '', describeFieldRules(field.rules)].filter(Boolean).join(', ');
+    switch (field.type) {
+        case 'number':
+            return { type: Type.NUMBER, description, nullable: !field.required };
+        case 'rating':
+            return { type: Type.NUMBER, description: `${description}, 1-5`, nullable: !field.required };
+        case 'date':
+            return { type: Type.STRING, description: `${description}, YYYY-MM-DD`, nullable: !field.required };
+        case 'select':
+            return field.options?.length
+                ? { type: Type.STRING, enum: field.options, description, nullable: !field.required }
+                : { type: Type.STRING, description, nullable: !field.required };
+        case 'multiselect':
+            return {
+                type: Type.ARRAY,
+                items: field.options?.length ? { type: Type.STRING, enum: field.options } : { type: Type.STRING },
+                description,
+                nullable: !field.required
+            };
+        case 'boolean':
+            return { type: Type.BOOLEAN, description, nullable: !field.required };
+        case 'time':
+            return { type: Type.STRING, description: `${description}, HH:mm`, nullable: !field.required };
+        case 'duration':
+            return { type: Type.NUMBER, description: `${description}, total minutes`, nullable: !field.required };
+        case 'money':
+            return {
+                type: Type.OBJECT,
+                properties: {
+                    amount: { type: Type.NUMBER },
+                    currency: { type: Type.STRING, enum: field.options?.length ? field.options : DEFAULT_CURRENCIES }
+                },
+                required: ['amount', 'currency'],
+                description,
+                nullable: !field.required
+            };
+        case 'url':
+            return { type: Type.STRING, description: `${description}, full URL`, nullable: !field.required };
+        case 'reference':
+            return { type: Type.STRING, description: `${description}, id of a related existing entry, leave empty if unknown`, nullable: true };
+        default:
+            return { type: Type.STRING, description, nullable: !field.required };
+    }
+};
+
+// Details schema of one category, used to discriminate organizer output by its category
+const buildDetailsSchema = (fields: FieldSchema[]): Schema => ({
+    type: Type.OBJECT,
+    properties: Object.fromEntries(fields.filter(f => !f.formula).map(f => [f.key, fieldToSchema(f)])),
+    required: fields.filter(f => f.required && !f.formula).map(f => f.key)
+});
+
+// A single responseSchema can't branch on category, so details carry the union of all
+// category fields (same key in several categories: labels joined, enum options merged)
+// and only keys required by every category stay required. Per-category rules are
+// re-applied by conformOrganizerOutput.
+const buildOrganizerSchema = (schemas: Record<string, FieldSchema[]>, categories: string[]): Schema => {
+    const properties: Record<string, Schema> = {};
+    const owners: Record<string, string[]> = {};
+    Object.entries(schemas).filter(([cat]) => categories.includes(cat)).forEach(([cat, fields]) => {
+        fields.filter(f => !f.formula).forEach(f => {
+            const prop = fieldToSchema(f);
+            const existing = properties[f.key];
+            owners[f.key] = [...(owners[f.key] || []), cat];
+            if (!existing) {
+                properties[f.key] = prop;
+                return;
+            }
+            if (existing.type !== prop.type) {
+                // Conflicting types: fall back to a free string
+                properties[f.key] = { type: Type.STRING, nullable: true };
+                return;
+            }
+            const existingEnum = existing.enum || existing.items?.enum;
+            const propEnum = prop.enum || prop.items?.enum;
+            const mergedEnum = existingEnum && propEnum ? Array.from(new Set([...existingEnum, ...propEnum])) : undefined;
+            properties[f.key] = {
+                ...existing,
+                ...(existing.type === Type.ARRAY
+                    ? { items: mergedEnum ? { type: Type.STRING, enum: mergedEnum } : { type: Type.STRING } }
+                    : { enum: mergedEnum }),
+                nullable: existing.nullable || prop.nullable
+            };
+            if (!mergedEnum) delete properties[f.key].enum;
+        });
+    });
+    Object.entries(properties).forEach(([key, prop]) => {
+        const cats = owners[key];
+        if (cats.length < Object.keys(schemas).length) {
+            prop.description = `${prop.description || key} (only for: ${cats.join(', ')})`;
+        }
+    });
+    const allFieldSets = Object.values(schemas);
+    const required = Object.keys(properties).filter(key =>
+        allFieldSets.length > 0 && allFieldSets.every(fields => fields.some(f => f.key === key && f.required))
+    );
+
+    return {
+        type: Type.ARRAY,
+        items: {
+            type: Type.OBJECT,
+            properties: {
+                date: { type: Type.STRING, description: "YYYY-MM-DD" },
+                category: { type: Type.STRING, enum: categories },
+                event: { type: Type.STRING, description: "1-2 words Title" },
+                confidence: { type: Type.NUMBER, nullable: true, description: "0-1, how certain this extraction is" },
+                details: { type: Type.OBJECT, properties, required }
+            },
+            required: ["category", "event", "date", "details"]
+        }
+    };
+};
+
+// Re-shape each item's details against the schema of its own category
+const conformOrganizerOutput = (items: any[], schemas: Record<string, FieldSchema[]>): any[] => {
+    return items.map(item => {
+        const fields = schemas[item.category];
+        if (!fields) return item;
+        return { ...item, details: conformToSchema(item.details || {}, buildDetailsSchema(fields)) || {} };
+    });
+};
+
+// --- Entry Validation ---
+
+const TIME_FIELD_KEYS = ['time', 'waketime'];
+
+// "2025/1/5", "2025-01-05T..." -> "2025-01-05"; null when not a real calendar date
+const normalizeDateStr = (value: unknown): string | null => {
+    const m = String(value ?? '').trim().match(/^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})/);
+    if (!m) return null;
+    const [y, mo, d] = [parseInt(m[1]), parseInt(m[2]), parseInt(m[3])];
+    const date = new Date(y, mo - 1, d);
+    if (date.getFullYear() !== y || date.getMonth() !== mo - 1 || date.getDate() !== d) return null;
+    return `${m[1]}-${String(mo).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+};
+
+// Free-form clock times: "23:30", "7.05", "11pm", "7:30 am", "7点半", "晚上11点", "凌晨1点10分" -> minutes after midnight
+const parseClockTime = (value: unknown): number | null => {
+    const s = String(value ?? '').trim().toLowerCase();
+    if (!s) return null;
+    let h: number, min = 0;
+    const clock = s.match(/(\d{1,2})\s*[:：]\s*(\d{1,2})/);
+    const chinese = s.match(/(\d{1,2})\s*[点時时](?:\s*(半|\d{1,2})\s*分?)?/);
+    const plain = s.match(/^(\d{1,2})(?:\.(\d{2}))?\s*(?:am|pm|a\.m\.|p\.m\.)?$/);
+    if (clock) {
+        [h, min] = [parseInt(clock[1]), parseInt(clock[2])];
+    } else if (chinese) {
+        h = parseInt(chinese[1]);
+        min = chinese[2] === '半' ? 30 : chinese[2] ? parseInt(chinese[2]) : 0;
+    } else if (plain) {
+        h = parseInt(plain[1]);
+        min = plain[2] ? parseInt(plain[2]) : 0;
+    } else {
+        return null;
+    }
+    if (/pm|p\.m\.|下午|傍晚/.test(s) && h < 12) h += 12;
+    else if (/晚上|夜里|夜/.test(s) && !/半夜/.test(s) && h >= 6 && h < 12) h += 12;
+    else if (/am|a\.m\.|凌晨|半夜|早上|上午/.test(s) && h === 12) h = 0;
+    if (/晚上|夜里|半夜/.test(s) && h === 12) h = 0;
+    if (h > 23 || min > 59) return null;
+    return h * 60 + min;
+};
+
+const formatClock = (minutes: number) => {
+    const m = ((Math.round(minutes) % 1440) + 1440) % 1440;
+    return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+};
+
+// "9:5", "09:05:00", "11pm", "晚上11点" -> "HH:mm"; null when not a time of day
+const normalizeTimeStr = (value: unknown): string | null => {
+    const minutes = parseClockTime(value);
+    return minutes === null ? null : formatClock(minutes);
+};
+
+const toNumber = (value: unknown): number | null => {
+    if (typeof value === 'number') return isNaN(value) ? null : value;
+    const n = parseFloat(String(value ?? '').replace(/[^\d.eE+-]/g, ''));
+    return isNaN(n) ? null : n;
+};
+
+// "1小时30分钟", "1.5h", "45 min", "半小时", "01:30" -> minutes; null when unrecognized
+const parseDurationMinutes = (value: unknown): number | null => {
+    if (typeof value === 'number') return isNaN(value) ? null : value;
+    const s = String(value ?? '').trim().toLowerCase();
+    if (!s) return null;
+    if (s.includes('半小时')) return 30 + (parseFloat(s) || 0) * 60;
+    const clock = s.match(/^(\d{1,2})[:：](\d{2})$/);
+    if (clock) return parseInt(clock[1]) * 60 + parseInt(clock[2]);
+    const hours = s.match(/([\d.]+)\s*(小时|个小时|h|hr|hour)/);
+    const minutes = s.match(/([\d.]+)\s*(分钟|分|m|min)/);
+    if (hours || minutes) return (hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseFloat(minutes[1]) : 0);
+    const bare = parseFloat(s);
+    return isNaN(bare) ? null : bare;
+};
+
+const parseBoolean = (value: unknown): boolean | null => {
+    if (typeof value === 'boolean') return value;
+    const s = String(value ?? '').trim().toLowerCase();
+    if (['true', 'yes', 'y', '1', '是', '有', '对'].includes(s)) return true;
+    if (['false', 'no', 'n', '0', '否', '没有', '无', '不'].includes(s)) return false;
+    return null;
+};
+
+// {amount, currency}, a bare number or "35元" / "$5" / "12.5 USD"; null when there is no amount
+const parseMoney = (value: unknown, currencies: string[] = DEFAULT_CURRENCIES): { amount: number; currency: string } | null => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+        const money = value as { amount?: unknown; currency?: unknown };
+        const amount = toNumber(money.amount);
+        return amount === null ? null : { amount, currency: String(money.currency || currencies[0]).toUpperCase() };
+    }
+    const s = String(value ?? '');
+    const amount = toNumber(s.replace(/[A-Za-z]{3}/, ''));
+    if (amount === null) return null;
+    const code = s.match(/[A-Za-z]{3}/)?.[0].toUpperCase();
+    const symbol = s.includes('$') ? 'USD' : s.includes('€') ? 'EUR' : /[¥元]/.test(s) ? 'CNY' : undefined;
+    return { amount, currency: code || symbol || currencies[0] };
+};
+
+// Adds a missing https:// to bare domains; null when it still isn't a URL
+const normalizeUrl = (value: unknown): string | null => {
+    const s = String(value ?? '').trim();
+    const withScheme = /^[a-z][a-z\d+.-]*:/i.test(s) ? s : `https://${s}`;
+    try {
+        const url = new URL(withScheme);
+        return url.hostname.includes('.') || url.protocol !== 'https:' ? url.href : null;
+    } catch {
+        return null;
+    }
+};
+
+const formatDuration = (minutes: number) => {
+    const h = Math.floor(minutes / 60);
+    const m = Math.round(minutes % 60);
+    return h ? `${h}h${m ? ` ${m}m` : ''}` : `${m}m`;
+};
+
+const draftToEntry = ({ status, confidence, ...entry }: DraftEntry): Entry => entry;
+
+const isEmptyValue = (value: unknown) => value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// Messages for declared rules the value breaks; empty values are left to `required`
+const checkFieldRules = (field: FieldSchema, value: unknown): string[] => {
+    const rules = field.rules;
+    if (!rules || isEmptyValue(value)) return [];
+    const errors: string[] = [];
+    // Durations are compared in minutes, whether stored as a number or written like "1h30m"
+    const n = field.type === 'duration' ? parseDurationMinutes(value)
+        : typeof value === 'number' ? value
+        : value && typeof value === 'object' && 'amount' in value ? toNumber(value.amount) : null;
+    if (n !== null) {
+        if (rules.min !== undefined && n < rules.min) errors.push(`${field.label} must be at least ${rules.min}`);
+        if (rules.max !== undefined && n > rules.max) errors.push(`${field.label} must be at most ${rules.max}`);
+        if (rules.integer && !Number.isInteger(n)) errors.push(`${field.label} must be a whole number`);
+    }
+    if (typeof value === 'string' && field.type !== 'duration') {
+        if (rules.maxLength && value.length > rules.maxLength) errors.push(`${field.label} is longer than ${rules.maxLength} characters`);
+        if (rules.pattern) {
+            try {
+                if (!new RegExp(rules.pattern).test(value)) errors.push(`${field.label} doesn't match ${rules.pattern}`);
+            } catch {
+                // Invalid patterns are reported in the schema editor
+            }
+        }
+    }
+    return errors;
+};
+
+const describeFieldRules = (rules?: FieldRules) => [
+    rules?.min !== undefined ? `min ${rules.min}` : '',
+    rules?.max !== undefined ? `max ${rules.max}` : '',
+    rules?.integer ? 'integer' : '',
+    rules?.maxLength ? `max ${rules.maxLength} chars` : '',
+    rules?.pattern ? `matches /${rules.pattern}/` : '',
+].filter(Boolean).join(', ');
+
+// Computed fields use a small arithmetic language: numbers, sibling keys (money.amount style paths),
+// + - * / ^, parentheses and the functions below. It is parsed by hand so that imported schemas
+// can't run arbitrary code.
+type FormulaNode =
+    | { kind: 'num'; value: number }
+    | { kind: 'ref'; path: string[] }
+    | { kind: 'neg'; arg: FormulaNode }
+    | { kind: 'op'; op: string; left: FormulaNode; right: FormulaNode }
+    | { kind: 'call'; name: string; args: FormulaNode[] };
+
+const FORMULA_FUNCTIONS: Record<string, (...args: unknown[]) => number | null> = {
+    // Overnight spans wrap, e.g. hours_between(time, waketime) for 23:30 -> 07:00 is 7.5
+    hours_between: (start, end) => {
+        const a = parseClockTime(start), b = parseClockTime(end);
+        return a === null || b === null ? null : ((b - a + 1440) % 1440) / 60;
+    },
+    minutes: value => parseDurationMinutes(value),
+    round: (value, digits = 0) => {
+        const n = toNumber(value), d = toNumber(digits) || 0;
+        return n === null ? null : Math.round(n * 10 ** d) / 10 ** d;
+    },
+    abs: value => toNumber(value) === null ? null : Math.abs(toNumber(value)!),
+    min: (...values) => values.some(v => toNumber(v) === null) ? null : Math.min(...values.map(v => toNumber(v)!)),
+    max: (...values) => values.some(v => toNumber(v) === null) ? null : Math.max(...values.map(v => toNumber(v)!)),
+};
+
+// Throws on syntax errors
+const parseFormula = (src: string): FormulaNode => {
+    const tokens = src.match(/\d+(?:\.\d+)?|[A-Za-z_][\w.]*|[-+*/^(),]|\S/g) || [];
+    let pos = 0;
+    const peek = () => tokens[pos];
+    const expect = (t: string) => {
+        if (tokens[pos] !== t) throw new Error(`Expected "${t}"${tokens[pos] ? ` but found "${tokens[pos]}"` : ''}`);
+        pos++;
+    };
+
+    const primary = (): FormulaNode => {
+        const t = tokens[pos++];
+        if (t === undefined) throw new Error("Unexpected end of formula");
+        if (t === '(') {
+            const node = expr();
+            expect(')');
+            return node;
+        }
+        if (/^\d/.test(t)) return { kind: 'num', value: parseFloat(t) };
+        if (/^[A-Za-z_]/.test(t)) {
+            if (peek() !== '(') return { kind: 'ref', path: t.split('.') };
+            if (!FORMULA_FUNCTIONS[t]) throw new Error(`Unknown function ${t}`);
+            pos++;
+            const args: FormulaNode[] = [];
+            if (peek() !== ')') {
+                args.push(expr());
+                while (peek() === ',') { pos++; args.push(expr()); }
+            }
+            expect(')');
+            return { kind: 'call', name: t, args };
+        }
+        throw new Error(`Unexpected "${t}"`);
+    };
+    const unary = (): FormulaNode => {
+        if (peek() === '-') { pos++; return { kind: 'neg', arg: unary() }; }
+        return primary();
+    };
+    const power = (): FormulaNode => {
+        const left = unary();
+        if (peek() !== '^') return left;
+        pos++;
+        return { kind: 'op', op: '^', left, right: power() };
+    };
+    const binary = (next: () => FormulaNode, ops: string[]) => (): FormulaNode => {
+        let left = next();
+        while (ops.includes(peek())) {
+            const op = tokens[pos++];
+            left = { kind: 'op', op, left, right: next() };
+        }
+        return left;
+    };
+    const term = binary(power, ['*', '/']);
+    const expr = binary(term, ['+', '-']);
+
+    const node = expr();
+    if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}"`);
+    return node;
+};
+
+// Sibling keys used by a formula, for the editor
+const formulaRefs = (node: FormulaNode): string[] => {
+    switch (node.kind) {
+        case 'ref': return [node.path[0]];
+        case 'neg': return formulaRefs(node.arg);
+        case 'op': return [...formulaRefs(node.left), ...formulaRefs(node.right)];
+        case 'call': return node.args.flatMap(formulaRefs);
+        default: return [];
+    }
+};
+
+// Null when the formula is invalid or an input is missing / not a number
+const evaluateFormula = (formula: string, details: Record<string, any>): number | null => {
+    const evalNode = (node: FormulaNode): unknown => {
+        switch (node.kind) {
+            case 'num': return node.value;
+            case 'ref': return node.path.reduce<unknown>((v, k) => v && typeof v === 'object' ? (v as Record<string, unknown>)[k] : undefined, details);
+            case 'call': return FORMULA_FUNCTIONS[node.name](...node.args.map(evalNode));
+            case 'neg': {
+                const v = num(evalNode(node.arg));
+                return v === null ? null : -v;
+            }
+            case 'op': {
+                const a = num(evalNode(node.left)), b = num(evalNode(node.right));
+                if (a === null || b === null) return null;
+                switch (node.op) {
+                    case '+': return a + b;
+                    case '-': return a - b;
+                    case '*': return a * b;
+                    case '/': return b === 0 ? null : a / b;
+                    default: return a ** b;
+                }
+            }
+        }
+    };
+    // Money values take part with their amount
+    const num = (v: unknown): number | null => isEmptyValue(v) ? null : toNumber(v && typeof v === 'object' && 'amount' in v ? v.amount : v);
+    try {
+        const result = num(evalNode(parseFormula(formula)));
+        return result === null || !isFinite(result) ? null : Math.round(result * 100) / 100;
+    } catch {
+        return null;
+    }
+};
+
+interface ValidatedEntry {
+    date: string;
+    category: string;
+    event: string;
+    details: Record<string, any>;
+    issues: EntryIssue[];
+}
+
+// Organizer output or a manual edit, nothing in it is trusted yet
+type RawEntry = { category?: unknown; date?: unknown; event?: unknown; details?: Record<string, any> };
+
+// Coerce organizer output (or a manual edit) into a well-formed entry, collecting
+// per-field problems instead of storing values that don't fit the schema.
+// With entriesById, reference fields must point at an existing entry of an allowed category.
+const validateEntry = (raw: RawEntry | null | undefined, schemas: Record<string, FieldSchema[]>, categories: Record<string, CategoryMeta>, fallbackDate: string, entriesById?: Map<string, Entry>): ValidatedEntry => {
+    const issues: EntryIssue[] = [];
+
+    let category = String(raw?.category || '');
+    if (!categories[category]) {
+        issues.push({ field: 'category', message: `Unknown category "${category}", filed under other` });
+        category = 'other';
+    }
+
+    let date = normalizeDateStr(raw?.date);
+    if (!date) {
+        if (raw?.date) issues.push({ field: 'date', message: `Invalid date "${raw.date}", used ${fallbackDate}` });
+        date = fallbackDate;
+    }
+
+    const details: Record<string, any> = { ...(raw?.details || {}) };
+    const fields = schemas[category] || [];
+
+    fields.forEach(field => {
+        const value = details[field.key];
+        if (field.formula) return; // Computed below
+        // A money value may hold only the picked currency until an amount is typed
+        if (isEmptyValue(value) || (field.type === 'money' && typeof value === 'object' && isEmptyValue(value.amount))) {
+            if (field.required) issues.push({ field: field.key, message: `${field.label} is required`, rule: true });
+            delete details[field.key];
+            return;
+        }
+
+        if (TIME_FIELD_KEYS.includes(field.key) || field.placeholder === 'HH:mm') {
+            const time = normalizeTimeStr(value);
+            if (time) details[field.key] = time;
+            else {
+                issues.push({ field: field.key, message: `"${value}" is not a HH:mm time` });
+                delete details[field.key];
+            }
+            return;
+        }
+
+        switch (field.type) {
+            case 'number':
+            case 'rating': {
+                const n = toNumber(value);
+                if (n === null) {
+                    issues.push({ field: field.key, message: `"${value}" is not a number` });
+                    delete details[field.key];
+                } else if (field.type === 'rating' && (n < 1 || n > 5)) {
+                    issues.push({ field: field.key, message: `Rating ${n} is outside 1-5` });
+                    details[field.key] = Math.min(5, Math.max(1, n));
+                } else {
+                    details[field.key] = n;
+                }
+                break;
+            }
+            case 'date': {
+                const d = normalizeDateStr(value);
+                if (d) details[field.key] = d;
+                else {
+                    issues.push({ field: field.key, message: `"${value}" is not a YYYY-MM-DD date` });
+                    delete details[field.key];
+                }
+                break;
+            }
+            case 'select': {
+                const str = String(value);
+                const match = field.options?.length ? field.options.find(o => o.toLowerCase() === str.toLowerCase()) : str;
+                if (match === undefined) {
+                    issues.push({ field: field.key, message: `"${str}" is not one of ${field.options!.join('/')}` });
+                    delete details[field.key];
+                } else {
+                    details[field.key] = match;
+                }
+                break;
+            }
+            case 'multiselect': {
+                const list: string[] = (Array.isArray(value) ? value : String(value).split(/[,，、]/)).map((v: unknown) => String(v).trim()).filter(Boolean);
+                if (!field.options?.length) {
+                    details[field.key] = list;
+                    break;
+                }
+                const valid: string[] = [];
+                list.forEach(v => {
+                    const match = field.options!.find(o => o.toLowerCase() === v.toLowerCase());
+                    if (match) valid.push(match);
+                    else issues.push({ field: field.key, message: `"${v}" is not one of ${field.options!.join('/')}` });
+                });
+                if (valid.length) details[field.key] = valid;
+                else delete details[field.key];
+                break;
+            }
+            case 'boolean': {
+                const b = parseBoolean(value);
+                if (b === null) {
+                    issues.push({ field: field.key, message: `"${value}" is not yes/no` });
+                    delete details[field.key];
+                } else {
+                    details[field.key] = b;
+                }
+                break;
+            }
+            case 'time': {
+                const time = normalizeTimeStr(value);
+                if (time) details[field.key] = time;
+                else {
+                    issues.push({ field: field.key, message: `"${value}" is not a HH:mm time` });
+                    delete details[field.key];
+                }
+                break;
+            }
+            case 'duration': {
+                const minutes = parseDurationMinutes(value);
+                if (minutes === null || minutes < 0) {
+                    issues.push({ field: field.key, message: `"${value}" is not a duration` });
+                    delete details[field.key];
+                } else {
+                    details[field.key] = minutes;
+                }
+                break;
+            }
+            case 'money': {
+                const currencies = field.options?.length ? field.options : DEFAULT_CURRENCIES;
+                const money = parseMoney(value, currencies);
+                if (!money) {
+                    issues.push({ field: field.key, message: `"${formatFieldValue(value)}" is not an amount` });
+                    delete details[field.key];
+                } else {
+                    if (!currencies.includes(money.currency)) issues.push({ field: field.key, message: `Currency ${money.currency} is not one of ${currencies.join('/')}` });
+                    details[field.key] = money;
+                }
+                break;
+            }
+            case 'url': {
+                const url = normalizeUrl(value);
+                if (url) details[field.key] = url;
+                else {
+                    issues.push({ field: field.key, message: `"${value}" is not a URL` });
+                    delete details[field.key];
+                }
+                break;
+            }
+            case 'reference': {
+                const id = String(value);
+                details[field.key] = id;
+                if (!entriesById) break;
+                // Kept like a rule violation, so a manual edit can't save a dangling link
+                const target = entriesById.get(id);
+                if (!target) issues.push({ field: field.key, message: `Linked entry ${id} does not exist`, rule: true });
+                else if (field.options?.length && !field.options.includes(target.category)) {
+                    issues.push({ field: field.key, message: `Linked entry "${target.event}" is not one of ${field.options.join('/')}`, rule: true });
+                }
+                break;
+            }
+            default:
+                details[field.key] = typeof value === 'object' ? JSON.stringify(value) : String(value);
+        }
+
+        // Rule violations keep the value so it can be corrected instead of retyped
+        checkFieldRules(field, details[field.key]).forEach(message => issues.push({ field: field.key, message, rule: true }));
+    });
+
+    // Computed fields run in schema order, so a formula may use fields computed above it
+    fields.filter(f => f.formula).forEach(field => {
+        const result = evaluateFormula(field.formula!, details);
+        if (result === null) {
+            delete details[field.key];
+            return;
+        }
+        details[field.key] = result;
+        checkFieldRules(field, result).forEach(message => issues.push({ field: field.key, message }));
+    });
+
+    // Finance rule: negative for expense, positive for income, sign and transaction_type must agree
+    if (category === 'finance_tracking' && typeof details.amount === 'number') {
+        if (!details.transaction_type) {
+            details.transaction_type = details.amount < 0 ? '支出' : '收入';
+            issues.push({ field: 'transaction_type', message: `Inferred "${details.transaction_type}" from the amount sign` });
+        }
+        if (details.transaction_type === '支出') details.amount = -Math.abs(details.amount);
+        if (details.transaction_type === '收入') details.amount = Math.abs(details.amount);
+        if (!details.currency) details.currency = 'CNY';
+    }
+
+    const event = String(raw?.event || '').trim() || String(details.summary || '').slice(0, 8) || getCategoryMeta(categories, category).label;
+
+    return { date, category, event, details, issues };
+};
+
+// Structured output for any provider: native responseSchema where available, prompt + repair otherwise
+const generateJSON = async <T,>(config: ModelConfig, req: GenerateRequest & { responseSchema: Schema }): Promise<T | undefined> => {
+    const provider = getProvider(config);
+    const prompt = provider.supportsResponseSchema ? req.prompt : `${req.prompt}
+
+Respond ONLY with JSON (no prose, no code fences) matching this JSON Schema:
+${JSON.stringify(toJsonSchema(req.responseSchema))}`;
+    const text = await provider.generate({ ...req, prompt });
+    if (!text.trim()) return undefined;
+    return conformToSchema(parseJsonLoose(text), req.responseSchema) as T;
+};
+
+// --- Schema Migration ---
+
+// Field edits from the schema editor, keyed by the field's key before the edit
+type SchemaOp =
+    | { kind: 'rename'; from: string; to: string }
+    | { kind: 'retype'; key: string; from: FieldType; to: FieldType }
+    | { kind: 'mergeOptions'; key: string; mapping: Record<string, string> } // old option -> surviving option
+    | { kind: 'delete'; key: string };
+
+interface FieldChange {
+    key: string; // Key after the migration
+    from?: string; // Key before the migration, when renamed
+    before: unknown;
+    after: unknown;
+    failed?: boolean; // Value could not be converted and was kept as is
+}
+
+const describeSchemaOp = (op: SchemaOp) => {
+    switch (op.kind) {
+        case 'rename': return `Rename ${op.from} → ${op.to}`;
+        case 'retype': return `Change ${op.key} from ${op.from} to ${op.to}`;
+        case 'mergeOptions': return `Merge ${op.key} options ${Object.entries(op.mapping).map(([a, b]) => `${a} → ${b}`).join(', ')}`;
+        case 'delete': return `Delete ${op.key}`;
+    }
+};
+
+// Convert a stored value to another field type; null when it doesn't fit
+const convertFieldValue = (value: unknown, to: FieldType): unknown => {
+    if (isEmptyValue(value)) return value;
+    // Single value view: first list item, or the amount of a money value
+    const scalar = Array.isArray(value) ? value[0]
+        : value && typeof value === 'object' && 'amount' in value ? value.amount : value;
+    const list = Array.isArray(value) ? value : String(scalar).split(/[,，、]/).map(s => s.trim()).filter(Boolean);
+    switch (to) {
+        case 'number': return toNumber(scalar);
+        case 'rating': {
+            const n = toNumber(scalar);
+            return n === null ? null : Math.min(5, Math.max(1, Math.round(n)));
+        }
+        case 'date': return normalizeDateStr(scalar);
+        case 'multiselect': return list;
+        case 'select': return list.length ? String(list[0]) : null;
+        case 'boolean': return parseBoolean(scalar);
+        case 'time': return normalizeTimeStr(scalar);
+        case 'duration': return parseDurationMinutes(scalar);
+        case 'money': return parseMoney(value);
+        case 'url': return normalizeUrl(scalar);
+        default: return formatFieldValue(value);
+    }
+};
+
+// Applies ops to one entry's details. Option merges, retypes and deletes run on the old keys,
+// then renames all at once (so swapping two keys works).
+const applySchemaOps = (details: Record<string, any>, ops: SchemaOp[]): { details: Record<string, any>; changes: FieldChange[] } => {
+    const next = { ...details };
+    const failed = new Set<string>();
+
+    ops.forEach(op => {
+        if (op.kind === 'mergeOptions' && op.key in next) {
+            const value = next[op.key];
+            next[op.key] = Array.isArray(value)
+                ? Array.from(new Set(value.map(v => op.mapping[v] ?? v)))
+                : op.mapping[value] ?? value;
+        }
+        if (op.kind === 'retype' && !isEmptyValue(next[op.key])) {
+            const converted = convertFieldValue(next[op.key], op.to);
+            if (converted === null) failed.add(op.key);
+            else next[op.key] = converted;
+        }
+    });
+
+    ops.forEach(op => {
+        if (op.kind === 'delete') delete next[op.key];
+    });
+
+    const renames = ops.filter((op): op is Extract<SchemaOp, { kind: 'rename' }> => op.kind === 'rename');
+    const moved: Record<string, any> = {};
+    renames.forEach(op => {
+        if (op.from in next) {
+            moved[op.to] = next[op.from];
+            delete next[op.from];
+        }
+    });
+    Object.assign(next, moved);
+
+    // Report per resulting key, following renames back to the original value
+    const originalKey = (key: string) => renames.find(op => op.to === key)?.from ?? key;
+    const changes: FieldChange[] = [];
+    Array.from(new Set([...Object.keys(details), ...Object.keys(next)])).forEach(key => {
+        const renamedAway = renames.some(op => op.from === key) && !renames.some(op => op.to === key);
+        if (renamedAway) return;
+        const fromKey = key in next ? originalKey(key) : key;
+        const before = details[fromKey];
+        const after = next[key];
+        if (JSON.stringify(before) === JSON.stringify(after) && fromKey === key && !failed.has(fromKey)) return;
+        changes.push({ key, before, after, ...(fromKey !== key ? { from: fromKey } : {}), ...(failed.has(fromKey) ? { failed: true } : {}) });
+    });
+    return { details: next, changes };
+};
+
+// --- Reprocessing ---
+
+interface ReprocessResult {
+    logId: string;
+    oldEntryIds: string[]; // Entries linked to the log when it was reprocessed
+    proposed: Entry[];
+    status: 'changed' | 'unchanged' | 'error';
+    error?: string;
+    decision?: 'keep' | 'replace' | 'merge';
+}
+
+interface EntryPair {
+    before?: Entry;
+    after?: Entry;
+}
+
+// Pair existing and re-extracted entries of the same category, in order
+const pairEntries = (before: Entry[], after: Entry[]): EntryPair[] => {
+    const remaining = [...after];
+    const pairs: EntryPair[] = before.map(b => {
+        const idx = remaining.findIndex(a => a.category === b.category);
+        return { before: b, after: idx === -1 ? undefined : remaining.splice(idx, 1)[0] };
+    });
+    return [...pairs, ...remaining.map(a => ({ after: a }))];
+};
+
+const entryContentKey = (e: Entry) => JSON.stringify([
+    e.date, e.category, e.event,
+    Object.keys(e.details).filter(k => !isEmptyValue(e.details[k])).sort().map(k => [k, e.details[k]])
+]);
+
+const isSameExtraction = (before: Entry[], after: Entry[]) =>
+    before.length === after.length &&
+    pairEntries(before, after).every(p => p.before && p.after && entryContentKey(p.before) === entryContentKey(p.after));
+
+// The existing entry wins where it has a value; the new extraction fills the gaps (e.g. fields added since)
+const mergeEntries = (before: Entry, after: Entry): Entry => {
+    const details = { ...after.details };
+    Object.entries(before.details).forEach(([key, value]) => {
+        if (!isEmptyValue(value)) details[key] = value;
+    });
+    return { ...before, details, rawLogId: before.rawLogId || after.rawLogId };
+};
+
+// --- Chat Tools ---
+
+const MAX_TOOL_ROUNDS = 5; // Tool call round trips per reply before the model must answer
+
+const CHAT_TOOLS: ToolDeclaration[] = [
+    {
+        name: 'query_entries',
+        description: 'List recorded entries, newest first. Use for "what did I ..." and to look up details.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                category: { type: Type.STRING, description: 'Category code, e.g. finance_tracking, sleep, exercise' },
+                start_date: { type: Type.STRING, description: 'Inclusive, YYYY-MM-DD' },
+                end_date: { type: Type.STRING, description: 'Inclusive, YYYY-MM-DD' },
+                contains: { type: Type.STRING, description: 'Text to find in the event title or any detail' },
+                tag: { type: Type.STRING, description: 'Value that must appear in details.tags' },
+                limit: { type: Type.INTEGER, description: 'Max entries to return, default 20' }
+            }
+        }
+    },
+    {
+        name: 'latest_entry',
+        description: 'The most recent entry matching the filters and how many days ago it was. Use for "when did I last ...".',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                category: { type: Type.STRING, description: 'Category code, e.g. haircut, exercise' },
+                contains: { type: Type.STRING, description: 'Text to find in the event title or any detail' },
+                tag: { type: Type.STRING, description: 'Value that must appear in details.tags' }
+            }
+        }
+    },
+    {
+        name: 'aggregate_entries',
+        description: 'Sum or count entries. metric "amount" totals finance_tracking amounts per currency (expenses are negative); "duration" totals details.duration in minutes; "count" counts entries; "field" sums a numeric detail given in field. Use "overall" for the grand total: with group_by "tag" an entry with several tags is in each of their groups.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                metric: { type: Type.STRING, enum: ['amount', 'duration', 'count', 'field'] },
+                field: { type: Type.STRING, description: 'Detail key to sum when metric is "field", e.g. calories' },
+                category: { type: Type.STRING },
+                start_date: { type: Type.STRING, description: 'Inclusive, YYYY-MM-DD' },
+                end_date: { type: Type.STRING, description: 'Inclusive, YYYY-MM-DD' },
+                contains: { type: Type.STRING },
+                tag: { type: Type.STRING },
+                group_by: { type: Type.STRING, enum: ['none', 'category', 'month', 'date', 'tag'] }
+            },
+            required: ['metric']
+        }
+    },
+    {
+        name: 'search_raw_logs',
+        description: "Full-text search over the user's original messages, for things that may not have been structured.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                query: { type: Type.STRING },
+                start_date: { type: Type.STRING, description: 'Inclusive, YYYY-MM-DD' },
+                end_date: { type: Type.STRING, description: 'Inclusive, YYYY-MM-DD' },
+                limit: { type: Type.INTEGER, description: 'Default 10' }
+            },
+            required: ['query']
+        }
+    }
+];
+
+const filterEntriesForTool = (entries: Entry[], args: Record<string, any>) => {
+    const contains = String(args.contains || '').toLowerCase();
+    return entries.filter(e => {
+        if (args.category && e.category !== args.category) return false;
+        if (args.start_date && e.date < args.start_date) return false;
+        if (args.end_date && e.date > args.end_date) return false;
+        if (args.tag && !(Array.isArray(e.details.tags) && e.details.tags.includes(args.tag))) return false;
+        if (contains && !`${e.event} ${JSON.stringify(e.details)}`.toLowerCase().includes(contains)) return false;
+        return true;
+    });
+};
+
+// Compact form sent back to the model; the id lets it cite the entry
+const entryForTool = (e: Entry) => ({ id: e.id, date: e.date, category: e.category, event: e.event, details: e.details });
+
+// Runs a tool call locally. entryIds are the entries the result is based on and get cited under the reply.
+const runChatTool = (call: ToolCall, data: { entries: Entry[]; rawLogs: RawLog[] }): { result: unknown; entryIds: string[] } => {
+    const args = call.args || {};
+    const newestFirst = (list: Entry[]) => [...list].sort((a, b) => `${b.date} ${b.details.time || ''}`.localeCompare(`${a.date} ${a.details.time || ''}`));
+
+    if (call.name === 'query_entries') {
+        const matched = newestFirst(filterEntriesForTool(data.entries, args));
+        const shown = matched.slice(0, Math.max(1, Math.min(Number(args.limit) || 20, 100)));
+        return { result: { total: matched.length, entries: shown.map(entryForTool) }, entryIds: shown.map(e => e.id) };
+    }
+
+    if (call.name === 'latest_entry') {
+        const latest = newestFirst(filterEntriesForTool(data.entries, args))[0];
+        if (!latest) return { result: { found: false }, entryIds: [] };
+        const days = Math.round((new Date(`${formatDate(new Date())}T00:00:00`).getTime() - new Date(`${latest.date}T00:00:00`).getTime()) / 86400000);
+        return { result: { found: true, days_ago: days, entry: entryForTool(latest) }, entryIds: [latest.id] };
+    }
+
+    if (call.name === 'aggregate_entries') {
+        const metric = args.metric || 'count';
+        const matched = filterEntriesForTool(
+            data.entries,
+            metric === 'amount' ? { ...args, category: 'finance_tracking' } : args
+        );
+        const keysOf = (e: Entry): string[] => {
+            switch (args.group_by) {
+                case 'category': return [e.category];
+                case 'month': return [e.date.slice(0, 7)];
+                case 'date': return [e.date];
+                case 'tag': return Array.isArray(e.details.tags) && e.details.tags.length ? e.details.tags : ['(none)'];
+                default: return ['all'];
+            }
+        };
+        const groups: Record<string, any> = {};
+        const overall: Record<string, any> = { count: 0 }; // Each entry once, whatever its groups
+        let skipped = 0;
+        const add = (g: Record<string, any>, e: Entry, value: number) => {
+            g.count++;
+            if (metric === 'amount') {
+                const currency = e.details.currency || 'CNY';
+                const c = g[currency] || (g[currency] = { income: 0, expense: 0, net: 0 });
+                if (value >= 0) c.income += value; else c.expense += value;
+                c.net += value;
+            } else if (metric !== 'count') {
+                g.total = (g.total || 0) + value;
+            }
+        };
+        matched.forEach(e => {
+            let value: number | null = 1;
+            if (metric === 'amount') value = toNumber(e.details.amount);
+            if (metric === 'duration') value = parseDurationMinutes(e.details.duration);
+            if (metric === 'field') value = toNumber(e.details[args.field]?.amount ?? e.details[args.field]); // money fields sum their amount
+            if (value === null) { skipped++; return; }
+            add(overall, e, value);
+            keysOf(e).forEach(key => add(groups[key] || (groups[key] = { count: 0 }), e, value!));
+        });
+        return {
+            result: { metric, unit: metric === 'duration' ? 'minutes' : undefined, overall, groups, entries_matched: matched.length, entries_without_value: skipped },
+            entryIds: matched.slice(0, 20).map(e => e.id)
+        };
+    }
+
+    if (call.name === 'search_raw_logs') {
+        const query = String(args.query || '').toLowerCase();
+        // Compare local calendar days, like the entry tools do with e.date
+        const matched = data.rawLogs
+            .filter(l => {
+                const day = formatDate(new Date(l.timestamp));
+                if (args.start_date && day < args.start_date) return false;
+                if (args.end_date && day > args.end_date) return false;
+                return l.text.toLowerCase().includes(query);
+            })
+            .sort((a, b) => b.timestamp - a.timestamp);
+        const logs = matched.slice(0, Math.max(1, Math.min(Number(args.limit) || 10, 50)))
+            .map(l => ({ time: new Date(l.timestamp).toLocaleString(), text: l.text }));
+        return { result: { total: matched.length, logs }, entryIds: [] };
+    }
+
+    return { result: { error: `Unknown tool ${call.name}` }, entryIds: [] };
+};
+
+// --- Finance ---
+
+// CNY per unit of currency from the latest rate in effect on date. Dates before the first
+// recorded rate use that first rate; null only when the currency has no rate at all.
+const findExchangeRate = (rates: ExchangeRate[], currency: string, date: string): number | null => {
+    if (currency === BASE_CURRENCY) return 1;
+    const history = rates.filter(r => r.currency === currency && r.rate > 0).sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+    if (history.length === 0) return null;
+    const inEffect = history.filter(r => r.effectiveDate <= date);
+    return (inEffect.length ? inEffect[inEffect.length - 1] : history[0]).rate;
+};
+
+interface LedgerTransaction {
+    entry: Entry;
+    amount: number; // Signed in the original currency, expenses negative
+    currency: string;
+    baseAmount: number | null; // In BASE_CURRENCY, null when there is no rate for the currency
+    type: string; // transaction_type: 支出 / 收入 / 转账
+    tags: string[];
+    paymentMethod: string;
+    merchant: string;
+}
+
+// finance_tracking entries with a readable amount; amounts stored as money objects are accepted too
+const toLedgerTransactions = (entries: Entry[], rates: ExchangeRate[]): LedgerTransaction[] =>
+    entries.filter(e => e.category === 'finance_tracking').flatMap(entry => {
+        const d = entry.details || {};
+        const money = parseMoney(d.amount);
+        if (!money) return [];
+        const currency = String((typeof d.amount === 'object' ? money.currency : d.currency) || BASE_CURRENCY).toUpperCase();
+        const type = String(d.transaction_type || (money.amount < 0 ? '支出' : '收入'));
+        const amount = type === '支出' ? -Math.abs(money.amount) : type === '收入' ? Math.abs(money.amount) : money.amount;
+        const rate = findExchangeRate(rates, currency, entry.date);
+        return [{
+            entry,
+            amount,
+            currency,
+            baseAmount: rate === null ? null : Math.round(amount * rate * 100) / 100,
+            type,
+            tags: (Array.isArray(d.tags) ? d.tags : d.tags ? [d.tags] : []).map(String),
+            paymentMethod: String(d.payment_method || ''),
+            merchant: String(d.merchant || ''),
+        }];
+    });
+
+// Income and expense leave transfers out; unconverted amounts are kept per currency
+const summarizeLedger = (txs: LedgerTransaction[]) => {
+    const summary = { income: 0, expense: 0, transfers: 0, unconverted: {} as Record<string, number> };
+    txs.forEach(tx => {
+        if (tx.baseAmount === null) {
+            summary.unconverted[tx.currency] = (summary.unconverted[tx.currency] || 0) + tx.amount;
+        } else if (tx.type === '转账') {
+            summary.transfers += tx.baseAmount;
+        } else if (tx.baseAmount >= 0) {
+            summary.income += tx.baseAmount;
+        } else {
+            summary.expense += tx.baseAmount;
+        }
+    });
+    return summary;
+};
+
+// Date of the n-th occurrence after the start date. Monthly and yearly rules keep the start's
+// day of month, clamped in shorter months (a rule starting on the 31st runs on Feb 28/29).
+const addCadence = (start: string, cadence: RecurringCadence, n: number): string => {
+    const [y, m, d] = start.split('-').map(Number);
+    if (cadence === 'weekly') return formatDate(new Date(y, m - 1, d + 7 * n));
+    const target = new Date(y, m - 1 + (cadence === 'monthly' ? n : 12 * n), 1);
+    const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+    return formatDate(new Date(target.getFullYear(), target.getMonth(), Math.min(d, lastDay)));
+};
+
+// Entries one catch-up may generate per rule, e.g. after a mistyped start year. The rest follow on the next run.
+const MAX_RECURRING_CATCH_UP = 500;
+
+// Occurrences up to today that haven't been generated yet, oldest first (missed periods included).
+// Dates only move forward, so the loops end once they pass today.
+const dueOccurrences = (rule: RecurringRule, today: string): { dates: string[]; truncated: boolean } => {
+    const dates: string[] = [];
+    for (let n = 0; ; n++) {
+        const date = addCadence(rule.startDate, rule.cadence, n);
+        if (date > today) return { dates, truncated: false };
+        if (rule.lastGenerated && date <= rule.lastGenerated) continue;
+        if (dates.length === MAX_RECURRING_CATCH_UP) return { dates, truncated: true };
+        dates.push(date);
+    }
+};
+
+const nextOccurrence = (rule: RecurringRule, today: string): string => {
+    for (let n = 0; ; n++) {
+        const date = addCadence(rule.startDate, rule.cadence, n);
+        if (date > today && (!rule.lastGenerated || date > rule.lastGenerated)) return date;
+    }
+};
+
+interface RecurringSuggestion {
+    key: string; // merchant|amount|currency
+    cadence: RecurringCadence;
+    event: string;
+    merchant: string;
+    amount: number; // Positive, see transactionType
+    currency: string;
+    transactionType: '支出' | '收入';
+    tags: string[];
+    paymentMethod: string;
+    lastDate: string;
+    count: number;
+}
+
+// Gap in days between consecutive charges that still counts as the cadence
+const CADENCE_GAPS: Record<RecurringCadence, [number, number]> = {
+    weekly: [5, 9],
+    monthly: [26, 35],
+    yearly: [350, 380],
+};
+
+// Same merchant and amount at a steady interval: three or more times, or twice a year apart.
+// Auto-generated entries and patterns an existing rule already covers are skipped.
+const detectRecurring = (txs: LedgerTransaction[], rules: RecurringRule[]): RecurringSuggestion[] => {
+    const groups = new Map<string, LedgerTransaction[]>();
+    txs.filter(tx => tx.merchant.trim() && tx.type !== '转账' && !tx.entry.recurringRuleId).forEach(tx => {
+        const key = `${tx.merchant.trim().toLowerCase()}|${Math.abs(tx.amount).toFixed(2)}|${tx.currency}`;
+        groups.set(key, [...(groups.get(key) || []), tx]);
+    });
+    const suggestions: RecurringSuggestion[] = [];
+    groups.forEach((group, key) => {
+        const sorted = [...group].sort((a, b) => a.entry.date.localeCompare(b.entry.date));
+        const gaps = sorted.slice(1).map((tx, i) => dayNumber(tx.entry.date) - dayNumber(sorted[i].entry.date));
+        const cadence = (Object.keys(CADENCE_GAPS) as RecurringCadence[]).find(c =>
+            gaps.length >= (c === 'yearly' ? 1 : 2) && gaps.every(g => g >= CADENCE_GAPS[c][0] && g <= CADENCE_GAPS[c][1])
+        );
+        if (!cadence) return;
+        const last = sorted[sorted.length - 1];
+        const amount = Math.abs(last.amount);
+        const covered = rules.some(r => r.merchant.trim().toLowerCase() === last.merchant.trim().toLowerCase() && r.amount === amount && r.currency === last.currency);
+        if (covered) return;
+        suggestions.push({
+            key,
+            cadence,
+            event: last.entry.event,
+            merchant: last.merchant,
+            amount,
+            currency: last.currency,
+            transactionType: last.amount < 0 ? '支出' : '收入',
+            tags: last.tags,
+            paymentMethod: last.paymentMethod,
+            lastDate: last.entry.date,
+            count: sorted.length,
+        });
+    });
+    return suggestions.sort((a, b) => b.lastDate.localeCompare(a.lastDate));
+};
+
+const formatMoney = (amount: number, currency: string = BASE_CURRENCY) =>
+    `${amount < 0 ? '-' : ''}${Math.abs(amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+
+// Dates (YYYY-MM-DD, inclusive) of the week (Monday first) or month containing date
+const budgetPeriodRange = (period: Budget['period'], date: Date) => {
+    if (period === 'week') {
+        const { start, end } = getWeekRange(date);
+        return { start: formatDate(start), end: formatDate(end) };
+    }
+    return {
+        start: formatDate(new Date(date.getFullYear(), date.getMonth(), 1)),
+        end: formatDate(new Date(date.getFullYear(), date.getMonth() + 1, 0))
+    };
+};
+
+interface BudgetStatus {
+    budget: Budget;
+    spent: number; // BASE_CURRENCY, positive
+    ratio: number; // spent / limit
+}
+
+// An expense counts in full towards every tag budget it carries; transfers and amounts
+// without an exchange rate are left out
+const evaluateBudgets = (budgets: Budget[], txs: LedgerTransaction[], date: Date): BudgetStatus[] =>
+    budgets.filter(b => b.limit > 0).map(budget => {
+        const { start, end } = budgetPeriodRange(budget.period, date);
+        const spent = txs
+            .filter(tx => tx.type === '支出' && tx.baseAmount !== null && tx.entry.date >= start && tx.entry.date <= end)
+            .filter(tx => !budget.tag || tx.tags.includes(budget.tag))
+            .reduce((sum, tx) => sum - tx.baseAmount!, 0);
+        return { budget, spent, ratio: spent / budget.limit };
+    });
+
+const BUDGET_ALERT_LEVELS = [1, 0.8]; // Highest first, one alert per change
+
+const budgetLabel = (budget: Budget) => `${budget.tag || 'Overall'} ${budget.period === 'week' ? 'weekly' : 'monthly'}`;
+
+// Alerts for budgets of the current period that a change to the entries pushed past a level
+const budgetAlerts = (budgets: Budget[], before: LedgerTransaction[], after: LedgerTransaction[], today: Date): string[] => {
+    const previous = evaluateBudgets(budgets, before, today);
+    return evaluateBudgets(budgets, after, today).flatMap((status, i) => {
+        const level = BUDGET_ALERT_LEVELS.find(l => status.ratio >= l && previous[i].ratio < l);
+        if (level === undefined) return [];
+        return [`${level >= 1 ? 'Over budget' : 'Budget warning'}: ${budgetLabel(status.budget)} at ${Math.round(status.ratio * 100)}% (${formatMoney(status.spent)} of ${formatMoney(status.budget.limit)})`];
+    });
+};
+
+// --- Statement Import ---
+
+type StatementSource = 'alipay' | 'wechat' | 'bank';
+
+interface StatementRow {
+    ref: string; // Source and order number, stored on the entry to recognise re-imports
+    date: string;
+    time: string;
+    amount: number; // Signed, expenses negative
+    type: '支出' | '收入' | '转账';
+    merchant: string;
+    description: string;
+    paymentMethod: string;
+    platformCategory?: string; // Alipay 交易分类
+}
+
+// Column indexes of a generic bank CSV, -1 when absent
+interface BankColumnMapping {
+    headerRow: number; // Account and summary lines often come before the header
+    date: number;
+    amount: number;
+    merchant: number;
+    description: number;
+    type: number;
+    expensePositive: boolean; // Bank lists spending as positive numbers
+    paymentMethod: string;
+}
+
+// Keyword in merchant or description -> tag, checked after the merchant's own history
+const DEFAULT_TAG_RULES: TagRule[] = [
+    ...['美团', '饿了么', '肯德基', '麦当劳', '星巴克', '瑞幸', '餐厅', '外卖', '奶茶'].map(keyword => ({ keyword, tag: '餐饮' })),
+    ...['滴滴', '地铁', '公交', '12306', '铁路', '航空', '加油', '中石化', '中石油', '停车', '高德'].map(keyword => ({ keyword, tag: '交通' })),
+    ...['淘宝', '天猫', '京东', '拼多多', '超市', '便利店'].map(keyword => ({ keyword, tag: '购物' })),
+    ...['爱奇艺', '腾讯视频', '优酷', '网易云', 'QQ音乐', 'Netflix', 'Steam', '电影'].map(keyword => ({ keyword, tag: '娱乐' })),
+    ...['医院', '药房', '大药房', '诊所'].map(keyword => ({ keyword, tag: '医疗' })),
+    ...['房租', '物业', '水费', '电费', '燃气'].map(keyword => ({ keyword, tag: '住房' })),
+    ...['酒店', '携程', '飞猪', '去哪儿'].map(keyword => ({ keyword, tag: '旅行' })),
+    ...['红包', '转账'].map(keyword => ({ keyword, tag: '人情' })),
+    { keyword: '工资', tag: '工资' },
+    ...['基金', '理财', '余额宝'].map(keyword => ({ keyword, tag: '理财' })),
+];
+
+// Alipay's own categories, used when no rule matched
+const ALIPAY_CATEGORY_TAGS: Record<string, string> = {
+    '餐饮美食': '餐饮', '交通出行': '交通', '爱车养车': '交通', '日用百货': '购物', '服饰装扮': '购物', '数码电器': '购物',
+    '文化休闲': '娱乐', '医疗健康': '医疗', '教育培训': '教育', '住房物业': '住房', '酒店旅游': '旅行', '转账红包': '人情',
+    '投资理财': '理财', '收入': '工资',
+};
+
+// RFC 4180: quoted cells may hold commas, newlines and doubled quotes
+const parseCSV = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [], cell = '', quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (quoted) {
+            if (c === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+            else if (c === '"') quoted = false;
+            else cell += c;
+        } else if (c === '"') quoted = true;
+        else if (c === ',') { row.push(cell.trim()); cell = ''; }
+        else if (c === '\n' || c === '\r') {
+            if (c === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell.trim());
+            if (row.some(Boolean)) rows.push(row);
+            row = []; cell = '';
+        } else cell += c;
+    }
+    row.push(cell.trim());
+    if (row.some(Boolean)) rows.push(row);
+    return rows;
+};
+
+// Alipay exports are GBK, WeChat and most banks UTF-8 (with BOM)
+const decodeStatement = (buffer: ArrayBuffer): string => {
+    const utf8 = new TextDecoder('utf-8').decode(buffer);
+    const text = utf8.includes('\uFFFD') ? new TextDecoder('gb18030').decode(buffer) : utf8;
+    return text.replace(/^\uFEFF/, '');
+};
+
+const detectStatementSource = (rows: string[][]): StatementSource => {
+    const preamble = rows.slice(0, 30).map(r => r.join(' ')).join('\n');
+    if (preamble.includes('微信支付')) return 'wechat';
+    if (preamble.includes('支付宝')) return 'alipay';
+    return 'bank';
+};
+
+const findColumn = (header: string[], ...names: string[]) => header.findIndex(h => names.some(n => h.replace(/\s/g, '').startsWith(n)));
+
+const splitDateTime = (value: string) => ({
+    date: normalizeDateStr(value),
+    time: normalizeTimeStr(value.match(/\d{1,2}:\d{2}(?::\d{2})?/)?.[0]) || ''
+});
+
+const statementType = (direction: string): StatementRow['type'] =>
+    direction.includes('支出') ? '支出' : direction.includes('收入') ? '收入' : '转账';
+
+// Alipay and WeChat Pay share a layout: preamble lines, a header row, rows, a footer of dashes
+const parsePlatformStatement = (rows: string[][], source: 'alipay' | 'wechat'): StatementRow[] => {
+    const headerIndex = rows.findIndex(r => findColumn(r, '交易对方') >= 0 && findColumn(r, '金额') >= 0);
+    if (headerIndex < 0) throw new Error(`No ${source === 'alipay' ? 'Alipay' : 'WeChat Pay'} header row (交易对方, 金额) found`);
+    const header = rows[headerIndex];
+    const col = {
+        time: findColumn(header, '交易时间', '交易创建时间', '付款时间'),
+        merchant: findColumn(header, '交易对方'),
+        description: findColumn(header, '商品说明', '商品名称', '商品'),
+        direction: findColumn(header, '收/支'),
+        amount: findColumn(header, '金额'),
+        method: findColumn(header, '收/付款方式', '支付方式'),
+        status: findColumn(header, '交易状态', '当前状态'),
+        order: findColumn(header, '交易订单号', '交易单号', '交易号'),
+        category: findColumn(header, '交易分类'),
+    };
+    const platform = source === 'alipay' ? '支付宝' : '微信';
+
+    return rows.slice(headerIndex + 1).flatMap((r, i) => {
+        const cell = (index: number) => (index >= 0 ? r[index] || '' : '').trim();
+        if (r.length < 4 || cell(0).startsWith('-')) return [];
+        if (/关闭|失败|全额退款/.test(cell(col.status))) return [];
+        const { date, time } = splitDateTime(cell(col.time));
+        const amount = toNumber(cell(col.amount));
+        if (!date || amount === null) return [];
+        const type = statementType(cell(col.direction));
+        const method = cell(col.method);
+        return [{
+            ref: `${source}:${cell(col.order) || `${date} ${time} ${i}`}`,
+            date,
+            time,
+            amount: type === '支出' ? -Math.abs(amount) : Math.abs(amount),
+            type,
+            merchant: cell(col.merchant).replace(/^\/$/, ''),
+            description: cell(col.description).replace(/^\/$/, ''),
+            paymentMethod: method.includes('信用卡') ? '信用卡' : platform,
+            platformCategory: cell(col.category) || undefined,
+        }];
+    });
+};
+
+// Rows below the header; identical rows get a running number so both are kept
+const parseBankStatement = (rows: string[][], mapping: BankColumnMapping): StatementRow[] => {
+    const seen: Record<string, number> = {};
+    return rows.slice(mapping.headerRow + 1).flatMap(r => {
+        const cell = (index: number) => (index >= 0 ? r[index] || '' : '').trim();
+        const { date, time } = splitDateTime(cell(mapping.date));
+        const raw = toNumber(cell(mapping.amount));
+        if (!date || raw === null || raw === 0) return [];
+        const typeText = cell(mapping.type);
+        const type: StatementRow['type'] = typeText
+            ? (/支出|借|消费|debit|withdraw/i.test(typeText) ? '支出' : /收入|贷|存入|credit|deposit/i.test(typeText) ? '收入' : '转账')
+            : ((raw < 0) !== mapping.expensePositive ? '支出' : '收入');
+        const merchant = cell(mapping.merchant);
+        const key = `${date}|${raw}|${merchant}`;
+        seen[key] = (seen[key] || 0) + 1;
+        return [{
+            ref: `bank:${key}|${seen[key]}`,
+            date,
+            time,
+            amount: type === '支出' ? -Math.abs(raw) : Math.abs(raw),
+            type,
+            merchant,
+            description: cell(mapping.description),
+            paymentMethod: mapping.paymentMethod,
+        }];
+    });
+};
+
+const BANK_DATE_COLUMNS = ['交易日期', '记账日期', '日期', '交易时间', 'Date', 'date'];
+const BANK_AMOUNT_COLUMNS = ['交易金额', '金额', '发生额', 'Amount', 'amount'];
+
+// Best guess of the bank columns from header names
+const guessBankColumns = (header: string[]): Omit<BankColumnMapping, 'headerRow'> => ({
+    date: Math.max(0, findColumn(header, ...BANK_DATE_COLUMNS)),
+    amount: findColumn(header, ...BANK_AMOUNT_COLUMNS),
+    merchant: findColumn(header, '对方户名', '交易对方', '商户', '对方', 'Payee', 'Merchant', 'Description'),
+    description: findColumn(header, '摘要', '交易摘要', '用途', '备注', 'Memo', 'Narrative'),
+    type: findColumn(header, '收/支', '借贷', '交易类型', 'Type'),
+    expensePositive: false,
+    paymentMethod: '储蓄卡',
+});
+
+// The header is the first row naming both a date and an amount column, found the same way as
+// the Alipay and WeChat Pay headers
+const guessBankMapping = (rows: string[][]): BankColumnMapping => {
+    const headerRow = Math.max(0, rows.findIndex(r => findColumn(r, ...BANK_DATE_COLUMNS) >= 0 && findColumn(r, ...BANK_AMOUNT_COLUMNS) >= 0));
+    return { headerRow, ...guessBankColumns(rows[headerRow] || []) };
+};
+
+// The merchant's tags from earlier entries win, then keyword rules, then the platform's category
+const inferStatementTags = (row: StatementRow, rules: TagRule[], history: Map<string, string[]>): string[] => {
+    const known = history.get(row.merchant.toLowerCase());
+    if (known?.length) return known;
+    const text = `${row.merchant} ${row.description}`.toLowerCase();
+    const rule = rules.find(r => r.keyword && text.includes(r.keyword.toLowerCase()));
+    if (rule) return [rule.tag];
+    const platform = row.platformCategory && ALIPAY_CATEGORY_TAGS[row.platformCategory];
+    return [platform || '其他'];
+};
+
+interface StatementCandidate {
+    row: StatementRow;
+    tags: string[];
+    duplicateOf?: Entry;
+    include: boolean; // Duplicates start unchecked
+}
+
+// Same row imported before, or the same amount within a day of an entry logged through chat
+const findStatementDuplicate = (row: StatementRow, entries: Entry[]): Entry | undefined =>
+    entries.find(e => e.importRef === row.ref) ||
+    entries.find(e => {
+        if (e.category !== 'finance_tracking' || e.importRef) return false;
+        const money = parseMoney(e.details?.amount);
+        if (!money || Math.abs(Math.abs(money.amount) - Math.abs(row.amount)) > 0.005) return false;
+        const days = Math.abs(new Date(`${e.date}T00:00:00`).getTime() - new Date(`${row.date}T00:00:00`).getTime()) / 86400000;
+        return days <= 1;
+    });
+
+// --- Backup Import ---
+
+type ImportMode = 'replace' | 'merge' | 'skip';
+
+// Content of an unencrypted backup file; checkBackup has checked the shape of the sections present
+interface BackupData {
+    meta?: { app?: string; exportedAt?: string; schemaVersion?: number };
+    entries?: Entry[];
+    messages?: ChatMessage[];
+    rawLogs?: RawLog[];
+    customSchemas?: Record<string, FieldSchema[]>;
+    categories?: Record<string, CategoryMeta>;
+    categoryGroups?: GroupMeta[]; // Imported together with categories
+    exchangeRates?: ExchangeRate[];
+    budgets?: Budget[];
+    recurringRules?: RecurringRule[];
+    tagRules?: TagRule[];
+    dismissedSuggestions?: string[];
+    aiConfig?: Partial<AISettings>;
+    chatSettings?: Partial<ChatSettings>;
+    loggerState?: LoggerState;
+    profile?: UserProfile;
+}
+
+type BackupSectionKey = Exclude<keyof BackupData, 'meta' | 'categoryGroups'>;
+
+// records: merged by id with a conflict check; collection: merged by id / key, local wins;
+// single: a settings object that can only be replaced or kept
+const BACKUP_SECTIONS: { key: BackupSectionKey; label: string; kind: 'records' | 'collection' | 'single' }[] = [
+    { key: 'entries', label: 'Entries', kind: 'records' },
+    { key: 'messages', label: 'Chat Messages', kind: 'records' },
+    { key: 'rawLogs', label: 'Raw Logs', kind: 'records' },
+    { key: 'customSchemas', label: 'Field Schemas', kind: 'collection' },
+    { key: 'categories', label: 'Categories & Groups', kind: 'collection' },
+    { key: 'exchangeRates', label: 'Exchange Rates', kind: 'collection' },
+    { key: 'budgets', label: 'Budgets', kind: 'collection' },
+    { key: 'recurringRules', label: 'Recurring Rules', kind: 'collection' },
+    { key: 'tagRules', label: 'Tag Rules', kind: 'collection' },
+    { key: 'dismissedSuggestions', label: 'Dismissed Suggestions', kind: 'collection' },
+    { key: 'aiConfig', label: 'AI Settings', kind: 'single' },
+    { key: 'chatSettings', label: 'Chat Settings', kind: 'single' },
+    { key: 'loggerState', label: 'Logger Progress', kind: 'single' },
+    { key: 'profile', label: 'Profile', kind: 'single' },
+];
+
+interface ImportReport {
+    label: string;
+    mode: ImportMode;
+    added: number;
+    updated: number;
+    skipped: number; // Identical, kept local, or the whole section when skipped
+    removed: number; // Local records dropped by replace
+}
+
+// Problems that make the file unusable (errors) or deserve a confirmation (warnings)
+const checkBackup = (file: unknown): { errors: string[]; warnings: string[] } => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    if (!file || typeof file !== 'object' || Array.isArray(file)) return { errors: ['The file is not a LifeOS backup.'], warnings };
+    const json = file as Record<string, unknown>;
+    if (!BACKUP_SECTIONS.some(s => json[s.key] !== undefined)) return { errors: ['No LifeOS data found in the file.'], warnings };
+
+    const meta = json.meta as BackupData['meta'];
+    if (meta?.app !== 'Gemini LifeOS') warnings.push('The file was not exported by Gemini LifeOS.');
+    const version = meta?.schemaVersion;
+    if (typeof version === 'number' && version > SCHEMA_VERSION) {
+        warnings.push(`The backup comes from a newer version (data v${version}, this app v${SCHEMA_VERSION}). Fields this version doesn't know may be lost.`);
+    }
+
+    const listKeys = ['entries', 'messages', 'rawLogs', 'categoryGroups', 'exchangeRates', 'budgets', 'recurringRules', 'tagRules', 'dismissedSuggestions'];
+    listKeys.forEach(key => {
+        if (json[key] !== undefined && !Array.isArray(json[key])) errors.push(`"${key}" should be a list.`);
+    });
+    ['customSchemas', 'categories', 'aiConfig', 'chatSettings', 'loggerState', 'profile'].forEach(key => {
+        if (json[key] !== undefined && (typeof json[key] !== 'object' || Array.isArray(json[key]))) errors.push(`"${key}" should be an object.`);
+    });
+
+    const countInvalid = (key: string, isValid: (r: Record<string, unknown>) => boolean) => {
+        const list = json[key];
+        if (!Array.isArray(list)) return;
+        const bad = list.filter((r: unknown) => !r || typeof r !== 'object' || !isValid(r as Record<string, unknown>)).length;
+        if (bad) errors.push(`${bad} of ${list.length} ${key} are malformed.`);
+    };
+    countInvalid('entries', e => typeof e.date === 'string' && typeof e.category === 'string' && (e.details === undefined || typeof e.details === 'object'));
+    countInvalid('messages', m => typeof m.role === 'string' && typeof m.text === 'string');
+    countInvalid('rawLogs', l => typeof l.text === 'string' && typeof l.timestamp === 'number');
+    return { errors, warnings };
+};
+
+// JSON with object keys sorted, so the same record compares equal whatever order its keys were written in
+const stableStringify = (value: unknown): string => {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const obj = value as Record<string, unknown>;
+        return `{${Object.keys(obj).filter(k => obj[k] !== undefined).sort().map(k => `${JSON.stringify(k)}:${stableStringify(obj[k])}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+};
+
+// Ids on both sides whose content differs
+const findRecordConflicts = <T extends { id: string }>(local: T[], incoming: T[]): { local: T; incoming: T }[] => {
+    const byId = new Map(local.map(r => [r.id, r]));
+    return incoming.flatMap(r => {
+        const existing = byId.get(r.id);
+        return existing && stableStringify(existing) !== stableStringify(r) ? [{ local: existing, incoming: r }] : [];
+    });
+};
+
+// Records only in the file are added; for differing ids on both sides useIncoming decides
+const mergeRecords = <T extends { id: string }>(local: T[], incoming: T[], useIncoming: (id: string) => boolean) => {
+    const byId = new Map(local.map(r => [r.id, r]));
+    let added = 0, updated = 0, skipped = 0;
+    incoming.forEach(r => {
+        const existing = byId.get(r.id);
+        if (!existing) {
+            byId.set(r.id, r);
+            added++;
+        } else if (stableStringify(existing) !== stableStringify(r) && useIncoming(r.id)) {
+            byId.set(r.id, r);
+            updated++;
+        } else {
+            skipped++;
+        }
+    });
+    return { records: Array.from(byId.values()), added, updated, skipped };
+};
+
+// Keyed settings (schemas, categories): keys missing locally are added, local ones are kept
+const mergeKeyed = <T,>(local: Record<string, T>, incoming: Record<string, T>) => {
+    const added = Object.keys(incoming).filter(key => !(key in local));
+    return { value: { ...incoming, ...local }, added: added.length, skipped: Object.keys(incoming).length - added.length };
+};
+
+// --- Body Trends ---
+
+interface BodyPoint {
+    date: string;
+    day: number; // Days since the epoch, for spacing and windows
+    value: number;
+    entry: Entry;
+}
+
+const dayNumber = (date: string) => {
+    const [y, m, d] = date.split('-').map(Number);
+    return Math.round(Date.UTC(y, m - 1, d) / 86400000);
+};
+
+const dayToDate = (day: number) => new Date(day * 86400000).toISOString().split('T')[0];
+
+// One point per day for a numeric field; the day's latest entry wins
+const dailySeries = (entries: Entry[], category: string, field: string): BodyPoint[] => {
+    const byDay = new Map<string, BodyPoint>();
+    entries
+        .filter(e => e.category === category)
+        .sort((a, b) => `${a.date} ${a.details?.time || ''}`.localeCompare(`${b.date} ${b.details?.time || ''}`))
+        .forEach(e => {
+            const value = Number(e.details?.[field]);
+            if (e.details?.[field] === undefined || e.details?.[field] === '' || !Number.isFinite(value)) return;
+            byDay.set(e.date, { date: e.date, day: dayNumber(e.date), value, entry: e });
+        });
+    return Array.from(byDay.values()).sort((a, b) => a.day - b.day);
+};
+
+// Trailing average over calendar days, so sparse weigh-ins aren't weighted like daily ones.
+// Days without any point inside the window are left out and show up as gaps.
+const movingAverage = (points: BodyPoint[], windowDays: number, fromDay: number, toDay: number): { day: number; value: number }[] => {
+    const result: { day: number; value: number }[] = [];
+    let start = 0, end = 0, sum = 0;
+    for (let day = fromDay; day <= toDay; day++) {
+        while (end < points.length && points[end].day <= day) sum += points[end++].value;
+        while (start < end && points[start].day <= day - windowDays) sum -= points[start++].value;
+        if (end > start) result.push({ day, value: Math.round(sum / (end - start) * 100) / 100 });
+    }
+    return result;
+};
+
+const computeBMI = (weight: number, heightCm: number) => Math.round(weight / Math.pow(heightCm / 100, 2) * 10) / 10;
+
+const BMI_BANDS: { max: number; label: string; color: string }[] = [
+    { max: 18.5, label: 'Underweight', color: 'text-sky-400' },
+    { max: 25, label: 'Normal', color: 'text-emerald-400' },
+    { max: 30, label: 'Overweight', color: 'text-amber-400' },
+    { max: Infinity, label: 'Obese', color: 'text-red-400' },
+];
+
+const bmiBand = (bmi: number) => BMI_BANDS.find(b => bmi < b.max)!;
+
+interface GoalProjection {
+    perWeek: number; // Fitted change, kg per week
+    reached: boolean;
+    date?: string; // Projected date, missing when the trend points away from the goal
+}
+
+// Least-squares line over the last 30 days of points
+const projectGoal = (points: BodyPoint[], goal: number): GoalProjection | null => {
+    if (points.length === 0) return null;
+    const last = points[points.length - 1];
+    const recent = points.filter(p => p.day > last.day - 30);
+    if (recent.length < 2 || recent[recent.length - 1].day - recent[0].day < 7) return null;
+    const meanX = recent.reduce((s, p) => s + p.day, 0) / recent.length;
+    const meanY = recent.reduce((s, p) => s + p.value, 0) / recent.length;
+    const slope = recent.reduce((s, p) => s + (p.day - meanX) * (p.value - meanY), 0)
+        / recent.reduce((s, p) => s + Math.pow(p.day - meanX, 2), 0);
+    const fitted = meanY + slope * (last.day - meanX);
+    const perWeek = Math.round(slope * 7 * 100) / 100;
+    const remaining = goal - fitted;
+    // Reached once the latest value is on the goal or past it, seen from where the series started
+    const direction = Math.sign(goal - points[0].value);
+    if (direction === 0 || Math.sign(goal - last.value) !== direction) return { perWeek, reached: true };
+    if (slope === 0 || Math.sign(slope) !== Math.sign(remaining)) return { perWeek, reached: false };
+    return { perWeek, reached: false, date: dayToDate(Math.ceil(last.day + remaining / slope)) };
+};
+
+// --- Sleep Analytics ---
+
+const DEFAULT_SLEEP_TARGET = 8; // Hours, used when the profile has none
+
+interface SleepNight {
+    entry: Entry;
+    bedtime: number | null; // Minutes after midnight
+    waketime: number | null;
+    hours: number | null; // Null when flagged
+    quality: string;
+    problem?: string; // Why the night couldn't be measured
+}
+
+// Bed and wake times wrap across midnight, read with the same parser as hours_between
+const readSleepNight = (entry: Entry): SleepNight => {
+    const d = entry.details || {};
+    const bedtime = parseClockTime(d.time);
+    const waketime = parseClockTime(d.waketime);
+    const night: SleepNight = { entry, bedtime, waketime, hours: null, quality: String(d.quality || '').trim() };
+    if (bedtime === null && String(d.time ?? '').trim()) night.problem = `Bedtime "${d.time}" not recognized`;
+    else if (waketime === null && String(d.waketime ?? '').trim()) night.problem = `Wake time "${d.waketime}" not recognized`;
+    if (night.problem) return night;
+
+    if (bedtime === null || waketime === null) {
+        night.problem = bedtime === null ? 'No bedtime' : 'No wake time';
+        return night;
+    }
+    night.hours = Math.round(((waketime - bedtime + 1440) % 1440) / 60 * 100) / 100;
+    if (night.hours! <= 0 || night.hours! > 16) {
+        night.problem = `Implausible duration (${night.hours}h)`;
+        night.hours = null;
+    }
+    return night;
+};
+
+interface SleepSummary {
+    nights: SleepNight[];
+    measured: number; // Nights with a duration
+    flagged: SleepNight[];
+    averageHours: number | null;
+    averageBedtime: number | null; // Minutes after midnight
+    bedtimeSpread: number | null; // Standard deviation in minutes
+    debtHours: number; // Sum of (target - slept), negative means surplus
+    weeks: { start: string; averageHours: number; nights: number }[];
+    quality: Record<string, number>; // '' = not recorded
+}
+
+const summarizeSleep = (entries: Entry[], targetHours: number): SleepSummary => {
+    const nights = entries.filter(e => e.category === 'sleep').sort((a, b) => a.date.localeCompare(b.date)).map(readSleepNight);
+    const measured = nights.filter(n => n.hours !== null);
+    const average = (values: number[]) => values.length ? values.reduce((s, v) => s + v, 0) / values.length : null;
+
+    // Bedtimes are measured from noon so 23:30 and 00:30 count as an hour apart, not 23
+    const bedtimes = nights.filter(n => n.bedtime !== null && !n.problem).map(n => n.bedtime! < 720 ? n.bedtime! + 1440 : n.bedtime!);
+    const meanBed = average(bedtimes);
+    const spread = meanBed === null || bedtimes.length < 2 ? null : Math.sqrt(average(bedtimes.map(b => Math.pow(b - meanBed, 2)))!);
+
+    const weeks = new Map<string, number[]>();
+    measured.forEach(n => {
+        const [y, m, d] = n.entry.date.split('-').map(Number);
+        const start = formatDate(getWeekRange(new Date(y, m - 1, d)).start);
+        weeks.set(start, [...(weeks.get(start) || []), n.hours!]);
+    });
+
+    const quality: Record<string, number> = {};
+    nights.forEach(n => { quality[n.quality] = (quality[n.quality] || 0) + 1; });
+
+    const averageHours = average(measured.map(n => n.hours!));
+    return {
+        nights,
+        measured: measured.length,
+        flagged: nights.filter(n => n.problem),
+        averageHours: averageHours === null ? null : Math.round(averageHours * 100) / 100,
+        averageBedtime: meanBed === null ? null : meanBed % 1440,
+        bedtimeSpread: spread === null ? null : Math.round(spread),
+        debtHours: Math.round(measured.reduce((s, n) => s + targetHours - n.hours!, 0) * 10) / 10,
+        weeks: Array.from(weeks.entries()).sort(([a], [b]) => a.localeCompare(b)).map(([start, hours]) => ({
+            start,
+            averageHours: Math.round(average(hours)! * 100) / 100,
+            nights: hours.length
+        })),
+        quality
+    };
+};
+
+// --- Cycle Tracking ---
+
+const PERIOD_FLOW_STATUSES = ['流量大', '流量小', '痛经'];
+const MAX_PERIOD_DAYS = 10; // A period with no end marker is closed after its last flow day within this span
+const NORMAL_CYCLE_RANGE: [number, number] = [21, 35];
+const IRREGULAR_VARIATION = 7; // Days between the shortest and longest recent cycle
+const RECENT_CYCLES = 6;
+
+interface Period {
+    start: string;
+    end: string; // Last recorded day, or today while ongoing
+    ongoing: boolean;
+    startInferred: boolean; // No 开始 marker, opened by a flow entry
+    endRecorded: boolean; // Closed by a 结束 marker
+    entries: Entry[];
+}
+
+interface Cycle {
+    start: string;
+    length: number; // Days until the next period starts
+    periodLength: number | null; // Null when the end wasn't recorded
+    irregular?: string;
+}
+
+interface CycleSummary {
+    periods: Period[];
+    cycles: Cycle[];
+    averageCycle: number | null; // Over the recent cycles
+    typicalCycle: number | null; // Median of the recent cycles, used for predictions so one missed period doesn't skew them
+    averagePeriod: number | null;
+    variation: number | null; // Longest minus shortest recent cycle
+    irregular: boolean;
+    prediction: {
+        basis: 'history' | 'default'; // Default 28-day cycle until one full cycle is recorded
+        periods: { start: string; end: string }[]; // Next ones, never stored as entries
+        fertile: { start: string; end: string; ovulation: string } | null; // Before the next period, left out while late
+        daysLate: number; // > 0 when the predicted start has passed without a new period
+    } | null;
+}
+
+// Rebuilds periods from the 开始/结束 markers; flow entries extend an open period or open one when none was marked
+const reconstructPeriods = (entries: Entry[], today: string): Period[] => {
+    const periods: Period[] = [];
+    let open: Period | null = null;
+    const todayNum = dayNumber(today);
+    // end already holds the last flow day; only the newest period can still be running
+    const close = (p: Period, newest: boolean) => {
+        p.ongoing = newest && todayNum - dayNumber(p.start) < MAX_PERIOD_DAYS;
+        if (p.ongoing) p.end = today;
+        periods.push(p);
+    };
+    entries
+        .filter(e => e.category === 'physiology')
+        .sort((a, b) => `${a.date} ${a.details?.time || ''}`.localeCompare(`${b.date} ${b.details?.time || ''}`))
+        .forEach(e => {
+            const status = String(e.details?.status || '').trim();
+            if (open && dayNumber(e.date) - dayNumber(open.start) >= MAX_PERIOD_DAYS) {
+                close(open, false);
+                open = null;
+            }
+            if (status === '开始') {
+                if (open) {
+                    open.entries.push(e); // Repeated start marker inside the same period
+                } else {
+                    open = { start: e.date, end: e.date, ongoing: false, startInferred: false, endRecorded: false, entries: [e] };
+                }
+            } else if (status === '结束') {
+                if (open) {
+                    open.entries.push(e);
+                    open.end = e.date;
+                    open.endRecorded = true;
+                    periods.push(open);
+                    open = null;
+                }
+            } else if (PERIOD_FLOW_STATUSES.includes(status)) {
+                if (open) {
+                    open.entries.push(e);
+                    open.end = e.date;
+                } else {
+                    const last = periods[periods.length - 1];
+                    if (last && dayNumber(e.date) - dayNumber(last.end) <= 2) {
+                        last.entries.push(e); // Flow recorded just after the end marker
+                    } else {
+                        open = { start: e.date, end: e.date, ongoing: false, startInferred: true, endRecorded: false, entries: [e] };
+                    }
+                }
+            }
+        });
+    if (open) close(open, true);
+    return periods;
+};
+
+const summarizeCycles = (entries: Entry[], today: string): CycleSummary => {
+    const periods = reconstructPeriods(entries, today);
+    const cycles: Cycle[] = periods.slice(0, -1).map((p, i) => {
+        const length = dayNumber(periods[i + 1].start) - dayNumber(p.start);
+        const cycle: Cycle = {
+            start: p.start,
+            length,
+            periodLength: p.endRecorded ? dayNumber(p.end) - dayNumber(p.start) + 1 : null
+        };
+        if (length < NORMAL_CYCLE_RANGE[0]) cycle.irregular = `Short cycle (${length} days)`;
+        else if (length > NORMAL_CYCLE_RANGE[1]) cycle.irregular = `Long cycle (${length} days)`;
+        return cycle;
+    });
+
+    const recent = cycles.slice(-RECENT_CYCLES);
+    const average = (values: number[]) => values.length ? Math.round(values.reduce((s, v) => s + v, 0) / values.length * 10) / 10 : null;
+    const averageCycle = average(recent.map(c => c.length));
+    const sorted = recent.map(c => c.length).sort((a, b) => a - b);
+    const typicalCycle = sorted.length ? (sorted[Math.floor((sorted.length - 1) / 2)] + sorted[Math.ceil((sorted.length - 1) / 2)]) / 2 : null;
+    const periodLengths = periods.filter(p => p.endRecorded).slice(-RECENT_CYCLES).map(p => dayNumber(p.end) - dayNumber(p.start) + 1);
+    const averagePeriod = average(periodLengths);
+    const variation = recent.length >= 2 ? Math.max(...recent.map(c => c.length)) - Math.min(...recent.map(c => c.length)) : null;
+    const irregular = recent.some(c => c.irregular) || (variation !== null && variation > IRREGULAR_VARIATION);
+
+    let prediction: CycleSummary['prediction'] = null;
+    const last = periods[periods.length - 1];
+    if (last) {
+        const cycleLength = Math.round(typicalCycle ?? 28);
+        const periodLength = Math.round(averagePeriod ?? 5);
+        const todayNum = dayNumber(today);
+        let nextStart = dayNumber(last.start) + cycleLength;
+        const daysLate = last.ongoing ? 0 : Math.max(0, todayNum - nextStart);
+        if (daysLate > 0) nextStart = todayNum; // Expected any day now
+        const ovulation = nextStart - 14;
+        prediction = {
+            basis: typicalCycle === null ? 'default' : 'history',
+            periods: [0, 1, 2].map(k => ({
+                start: dayToDate(nextStart + k * cycleLength),
+                end: dayToDate(nextStart + k * cycleLength + periodLength - 1)
+            })),
+            fertile: daysLate > 0 ? null : { start: dayToDate(ovulation - 5), end: dayToDate(ovulation + 1), ovulation: dayToDate(ovulation) },
+            daysLate
+        };
+    }
+    return { periods, cycles, averageCycle, typicalCycle, averagePeriod, variation, irregular, prediction };
+};
+
+type CycleMark = 'period' | 'predicted' | 'fertile' | 'ovulation';
+
+// Day -> mark for calendar overlays; recorded days take precedence over predictions
+const cycleCalendarMarks = (summary: CycleSummary): Map<string, CycleMark> => {
+    const marks = new Map<string, CycleMark>();
+    const fill = (start: string, end: string, mark: CycleMark) => {
+        for (let d = dayNumber(start); d <= dayNumber(end); d++) {
+            const date = dayToDate(d);
+            if (marks.get(date) !== 'period') marks.set(date, mark);
+        }
+    };
+    summary.periods.forEach(p => fill(p.start, p.end, 'period'));
+    const prediction = summary.prediction;
+    if (prediction) {
+        prediction.periods.forEach(p => fill(p.start, p.end, 'predicted'));
+        if (prediction.fertile) {
+            fill(prediction.fertile.start, prediction.fertile.end, 'fertile');
+            fill(prediction.fertile.ovulation, prediction.fertile.ovulation, 'ovulation');
+        }
+    }
+    return marks;
+};
+
+// --- Calendar Heatmap ---
+
+type HeatmapMetric = 'none' | 'entries' | 'spend' | 'exercise';
+
+const HEATMAP_METRICS: { id: HeatmapMetric; label: string; rgb: string; format: (value: number) => string }[] = [
+    { id: 'none', label: 'No heatmap', rgb: '', format: () => '' },
+    { id: 'entries', label: 'Entries', rgb: '59, 130, 246', format: value => `${value} entries` },
+    { id: 'spend', label: 'Spend', rgb: '248, 113, 113', format: value => formatMoney(value) },
+    { id: 'exercise', label: 'Exercise', rgb: '251, 146, 60', format: value => formatDuration(value) },
+];
+
+// Per-day totals: entry count, expenses in BASE_CURRENCY (transfers excluded) or exercise minutes
+const dailyMetric = (entries: Entry[], metric: HeatmapMetric, exchangeRates: ExchangeRate[]): Map<string, number> => {
+    const totals = new Map<string, number>();
+    const add = (date: string, value: number) => totals.set(date, (totals.get(date) || 0) + value);
+    if (metric === 'entries') {
+        entries.forEach(e => add(e.date, 1));
+    } else if (metric === 'spend') {
+        toLedgerTransactions(entries, exchangeRates).forEach(tx => {
+            if (tx.type !== '转账' && tx.baseAmount !== null && tx.baseAmount < 0) add(tx.entry.date, -tx.baseAmount);
+        });
+    } else if (metric === 'exercise') {
+        entries.filter(e => e.category === 'exercise').forEach(e => {
+            const minutes = parseDurationMinutes(e.details?.duration);
+            if (minutes) add(e.date, minutes);
+        });
+    }
+    return totals;
+};
+
+// Monday-first weeks covering the whole year, padded with nulls outside it
+const yearWeeks = (year: number): (string | null)[][] => {
+    const first = new Date(year, 0, 1);
+    const start = new Date(year, 0, 1 - (first.getDay() + 6) % 7);
+    const weeks: (string | null)[][] = [];
+    for (const d = start; d.getFullYear() <= year; ) {
+        const week: (string | null)[] = [];
+        for (let i = 0; i < 7; i++, d.setDate(d.getDate() + 1)) week.push(d.getFullYear() === year ? formatDate(d) : null);
+        weeks.push(week);
+    }
+    return weeks;
+};
+
+// --- Day Timeline ---
+
+const TIMELINE_HOUR_PX = 48;
+const TIMELINE_MIN_BLOCK = 20; // Minutes drawn for entries without a duration
+
+interface TimelineItem {
+    entry: Entry;
+    start: number; // Minutes after midnight
+    end: number; // Clamped to midnight
+    hasDuration: boolean;
+    continues: boolean; // Runs past midnight
+    lane: number;
+    lanes: number; // Lanes in its overlap cluster
+}
+
+// Places entries on the day by details.time and details.duration (sleep falls back to its wake time).
+// Overlapping entries share the width in side-by-side lanes.
+const layoutTimeline = (entries: Entry[]): { items: TimelineItem[]; unscheduled: Entry[] } => {
+    const unscheduled: Entry[] = [];
+    const items: TimelineItem[] = [];
+    entries.forEach(entry => {
+        const start = parseClockTime(entry.details?.time);
+        if (start === null) {
+            unscheduled.push(entry);
+            return;
+        }
+        let duration = parseDurationMinutes(entry.details?.duration);
+        if (!duration && entry.category === 'sleep') {
+            const hours = readSleepNight(entry).hours;
+            duration = hours ? hours * 60 : null;
+        }
+        items.push({
+            entry,
+            start,
+            end: Math.min(1440, start + (duration || 0)),
+            hasDuration: !!duration,
+            continues: start + (duration || 0) > 1440,
+            lane: 0,
+            lanes: 1
+        });
+    });
+
+    items.sort((a, b) => a.start - b.start || b.end - a.end);
+    const visualEnd = (item: TimelineItem) => Math.max(item.end, item.start + TIMELINE_MIN_BLOCK);
+    let cluster: TimelineItem[] = [];
+    let laneEnds: number[] = [];
+    const closeCluster = () => cluster.forEach(item => { item.lanes = laneEnds.length; });
+    items.forEach(item => {
+        if (cluster.length && item.start >= Math.max(...laneEnds)) {
+            closeCluster();
+            cluster = [];
+            laneEnds = [];
+        }
+        const free = laneEnds.findIndex(end => end <= item.start);
+        item.lane = free === -1 ? laneEnds.length : free;
+        laneEnds[item.lane] = visualEnd(item);
+        cluster.push(item);
+    });
+    closeCluster();
+    return { items, unscheduled };
+};
+
+// --- Components ---
+
+const IconComponent = ({ name, className }: { name: string; className?: string }) => {
+  // Safe icon access for ESM environments
+  const iconName = name as keyof typeof Icons;
+  const LucideIcon = Icons[iconName] as React.ElementType | undefined;
+  
+  // Fallback to Hash if not found
+  if (!LucideIcon) return <Icons.Hash className={className} />;
+  return <LucideIcon className={className} />;
+};
+
+// --- Helper Functions ---
+const formatFieldValue = (value: unknown): string => {
+  if (isEmptyValue(value)) return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  if (value && typeof value === 'object') {
+    const money = value as { amount?: unknown; currency?: unknown };
+    return 'amount' in money ? `${money.amount} ${money.currency || ''}`.trim() : JSON.stringify(value);
+  }
+  return String(value);
+};
+
+// Resolves early when the signal aborts
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+});
+
+const formatDate = (date: Date) => {
+  // Local YYYY-MM-DD
+  const offset = date.getTimezoneOffset() * 60000;
+  const local = new Date(date.getTime() - offset);
+  return local.toISOString().split('T')[0];
+};
+
+const formatTime = (date: Date) => {
+  // Local HH:mm, independent of the browser locale
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+};
+
+const getWeekRange = (date: Date) => {
+  const d = new Date(date);
+  const day = d.getDay();
+  const diff = d.getDate() - day + (day === 0 ? -6 : 1); // adjust when day is sunday
+  const start = new Date(d.setDate(diff));
+  start.setHours(0,0,0,0);
+  const end = new Date(start);
+  end.setDate(start.getDate() + 6);
+  end.setHours(23,59,59,999);
+  return { start, end };
+};
+
+const isSameDay = (d1: Date, d2: Date) => {
+    return d1.getFullYear() === d2.getFullYear() &&
+           d1.getMonth() === d2.getMonth() &&
+           d1.getDate() === d2.getDate();
+};
+
+// Downscale a photo on the client and re-encode it as JPEG to keep storage and upload small
+const downscaleImage = (file: Blob, maxDim = 1280, quality = 0.8): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(file);
+        const img = new Image();
+        img.onload = () => {
+            const scale = Math.min(1, maxDim / Math.max(img.width, img.height));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.round(img.width * scale);
+            canvas.height = Math.round(img.height * scale);
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                URL.revokeObjectURL(url);
+                reject(new Error('Canvas not supported'));
+                return;
+            }
+            // JPEG has no alpha, paint transparent areas white instead of black
+            ctx.fillStyle = '#fff';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            URL.revokeObjectURL(url);
+            resolve(canvas.toDataURL('image/jpeg', quality));
+        };
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('Unsupported image'));
+        };
+        img.src = url;
+    });
+};
+
+// Display of one stored value according to its field type
+const renderFieldValue = (field: FieldSchema | undefined, value: unknown, entries: Entry[]): React.ReactNode => {
+  switch (field?.type) {
+    case 'boolean':
+      return value === true ? <Icons.Check className="inline w-3 h-3 text-green-400" /> : <Icons.X className="inline w-3 h-3 text-gray-500" />;
+    case 'rating':
+      return <span className="text-yellow-500">{'★'.repeat(Math.round(toNumber(value) || 0))}</span>;
+    case 'duration':
+      return toNumber(value) === null ? String(value) : formatDuration(toNumber(value)!);
+    case 'number':
+      return field.unit ? `${value} ${field.unit}` : String(value);
+    case 'url': {
+      const href = String(value);
+      let host = href;
+      try { host = new URL(href).hostname; } catch { /* keep raw */ }
+      return <a href={href} target="_blank" rel="noopener noreferrer" onClick={e => e.stopPropagation()} className="text-blue-400 hover:underline">{host}</a>;
+    }
+    case 'reference': {
+      const target = entries.find(e => e.id === value);
+      return target ? <span className="text-blue-300">→ {target.event} ({target.date.slice(5)})</span> : <span className="opacity-50">→ missing</span>;
+    }
+    case 'multiselect':
+      return (Array.isArray(value) ? value : [value]).map((t, i: number) => (
+          <span key={i} className="bg-gray-700 px-1 rounded text-[10px] mr-1">{String(t)}</span>
+      ));
+    default:
+      return formatFieldValue(value);
+  }
+};
+
+const renderDetails = (cat: string, details: Record<string, any>, fields: FieldSchema[] = [], entries: Entry[] = []) => {
+  // Filter out standard fields to avoid duplication if handled by parent container
+  const standardFields = ['summary', 'time', 'duration', 'notes'];
+  
+  // Custom Renderers for specific logic
+  const renderSpecifics = () => {
+    if (cat === 'finance_tracking') {
+        return (
+          <div className="mt-1 mb-1">
+             <div className={`font-mono font-bold text-sm ${details.transaction_type === '收入' ? 'text-emerald-400' : 'text-red-400'}`}>
+                 {details.amount ? (details.transaction_type === '支出' && details.amount > 0 ? -details.amount : details.amount) : 0} {details.currency}
+             </div>
+             {details.merchant && <div className="text-[10px] text-gray-500">@{details.merchant}</div>}
+             {details.tags && <div className="flex flex-wrap gap-1 mt-1">{
+                 (Array.isArray(details.tags) ? details.tags : [details.tags]).map((t:string, i:number) => (
+                     <span key={i} className="bg-gray-700 px-1 rounded text-[10px]">{t}</span>
+                 ))
+             }</div>}
+          </div>
+        );
+    }
+    if (cat === 'movie') {
+        return (
+            <div className="flex gap-2 items-center mt-1">
+              {details.rating && <div className="text-yellow-500 text-xs">{'★'.repeat(Math.round(details.rating))}</div>}
+              {details.genre && <div className="text-[10px] bg-pink-900/50 px-1 rounded text-pink-300">{details.genre}</div>}
+            </div>
+        );
+    }
+    // Default fallback loop for non-standard fields
+    return Object.entries(details).map(([k, v]) => {
+        if (standardFields.includes(k) || isEmptyValue(v)) return null;
+        if (k === 'type' && cat === 'exercise') return null; // 'type' usually redundant with event in exercise
+        const field = fields.find(f => f.key === k);
+        return (
+            <div key={k} className="text-[10px]">
+                <span className="opacity-50 mr-1 capitalize">{field?.label || k.replace(/_/g, ' ')}:</span>
+                {renderFieldValue(field, v, entries)}
+            </div>
+        );
+    });
+  };
+
+  return (
+      <div className="w-full">
+          {/* Standard Fields Header */}
+          <div className="flex justify-between items-start text-[10px] text-gray-500 mb-1 border-b border-gray-700/50 pb-1">
+              <span className="text-gray-300 font-medium line-clamp-2 flex-1 mr-2" title={details.summary}>{details.summary}</span>
+              <div className="text-right whitespace-nowrap">
+                  <span className="font-mono text-blue-300">{details.time}</span>
+                  {!isEmptyValue(details.duration) && (
+                      <span className="ml-1 text-gray-600">({typeof details.duration === 'number' ? formatDuration(details.duration) : details.duration})</span>
+                  )}
+              </div>
+          </div>
+          
+          {/* Specifics */}
+          {renderSpecifics()}
+
+          {/* Catch-all Notes */}
+          {details.notes && (
+              <div className="mt-1 pt-1 border-t border-gray-700/50 text-[10px] text-gray-400 italic">
+                  Note: {details.notes}
+              </div>
+          )}
+      </div>
+  );
+};
+
+const ImageLightbox = ({ image, onClose }: { image: string; onClose: () => void }) => (
+    <div className="fixed inset-0 bg-black/90 z-[60] flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+        <button onClick={onClose} className="absolute top-4 right-4 p-2 text-gray-400 hover:text-white">
+            <Icons.X className="w-6 h-6" />
+        </button>
+        <img 
+            src={`data:image/jpeg;base64,${image}`} 
+            className="max-w-full max-h-full object-contain rounded-lg shadow-2xl"
+            onClick={e => e.stopPropagation()}
+        />
+    </div>
+);
+
+// Input widget for one schema field, shared by the edit modal and draft cards.
+// Cleared inputs report undefined so no NaN / empty strings get stored.
+const FieldInput = ({ field, value, onChange, entries = [] }: { field: FieldSchema; value: any; onChange: (val: any) => void; entries?: Entry[] }) => {
+    const inputClass = "w-full bg-gray-800 border border-gray-700 rounded p-2 text-sm";
+    if (field.formula) {
+        // Computed on save; shows the live result of the formula
+        return (
+            <div className="w-full bg-gray-900 border border-dashed border-gray-700 rounded p-2 text-sm text-gray-300 flex justify-between gap-2" title={field.formula}>
+                <span>{isEmptyValue(value) ? '—' : `${value}${field.unit ? ` ${field.unit}` : ''}`}</span>
+                <span className="font-mono text-[10px] text-gray-600 truncate">= {field.formula}</span>
+            </div>
+        );
+    }
+    if (field.type === 'select') {
+        return (
+            <select 
+              value={value || ''} 
+              onChange={e => onChange(e.target.value || undefined)}
+              className={inputClass}
+            >
+                <option value="">Select...</option>
+                {(field.options || []).map(o => <option key={o} value={o}>{o}</option>)}
+            </select>
+        );
+    }
+    if (field.type === 'multiselect') {
+        const list: string[] = Array.isArray(value) ? value : [];
+        return (
+            <div className="flex flex-wrap gap-2">
+                {(field.options || []).map(o => {
+                    const selected = list.includes(o);
+                    return (
+                        <button key={o} onClick={() => {
+                            const next = selected ? list.filter((x:string) => x!==o) : [...list, o];
+                            onChange(next);
+                        }} className={`px-2 py-1 rounded text-xs border ${selected ? 'bg-blue-600 border-blue-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400'}`}>
+                            {o}
+                        </button>
+                    );
+                })}
+            </div>
+        );
+    }
+    if (field.type === 'number') {
+        return (
+            <div className="flex items-center bg-gray-800 border border-gray-700 rounded focus-within:border-blue-500">
+                <input 
+                  type="number"
+                  value={value ?? ''}
+                  onChange={e => onChange(e.target.value === '' || isNaN(parseFloat(e.target.value)) ? undefined : parseFloat(e.target.value))}
+                  className="flex-1 min-w-0 bg-transparent p-2 text-sm outline-none"
+                  placeholder={field.placeholder || ''}
+                />
+                {field.unit && <span className="px-2 text-xs text-gray-500">{field.unit}</span>}
+            </div>
+        );
+    }
+    if (field.type === 'rating') {
+        const current = toNumber(value) || 0;
+        return (
+            <div className="flex items-center gap-1">
+                {[1, 2, 3, 4, 5].map(n => (
+                    <button key={n} onClick={() => onChange(n === current ? undefined : n)} className={n <= current ? 'text-yellow-400' : 'text-gray-600 hover:text-gray-400'}>
+                        <Icons.Star className="w-5 h-5" fill={n <= current ? 'currentColor' : 'none'} />
+                    </button>
+                ))}
+            </div>
+        );
+    }
+    if (field.type === 'date' || field.type === 'time' || field.type === 'url') {
+        return (
+            <div className="flex items-center gap-2">
+                <input 
+                  type={field.type}
+                  value={value || ''}
+                  onChange={e => onChange(e.target.value || undefined)}
+                  className={inputClass}
+                  placeholder={field.placeholder || (field.type === 'url' ? 'https://' : '')}
+                />
+                {field.type === 'url' && value && (
+                    <a href={value} target="_blank" rel="noopener noreferrer" className="p-2 text-gray-400 hover:text-blue-400"><Icons.ExternalLink className="w-4 h-4" /></a>
+                )}
+            </div>
+        );
+    }
+    if (field.type === 'boolean') {
+        return (
+            <button 
+              onClick={() => onChange(value === true ? false : true)}
+              className={`w-10 h-5 rounded-full relative transition-colors ${value === true ? 'bg-blue-600' : 'bg-gray-700'}`}
+            >
+                <span className={`absolute top-0.5 w-4 h-4 rounded-full bg-white transition-all ${value === true ? 'left-5' : 'left-0.5'}`} />
+            </button>
+        );
+    }
+    if (field.type === 'duration') {
+        const minutes = toNumber(value);
+        const h = minutes === null ? '' : Math.floor(minutes / 60);
+        const m = minutes === null ? '' : Math.round(minutes % 60);
+        const update = (hours: string, mins: string) => {
+            if (hours === '' && mins === '') return onChange(undefined);
+            onChange((parseFloat(hours) || 0) * 60 + (parseFloat(mins) || 0));
+        };
+        return (
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+                <input type="number" min="0" value={h} onChange={e => update(e.target.value, String(m))} className="w-20 bg-gray-800 border border-gray-700 rounded p-2 text-sm text-gray-100" />
+                h
+                <input type="number" min="0" max="59" value={m} onChange={e => update(String(h), e.target.value)} className="w-20 bg-gray-800 border border-gray-700 rounded p-2 text-sm text-gray-100" />
+                min
+            </div>
+        );
+    }
+    if (field.type === 'money') {
+        const currencies = field.options?.length ? field.options : DEFAULT_CURRENCIES;
+        const money = parseMoney(value, currencies);
+        // The currency is kept even while the amount is empty
+        const currency = money?.currency || (value && typeof value === 'object' && value.currency) || currencies[0];
+        return (
+            <div className="flex gap-2">
+                <input 
+                  type="number"
+                  value={money?.amount ?? ''}
+                  onChange={e => {
+                      const amount = parseFloat(e.target.value);
+                      onChange(isNaN(amount) ? { currency } : { amount, currency });
+                  }}
+                  className={`${inputClass} flex-1`}
+                />
+                <select 
+                  value={currency}
+                  onChange={e => onChange(money ? { ...money, currency: e.target.value } : { currency: e.target.value })}
+                  className="bg-gray-800 border border-gray-700 rounded p-2 text-sm"
+                >
+                    {currencies.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+            </div>
+        );
+    }
+    if (field.type === 'reference') {
+        // options restrict the categories it may point to
+        const candidates = entries
+            .filter(e => !field.options?.length || field.options.includes(e.category))
+            .sort((a, b) => b.date.localeCompare(a.date))
+            .slice(0, 200);
+        return (
+            <select value={value || ''} onChange={e => onChange(e.target.value || undefined)} className={inputClass}>
+                <option value="">None</option>
+                {value && !candidates.some(e => e.id === value) && <option value={value}>(missing entry {value})</option>}
+                {candidates.map(e => <option key={e.id} value={e.id}>[{e.date}] {e.event}</option>)}
+            </select>
+        );
+    }
+    return (
+        <input 
+          type="text"
+          value={value ?? ''}
+          onChange={e => onChange(e.target.value)}
+          className={inputClass}
+          placeholder={field.placeholder || (field.unit ? `Unit: ${field.unit}` : '')}
+        />
+    );
+};
+
+// --- Dashboard View Component ---
+
+interface DashboardViewProps {
+  entries: Entry[];
+  viewDate: Date;
+  viewMode: 'day' | 'week' | 'month';
+  setViewDate: (date: Date) => void;
+  setViewMode: (mode: 'day' | 'week' | 'month') => void;
+  setEditingEntry: (entry: Entry) => void;
+  setEntries: React.Dispatch<React.SetStateAction<Entry[]>>;
+  rawLogs: RawLog[];
+  setRawLogs: React.Dispatch<React.SetStateAction<RawLog[]>>;
+  categories: Record<string, CategoryMeta>;
+  categoryGroups: GroupMeta[];
+  customSchemas: Record<string, FieldSchema[]>;
+  budgets: Budget[];
+  exchangeRates: ExchangeRate[];
+}
+
+const DashboardView = ({ 
+  entries, 
+  viewDate, 
+  viewMode, 
+  setViewDate, 
+  setViewMode, 
+  setEditingEntry, 
+  setEntries,
+  rawLogs,
+  setRawLogs,
+  categories,
+  categoryGroups,
+  customSchemas,
+  budgets,
+  exchangeRates
+}: DashboardViewProps) => {
+    const [isLogView, setIsLogView] = useState(false);
+    const [editingLogId, setEditingLogId] = useState<string | null>(null);
+    const [editingLogText, setEditingLogText] = useState('');
+    const [lightboxImage, setLightboxImage] = useState<string | null>(null);
+    const [monthLayout, setMonthLayout] = useState<'calendar' | 'year' | 'cards'>('calendar');
+    const [heatmapMetric, setHeatmapMetric] = useState<HeatmapMetric>('none');
+    const [dayLayout, setDayLayout] = useState<'timeline' | 'cards'>('timeline');
+    // Block being dragged to a new time; a press without movement opens the entry instead
+    const [timelineDrag, setTimelineDrag] = useState<{ id: string; startY: number; origin: number; minutes: number; moved: boolean } | null>(null);
+    const [slotPicker, setSlotPicker] = useState<number | null>(null); // Minutes of the clicked gap
+
+    const filteredEntries = useMemo(() => {
+        return entries.filter((e: Entry) => {
+            if (!e.date) return false;
+            // Validate date format to prevent invalid date errors
+            if (!/^\d{4}-\d{2}-\d{2}$/.test(e.date)) return false;
+            
+            const eDate = new Date(e.date + "T00:00:00"); // Force local time interpretation
+            if (isNaN(eDate.getTime())) return false;
+
+            if (viewMode === 'day') {
+                return isSameDay(eDate, viewDate);
+            } else if (viewMode === 'week') {
+                const { start, end } = getWeekRange(viewDate);
+                return eDate >= start && eDate <= end;
+            } else {
+                return eDate.getMonth() === viewDate.getMonth() && eDate.getFullYear() === viewDate.getFullYear();
+            }
+        });
+    }, [entries, viewMode, viewDate]);
+
+    // Grouping, in the order set in Settings; archived groups and categories are hidden
+    const visibleGroups = categoryGroups.filter(g => !g.archived);
+    const groups: Record<string, string[]> = Object.fromEntries(visibleGroups.map(g => [g.key, [] as string[]]));
+    Object.entries(categories).forEach(([key, meta]) => {
+        if (!meta.archived && groups[meta.group]) groups[meta.group].push(key);
+    });
+
+    const filteredRawLogs = useMemo(() => {
+        if (!rawLogs) return [];
+        return rawLogs.filter((log: RawLog) => {
+             const d = new Date(log.timestamp);
+             if (viewMode === 'day') return isSameDay(d, viewDate);
+             if (viewMode === 'week') {
+                const { start, end } = getWeekRange(viewDate);
+                return d >= start && d <= end;
+             }
+             return d.getMonth() === viewDate.getMonth() && d.getFullYear() === viewDate.getFullYear();
+        }).sort((a: RawLog, b: RawLog) => b.timestamp - a.timestamp);
+    }, [rawLogs, viewDate, viewMode]);
+
+    const handleSaveLogEdit = (id: string) => {
+        setRawLogs((prev: RawLog[]) => prev.map(log => 
+            log.id === id ? { ...log, text: editingLogText } : log
+        ));
+        setEditingLogId(null);
+    };
+
+    const handleDeleteLog = (e: React.MouseEvent, id: string) => {
+        e.stopPropagation(); // Critical for proper event handling
+        if (window.confirm("Are you sure you want to delete this log?")) {
+             setRawLogs((prev: RawLog[]) => prev.filter(log => log.id !== id));
+        }
+    };
+
+    // Create empty entry for manual edit, at the current time unless a slot was picked
+    const handleNewEntry = (catKey: string, time?: string) => {
+        const timeStr = time || formatTime(new Date());
+        const newEntry: Entry = {
+            id: Math.random().toString(36).substr(2,9),
+            date: formatDate(viewDate),
+            category: catKey,
+            event: 'New Event',
+            details: {
+                summary: 'New entry',
+                time: timeStr,
+                notes: ''
+            }
+        };
+        setEntries((prev: Entry[]) => [...prev, newEntry]);
+        setEditingEntry(newEntry);
+    };
+
+    const renderSleepSummary = (sleepEntries: Entry[]) => {
+        const summary = summarizeSleep(sleepEntries, DEFAULT_SLEEP_TARGET);
+        return (
+            <div className="px-3 py-1.5 flex items-center gap-3 text-[10px] text-gray-400 border-b border-gray-800/50 bg-indigo-900/10 font-mono">
+                <span title="Average sleep">{summary.averageHours !== null ? `⌀ ${summary.averageHours}h` : '⌀ —'}</span>
+                {summary.averageBedtime !== null && <span title="Average bedtime">{formatClock(summary.averageBedtime)}</span>}
+                {summary.bedtimeSpread !== null && <span title="Bedtime consistency">± {summary.bedtimeSpread}m</span>}
+                {summary.flagged.length > 0 && (
+                    <span className="text-amber-400 flex items-center gap-0.5 ml-auto" title={summary.flagged.map(n => `${n.entry.date}: ${n.problem}`).join('\n')}>
+                        <Icons.AlertTriangle className="w-3 h-3" /> {summary.flagged.length}
+                    </span>
+                )}
+            </div>
+        );
+    };
+
+    const renderCard = (catKey: string) => {
+        const meta = getCategoryMeta(categories, catKey);
+        const catEntries = filteredEntries.filter((e: Entry) => e.category === catKey);
+        
+        return (
+            <div key={catKey} className={`rounded-xl border border-gray-800 bg-gray-900/50 flex flex-col h-[280px] overflow-hidden group`}>
+                <div className={`px-3 py-2 flex items-center justify-between bg-gray-900/80 border-b border-gray-800/50`}>
+                    <div className="flex items-center gap-2">
+                         <div className={`p-1.5 rounded-lg ${meta.color} text-white`}>
+                             <IconComponent name={meta.icon} className="w-3.5 h-3.5" />
+                         </div>
+                         <span className="font-medium text-sm text-gray-300">{meta.label}</span>
                     </div>
                     {/* On Mobile, Show "+" always or make card clickable. For now, keep icon logic but ensure it's tappable */}
-                    <button onClick={() => {
-                        // Create empty entry for manual edit
-                        const now = new Date();
-                        const timeStr = now.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'});
-                        const newEntry: Entry = {
-                            id: Math.random().toString(36).substr(2,9),
-                            date: formatDate(viewDate),
-                            category: catKey,
-                            event: 'New Event',
-                            details: {
-                                summary: 'New entry',
-                                time: timeStr,
-                                notes: ''
-                            }
-                        };
-                        setEntries((prev: Entry[]) => [...prev, newEntry]);
-                        setEditingEntry(newEntry);
-                    }} className="text-gray-500 hover:text-white transition-colors opacity-100 md:opacity-0 md:group-hover:opacity-100 p-2">
+                    <button onClick={() => handleNewEntry(catKey)} className="text-gray-500 hover:text-white transition-colors opacity-100 md:opacity-0 md:group-hover:opacity-100 p-2">
                         <Icons.Plus className="w-4 h-4" />
                     </button>
                 </div>
                 
+                {catKey === 'sleep' && catEntries.length > 0 && renderSleepSummary(catEntries)}
+
                 <div className="flex-1 overflow-y-auto p-3 space-y-2 custom-scrollbar">
                     {catEntries.length === 0 ? (
                         <div className="h-full flex items-center justify-center text-gray-700 text-xs italic">
                             No records
                         </div>
-                    ) : (
-                        catEntries.map((e: Entry) => (
-                            <div key={e.id} className="bg-gray-800/50 rounded p-2 text-xs relative group/item hover:bg-gray-800 transition-colors border border-gray-800/50">
-                                <div className="flex justify-between items-start mb-1">
-                                    <span className="font-bold text-gray-200 line-clamp-1 text-sm">{e.event}</span>
-                                    {/* Action Buttons: Visible by default on mobile, hover on desktop */}
-                                    <div className="flex gap-1 opacity-100 md:opacity-0 md:group-hover/item:opacity-100 transition-opacity absolute top-2 right-2 bg-gray-900/90 rounded px-1 z-20">
-                                        <button 
-                                            onClick={(event) => {
-                                                event.stopPropagation();
-                                                event.preventDefault();
-                                                setEditingEntry(e);
-                                            }} 
-                                            className="text-blue-400 hover:text-blue-300 p-2 md:p-1"
-                                        >
-                                            <Icons.Pencil className="w-3 h-3" />
-                                        </button>
-                                        <button 
-                                            onClick={(event) => {
-                                                event.stopPropagation();
-                                                event.preventDefault();
-                                                if(window.confirm('Delete this entry?')) {
-                                                    setEntries((prev: Entry[]) => prev.filter(x => x.id !== e.id));
-                                                }
-                                            }} 
-                                            className="text-red-400 hover:text-red-300 p-2 md:p-1"
-                                        >
-                                            <Icons.Trash2 className="w-3 h-3" />
-                                        </button>
+                    ) : (
+                        catEntries.map((e: Entry) => (
+                            <div key={e.id} className={`bg-gray-800/50 rounded p-2 text-xs relative group/item hover:bg-gray-800 transition-colors border ${e.issues ? 'border-amber-500/50' : 'border-gray-800/50'}`}>
+                                <div className="flex justify-between items-start mb-1">
+                                    <span className="font-bold text-gray-200 line-clamp-1 text-sm flex items-center gap-1">
+                                        {e.issues && (
+                                            <span title={e.issues.map(i => i.message).join('\n')}>
+                                                <Icons.AlertTriangle className="w-3 h-3 text-amber-400 shrink-0" />
+                                            </span>
+                                        )}
+                                        {e.recurringRuleId && (
+                                            <span title="Added by a recurring rule">
+                                                <Icons.Repeat className="w-3 h-3 text-emerald-400 shrink-0" />
+                                            </span>
+                                        )}
+                                        {e.event}
+                                    </span>
+                                    {/* Action Buttons: Visible by default on mobile, hover on desktop */}
+                                    <div className="flex gap-1 opacity-100 md:opacity-0 md:group-hover/item:opacity-100 transition-opacity absolute top-2 right-2 bg-gray-900/90 rounded px-1 z-20">
+                                        <button 
+                                            onClick={(event) => {
+                                                event.stopPropagation();
+                                                event.preventDefault();
+                                                setEditingEntry(e);
+                                            }} 
+                                            className="text-blue-400 hover:text-blue-300 p-2 md:p-1"
+                                        >
+                                            <Icons.Pencil className="w-3 h-3" />
+                                        </button>
+                                        <button 
+                                            onClick={(event) => {
+                                                event.stopPropagation();
+                                                event.preventDefault();
+                                                if(window.confirm('Delete this entry?')) {
+                                                    setEntries((prev: Entry[]) => prev.filter(x => x.id !== e.id));
+                                                }
+                                            }} 
+                                            className="text-red-400 hover:text-red-300 p-2 md:p-1"
+                                        >
+                                            <Icons.Trash2 className="w-3 h-3" />
+                                        </button>
+                                    </div>
+                                </div>
+                                {/* Details Render Logic */}
+                                <div className="text-gray-400 space-y-0.5">
+                                    {renderDetails(catKey, e.details, customSchemas[catKey], entries)}
+                                    {e.image && (
+                                        <img 
+                                            src={`data:image/jpeg;base64,${e.image}`} 
+                                            onClick={() => setLightboxImage(e.image!)}
+                                            className="w-8 h-8 object-cover rounded mt-1 cursor-pointer hover:scale-150 transition-transform" 
+                                        />
+                                    )}
+                                </div>
+                            </div>
+                        ))
+                    )}
+                </div>
+            </div>
+        );
+    };
+
+    // Budgets of the week / month containing the viewed date
+    const budgetStatuses = useMemo(
+        () => evaluateBudgets(budgets, toLedgerTransactions(entries, exchangeRates), viewDate),
+        [budgets, entries, exchangeRates, viewDate]
+    );
+
+    const renderBudgets = () => (
+        <div className="animate-fade-in">
+            <h3 className="text-xs font-bold uppercase tracking-wider text-gray-600 mb-3 px-1">Budgets</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-3">
+                {budgetStatuses.map(({ budget, spent, ratio }) => (
+                    <div key={budget.id} className="rounded-xl border border-gray-800 bg-gray-900/50 p-3 text-xs">
+                        <div className="flex justify-between mb-2">
+                            <span className="text-gray-300 font-medium">{budgetLabel(budget)}</span>
+                            <span className={`font-mono ${ratio >= 1 ? 'text-red-400' : ratio >= 0.8 ? 'text-amber-400' : 'text-gray-400'}`}>{Math.round(ratio * 100)}%</span>
+                        </div>
+                        <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+                            <div 
+                                className={`h-full rounded-full ${ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-amber-500' : 'bg-emerald-500'}`} 
+                                style={{ width: `${Math.min(100, ratio * 100)}%` }} 
+                            />
+                        </div>
+                        <div className="mt-1.5 text-[10px] text-gray-500 font-mono">
+                            {formatMoney(spent)} / {formatMoney(budget.limit)}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+
+    const openDay = (date: string) => {
+        const [y, m, d] = date.split('-').map(Number);
+        setViewDate(new Date(y, m - 1, d));
+        setViewMode('day');
+    };
+
+    const cycleMarks = useMemo(
+        () => entries.some(e => e.category === 'physiology') ? cycleCalendarMarks(summarizeCycles(entries, formatDate(new Date()))) : new Map<string, CycleMark>(),
+        [entries]
+    );
+
+    const renderMonthCalendar = () => {
+        const year = viewDate.getFullYear(), month = viewDate.getMonth();
+        const firstWeekday = (new Date(year, month, 1).getDay() + 6) % 7; // Monday first
+        const daysInMonth = new Date(year, month + 1, 0).getDate();
+        const today = formatDate(new Date());
+        const byDay = new Map<string, Entry[]>();
+        filteredEntries.forEach(e => byDay.set(e.date, [...(byDay.get(e.date) || []), e]));
+        const metric = HEATMAP_METRICS.find(m => m.id === heatmapMetric)!;
+        const values = dailyMetric(filteredEntries, heatmapMetric, exchangeRates);
+        const max = Math.max(0, ...values.values());
+
+        return (
+            <div className="grid grid-cols-7 gap-1 md:gap-2 animate-fade-in">
+                {['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'].map(d => (
+                    <div key={d} className="text-[10px] uppercase tracking-wider text-gray-600 text-center pb-1">{d}</div>
+                ))}
+                {Array.from({ length: firstWeekday }, (_, i) => <div key={`pad-${i}`} />)}
+                {Array.from({ length: daysInMonth }, (_, i) => {
+                    const date = formatDate(new Date(year, month, i + 1));
+                    const dayEntries = byDay.get(date) || [];
+                    const counts = new Map<string, number>();
+                    dayEntries.forEach(e => counts.set(e.category, (counts.get(e.category) || 0) + 1));
+                    const value = values.get(date) || 0;
+                    const cycleMark = cycleMarks.get(date);
+                    return (
+                        <button 
+                            key={date}
+                            onClick={() => openDay(date)}
+                            title={[date, value ? metric.format(value) : ''].filter(Boolean).join('  ')}
+                            className={`relative min-h-[64px] md:min-h-[88px] rounded-lg border p-1.5 text-left flex flex-col gap-1 hover:border-blue-500 transition-colors ${date === today ? 'border-blue-500/60' : 'border-gray-800'} ${value ? '' : 'bg-gray-900/50'}`}
+                            style={value ? { backgroundColor: `rgba(${metric.rgb}, ${0.1 + 0.5 * value / max})` } : undefined}
+                        >
+                            <div className="flex justify-between items-center">
+                                <span className={`text-xs font-mono ${date === today ? 'text-blue-400 font-bold' : 'text-gray-400'}`}>{i + 1}</span>
+                                {dayEntries.length > 0 && <span className="text-[10px] text-gray-500 font-mono">{dayEntries.length}</span>}
+                            </div>
+                            <div className="flex flex-wrap gap-1">
+                                {Array.from(counts.entries()).map(([cat, count]) => {
+                                    const meta = getCategoryMeta(categories, cat);
+                                    return (
+                                        <span key={cat} title={`${meta.label}: ${count}`} className="flex items-center gap-0.5">
+                                            <span className={`w-2 h-2 rounded-full ${meta.color}`} />
+                                            {count > 1 && <span className="text-[9px] text-gray-500 font-mono hidden md:inline">{count}</span>}
+                                        </span>
+                                    );
+                                })}
+                            </div>
+                            {value > 0 && heatmapMetric !== 'entries' && (
+                                <span className="mt-auto text-[9px] text-gray-300 font-mono truncate hidden md:block">{metric.format(value)}</span>
+                            )}
+                            {cycleMark && (
+                                <span 
+                                    title={cycleMark === 'period' ? 'Period' : cycleMark === 'predicted' ? 'Predicted period' : 'Fertile window (est.)'} 
+                                    className={`absolute left-1.5 right-1.5 bottom-1 h-0.5 rounded ${cycleMark === 'period' ? 'bg-rose-500' : cycleMark === 'predicted' ? 'border-t border-dashed border-rose-400' : 'bg-teal-500/60'}`} 
+                                />
+                            )}
+                        </button>
+                    );
+                })}
+            </div>
+        );
+    };
+
+    // One row per category with entries this year, cell shade = entries that day
+    const renderYearHeatmap = () => {
+        const year = viewDate.getFullYear();
+        const weeks = yearWeeks(year);
+        const yearEntries = entries.filter(e => e.date.startsWith(`${year}-`));
+        const perCategory = new Map<string, Map<string, number>>();
+        yearEntries.forEach(e => {
+            const days = perCategory.get(e.category) || new Map<string, number>();
+            days.set(e.date, (days.get(e.date) || 0) + 1);
+            perCategory.set(e.category, days);
+        });
+        const ordered = visibleGroups.flatMap(g => groups[g.key]).filter(cat => perCategory.has(cat));
+        const others = Array.from(perCategory.keys()).filter(cat => !ordered.includes(cat));
+
+        return (
+            <div className="space-y-4 animate-fade-in">
+                <div className="text-sm font-mono text-gray-400">{year}</div>
+                {ordered.length + others.length === 0 && (
+                    <div className="text-center py-16 text-gray-600 italic border-2 border-dashed border-gray-800 rounded-xl">No entries in {year}.</div>
+                )}
+                {[...ordered, ...others].map(cat => {
+                    const meta = getCategoryMeta(categories, cat);
+                    const days = perCategory.get(cat)!;
+                    const max = Math.max(...days.values());
+                    const total = Array.from(days.values()).reduce((s, v) => s + v, 0);
+                    return (
+                        <div key={cat} className="bg-gray-900/50 border border-gray-800 rounded-xl p-3">
+                            <div className="flex items-center gap-2 mb-2 text-xs">
+                                <span className={`p-1 rounded ${meta.color} text-white`}><IconComponent name={meta.icon} className="w-3 h-3" /></span>
+                                <span className="text-gray-300">{meta.label}</span>
+                                <span className="ml-auto text-gray-500 font-mono">{total} entries · {days.size} days</span>
+                            </div>
+                            <div className="overflow-x-auto custom-scrollbar">
+                                <div className="flex gap-[2px] w-max">
+                                    {weeks.map((week, w) => (
+                                        <div key={w} className="flex flex-col gap-[2px]">
+                                            {week.map((date, d) => {
+                                                if (!date) return <div key={d} className="w-2.5 h-2.5" />;
+                                                const count = days.get(date) || 0;
+                                                return (
+                                                    <button 
+                                                        key={d}
+                                                        onClick={() => openDay(date)}
+                                                        title={`${date}: ${count}`}
+                                                        className={`w-2.5 h-2.5 rounded-sm ${count ? meta.color : 'bg-gray-800'} hover:ring-1 hover:ring-white`}
+                                                        style={count ? { opacity: 0.35 + 0.65 * count / max } : undefined}
+                                                    />
+                                                );
+                                            })}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        );
+    };
+
+    const moveEntryTo = (entry: Entry, minutes: number) => {
+        // Only the time changes; computed fields (e.g. sleep hours) follow it, in schema order as in validateEntry
+        const details: Record<string, any> = { ...entry.details, time: formatClock(minutes) };
+        (customSchemas[entry.category] || []).filter(f => f.formula).forEach(field => {
+            const result = evaluateFormula(field.formula!, details);
+            if (result === null) delete details[field.key];
+            else details[field.key] = result;
+        });
+        setEntries((prev: Entry[]) => prev.map(e => e.id === entry.id ? { ...e, details } : e));
+    };
+
+    const renderDayTimeline = () => {
+        const { items, unscheduled } = layoutTimeline(filteredEntries);
+        const pxPerMinute = TIMELINE_HOUR_PX / 60;
+        const now = new Date();
+        const nowMinutes = isSameDay(now, viewDate) ? now.getHours() * 60 + now.getMinutes() : null;
+        // Annotations close together are pushed down so they don't cover each other
+        let nextFreeTop = 0;
+        const logs = [...filteredRawLogs].sort((a, b) => a.timestamp - b.timestamp).map(log => {
+            const d = new Date(log.timestamp);
+            const minutes = d.getHours() * 60 + d.getMinutes();
+            const top = Math.max(minutes * pxPerMinute, nextFreeTop);
+            nextFreeTop = top + 30;
+            return { log, minutes, top };
+        });
+
+        const handlePointerMove = (e: React.PointerEvent) => {
+            if (!timelineDrag) return;
+            const delta = (e.clientY - timelineDrag.startY) / pxPerMinute;
+            const minutes = Math.min(1435, Math.max(0, Math.round((timelineDrag.origin + delta) / 5) * 5));
+            setTimelineDrag({ ...timelineDrag, minutes, moved: timelineDrag.moved || Math.abs(e.clientY - timelineDrag.startY) > 4 });
+        };
+
+        const handlePointerUp = (item: TimelineItem) => {
+            if (!timelineDrag) return;
+            if (!timelineDrag.moved) setEditingEntry(item.entry);
+            else if (timelineDrag.minutes !== item.start) moveEntryTo(item.entry, timelineDrag.minutes);
+            setTimelineDrag(null);
+        };
+
+        return (
+            <div className="space-y-3 animate-fade-in">
+                {unscheduled.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2 text-xs">
+                        <span className="text-gray-500">No time:</span>
+                        {unscheduled.map(e => {
+                            const meta = getCategoryMeta(categories, e.category);
+                            return (
+                                <button key={e.id} onClick={() => setEditingEntry(e)} className="flex items-center gap-1 px-2 py-1 rounded bg-gray-800 hover:bg-gray-700 border border-gray-700">
+                                    <span className={`w-2 h-2 rounded-full ${meta.color}`} />
+                                    {e.event}
+                                </button>
+                            );
+                        })}
+                    </div>
+                )}
+                <div className="flex bg-gray-900/50 border border-gray-800 rounded-xl overflow-hidden">
+                    {/* Hour labels */}
+                    <div className="w-12 shrink-0 relative border-r border-gray-800" style={{ height: 24 * TIMELINE_HOUR_PX }}>
+                        {Array.from({ length: 24 }, (_, h) => (
+                            <span key={h} className="absolute right-2 text-[10px] font-mono text-gray-600 -translate-y-1/2" style={{ top: h * TIMELINE_HOUR_PX }}>
+                                {h > 0 ? `${String(h).padStart(2, '0')}:00` : ''}
+                            </span>
+                        ))}
+                    </div>
+
+                    {/* Entries; empty space opens a category picker for that slot */}
+                    <div 
+                        className="flex-1 relative cursor-copy"
+                        style={{ height: 24 * TIMELINE_HOUR_PX }}
+                        onClick={e => {
+                            const top = e.currentTarget.getBoundingClientRect().top;
+                            setSlotPicker(Math.min(1425, Math.max(0, Math.floor((e.clientY - top) / pxPerMinute / 15) * 15)));
+                        }}
+                    >
+                        {Array.from({ length: 24 }, (_, h) => (
+                            <div key={h} className="absolute inset-x-0 border-t border-gray-800/60" style={{ top: h * TIMELINE_HOUR_PX }} />
+                        ))}
+                        {nowMinutes !== null && (
+                            <div className="absolute inset-x-0 border-t border-red-500/70 z-10 pointer-events-none" style={{ top: nowMinutes * pxPerMinute }} />
+                        )}
+                        {items.map(item => {
+                            const meta = getCategoryMeta(categories, item.entry.category);
+                            const dragging = timelineDrag?.id === item.entry.id;
+                            const start = dragging ? timelineDrag!.minutes : item.start;
+                            const length = Math.max(item.end - item.start, TIMELINE_MIN_BLOCK);
+                            const width = 100 / item.lanes;
+                            return (
+                                <div 
+                                    key={item.entry.id}
+                                    onPointerDown={e => {
+                                        e.stopPropagation();
+                                        e.currentTarget.setPointerCapture(e.pointerId);
+                                        setTimelineDrag({ id: item.entry.id, startY: e.clientY, origin: item.start, minutes: item.start, moved: false });
+                                    }}
+                                    onPointerMove={handlePointerMove}
+                                    onPointerUp={() => handlePointerUp(item)}
+                                    onPointerCancel={() => setTimelineDrag(null)}
+                                    onClick={e => e.stopPropagation()}
+                                    title={`${formatClock(start)}${item.hasDuration ? `–${formatClock(start + item.end - item.start)}` : ''} ${item.entry.event}${item.lanes > 1 ? ' (overlaps)' : ''}`}
+                                    className={`absolute rounded-md px-1.5 py-0.5 text-[10px] leading-tight overflow-hidden select-none touch-none cursor-grab border ${meta.color} bg-opacity-30 text-gray-100 ${item.lanes > 1 ? 'border-amber-400/60' : 'border-white/10'} ${dragging ? 'ring-2 ring-blue-400 z-20 cursor-grabbing' : 'z-10 hover:brightness-125'} ${item.hasDuration ? '' : 'border-dashed'}`}
+                                    style={{
+                                        top: start * pxPerMinute,
+                                        height: length * pxPerMinute,
+                                        left: `calc(${item.lane * width}% + 2px)`,
+                                        width: `calc(${width}% - 4px)`
+                                    }}
+                                >
+                                    <div className="font-bold truncate flex items-center gap-1">
+                                        <IconComponent name={meta.icon} className="w-3 h-3 shrink-0" />
+                                        <span className="font-mono opacity-70">{formatClock(start)}</span>
+                                        <span className="truncate">{item.entry.event}</span>
                                     </div>
+                                    {length >= 40 && item.entry.details?.summary && <div className="truncate opacity-70">{item.entry.details.summary}</div>}
+                                    {item.continues && <Icons.ArrowDown className="w-3 h-3 absolute bottom-0.5 right-1 opacity-70" />}
                                 </div>
-                                {/* Details Render Logic */}
-                                <div className="text-gray-400 space-y-0.5">
-                                    {renderDetails(catKey, e.details)}
-                                    {e.image && (
-                                        <img src={`data:image/jpeg;base64,${e.image}`} className="w-8 h-8 object-cover rounded mt-1 cursor-pointer hover:scale-150 transition-transform" />
-                                    )}
+                            );
+                        })}
+                        {slotPicker !== null && (
+                            <div 
+                                className="absolute left-2 right-2 z-30 bg-gray-900 border border-gray-700 rounded-lg p-2 shadow-2xl cursor-default"
+                                style={{ top: Math.min(slotPicker * pxPerMinute, 24 * TIMELINE_HOUR_PX - 140) }}
+                                onClick={e => e.stopPropagation()}
+                            >
+                                <div className="flex justify-between items-center mb-2 text-xs">
+                                    <span className="text-gray-400">Log something at <span className="font-mono text-white">{formatClock(slotPicker)}</span></span>
+                                    <button onClick={() => setSlotPicker(null)}><Icons.X className="w-4 h-4 text-gray-500 hover:text-white" /></button>
+                                </div>
+                                <div className="flex flex-wrap gap-1 max-h-28 overflow-y-auto custom-scrollbar">
+                                    {visibleGroups.flatMap(g => groups[g.key]).map(cat => {
+                                        const meta = getCategoryMeta(categories, cat);
+                                        return (
+                                            <button 
+                                                key={cat} 
+                                                onClick={() => {
+                                                    handleNewEntry(cat, formatClock(slotPicker));
+                                                    setSlotPicker(null);
+                                                }}
+                                                className="flex items-center gap-1 px-2 py-1 rounded bg-gray-800 hover:bg-gray-700 text-[10px]"
+                                            >
+                                                <span className={`p-0.5 rounded ${meta.color} text-white`}><IconComponent name={meta.icon} className="w-3 h-3" /></span>
+                                                {meta.label}
+                                            </button>
+                                        );
+                                    })}
                                 </div>
                             </div>
-                        ))
-                    )}
+                        )}
+                    </div>
+
+                    {/* Raw inputs of the day as annotations */}
+                    <div className="w-32 md:w-56 shrink-0 relative border-l border-gray-800 bg-gray-900/40" style={{ height: 24 * TIMELINE_HOUR_PX }}>
+                        {logs.map(({ log, minutes, top }) => (
+                            <div 
+                                key={log.id} 
+                                title={log.text}
+                                className="absolute left-1 right-1 text-[10px] text-indigo-200/80 bg-indigo-900/30 border-l-2 border-indigo-500/60 rounded-r px-1.5 py-0.5 line-clamp-2 hover:z-10 hover:line-clamp-none hover:bg-indigo-950"
+                                style={{ top }}
+                            >
+                                <span className="font-mono text-indigo-400 mr-1">{formatClock(minutes)}</span>
+                                {log.text}
+                            </div>
+                        ))}
+                    </div>
                 </div>
             </div>
         );
     };
 
+    const renderCategoryCards = () => visibleGroups.filter(g => groups[g.key].length > 0).map(g => (
+        <div key={g.key} className="animate-fade-in">
+            <h3 className="text-xs font-bold uppercase tracking-wider text-gray-600 mb-3 px-1">{g.label}</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 xl:grid-cols-5 gap-3">
+                {groups[g.key].map(cat => renderCard(cat))}
+            </div>
+        </div>
+    ));
+
     const viewModes: ('day' | 'week' | 'month')[] = ['day', 'week', 'month'];
 
     return (
@@ -688,17 +4216,826 @@ const DashboardView = ({
                  ) : (
                      // Default Dashboard Grids
                      <div className="space-y-6">
-                         {['life', 'body', 'work'].map(g => (
-                             <div key={g} className="animate-fade-in">
-                                 <h3 className="text-xs font-bold uppercase tracking-wider text-gray-600 mb-3 px-1">{g}</h3>
-                                 <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 xl:grid-cols-5 gap-3">
-                                     {groups[g as GroupKey].map(cat => renderCard(cat))}
+                         {budgetStatuses.length > 0 && renderBudgets()}
+                         {viewMode === 'month' && (
+                             <div className="flex flex-wrap items-center gap-2">
+                                 <div className="flex bg-gray-800 rounded-lg p-1 text-xs">
+                                     {([['calendar', 'Calendar'], ['year', 'Year'], ['cards', 'Cards']] as const).map(([layout, label]) => (
+                                         <button key={layout} onClick={() => setMonthLayout(layout)} className={`px-3 py-1 rounded ${monthLayout === layout ? 'bg-gray-700 text-white' : 'text-gray-500'}`}>
+                                             {label}
+                                         </button>
+                                     ))}
                                  </div>
+                                 {monthLayout === 'calendar' && (
+                                     <select 
+                                         value={heatmapMetric} 
+                                         onChange={e => setHeatmapMetric(e.target.value as HeatmapMetric)} 
+                                         className="bg-gray-800 border border-gray-700 rounded px-2 py-1.5 text-xs outline-none focus:border-blue-500"
+                                     >
+                                         {HEATMAP_METRICS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                                     </select>
+                                 )}
+                             </div>
+                         )}
+                         {viewMode === 'day' && (
+                             <div className="flex bg-gray-800 rounded-lg p-1 text-xs w-fit">
+                                 {([['timeline', 'Timeline'], ['cards', 'Cards']] as const).map(([layout, label]) => (
+                                     <button key={layout} onClick={() => setDayLayout(layout)} className={`px-3 py-1 rounded ${dayLayout === layout ? 'bg-gray-700 text-white' : 'text-gray-500'}`}>
+                                         {label}
+                                     </button>
+                                 ))}
+                             </div>
+                         )}
+                         {viewMode === 'day' 
+                             ? (dayLayout === 'timeline' ? renderDayTimeline() : renderCategoryCards())
+                             : viewMode === 'week' || monthLayout === 'cards' 
+                             ? renderCategoryCards() 
+                             : monthLayout === 'calendar' ? renderMonthCalendar() : renderYearHeatmap()}
+                     </div>
+                 )}
+             </div>
+
+             {lightboxImage && <ImageLightbox image={lightboxImage} onClose={() => setLightboxImage(null)} />}
+        </div>
+    );
+};
+
+// --- Ledger View Component ---
+
+interface LedgerViewProps {
+  entries: Entry[];
+  setEditingEntry: (entry: Entry) => void;
+  exchangeRates: ExchangeRate[];
+  setExchangeRates: React.Dispatch<React.SetStateAction<ExchangeRate[]>>;
+}
+
+type LedgerSortKey = 'date' | 'amount' | 'merchant' | 'payment';
+
+const LedgerView = ({ entries, setEditingEntry, exchangeRates, setExchangeRates }: LedgerViewProps) => {
+    const [period, setPeriod] = useState<'month' | 'year' | 'all'>('month');
+    const [anchor, setAnchor] = useState<Date>(new Date());
+    const [filters, setFilters] = useState({ tag: '', paymentMethod: '', merchant: '', type: '' });
+    const [sort, setSort] = useState<{ key: LedgerSortKey; desc: boolean }>({ key: 'date', desc: true });
+    const [showRates, setShowRates] = useState(false);
+
+    const allTransactions = useMemo(() => toLedgerTransactions(entries, exchangeRates), [entries, exchangeRates]);
+
+    const periodPrefix = period === 'month' ? formatDate(anchor).slice(0, 7) : period === 'year' ? formatDate(anchor).slice(0, 4) : '';
+    const periodLabel = period === 'all' ? 'All time' : periodPrefix;
+
+    const inPeriod = useMemo(() => allTransactions.filter(tx => tx.entry.date.startsWith(periodPrefix)), [allTransactions, periodPrefix]);
+
+    // Filter choices come from the whole ledger so they don't jump around between periods
+    const tagOptions = useMemo(() => Array.from(new Set(allTransactions.flatMap(tx => tx.tags))).sort(), [allTransactions]);
+    const paymentOptions = useMemo(() => Array.from(new Set(allTransactions.map(tx => tx.paymentMethod).filter(Boolean))).sort(), [allTransactions]);
+    const missingRates = useMemo(() => Array.from(new Set(allTransactions.filter(tx => tx.baseAmount === null).map(tx => tx.currency))), [allTransactions]);
+
+    const visible = useMemo(() => {
+        const merchant = filters.merchant.trim().toLowerCase();
+        const filtered = inPeriod.filter(tx =>
+            (!filters.tag || tx.tags.includes(filters.tag)) &&
+            (!filters.paymentMethod || tx.paymentMethod === filters.paymentMethod) &&
+            (!filters.type || tx.type === filters.type) &&
+            (!merchant || tx.merchant.toLowerCase().includes(merchant) || tx.entry.event.toLowerCase().includes(merchant))
+        );
+        const value = (tx: LedgerTransaction): string | number => {
+            switch (sort.key) {
+                case 'amount': return tx.baseAmount ?? tx.amount;
+                case 'merchant': return tx.merchant || tx.entry.event;
+                case 'payment': return tx.paymentMethod;
+                default: return `${tx.entry.date} ${tx.entry.details?.time || ''}`;
+            }
+        };
+        return [...filtered].sort((a, b) => {
+            const va = value(a), vb = value(b);
+            const cmp = typeof va === 'number' && typeof vb === 'number' ? va - vb : String(va).localeCompare(String(vb));
+            return sort.desc ? -cmp : cmp;
+        });
+    }, [inPeriod, filters, sort]);
+
+    const summary = summarizeLedger(visible);
+
+    // Income and expense per day (month view) or per month (year / all time)
+    const buckets = useMemo(() => {
+        const keyOf = (date: string) => period === 'month' ? date.slice(8, 10) : date.slice(0, 7);
+        const map = new Map<string, { income: number; expense: number }>();
+        if (period === 'month') {
+            const days = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0).getDate();
+            for (let d = 1; d <= days; d++) map.set(String(d).padStart(2, '0'), { income: 0, expense: 0 });
+        } else if (period === 'year') {
+            for (let m = 1; m <= 12; m++) map.set(`${periodPrefix}-${String(m).padStart(2, '0')}`, { income: 0, expense: 0 });
+        }
+        visible.forEach(tx => {
+            if (tx.baseAmount === null || tx.type === '转账') return;
+            const key = keyOf(tx.entry.date);
+            const bucket = map.get(key) || { income: 0, expense: 0 };
+            if (tx.baseAmount >= 0) bucket.income += tx.baseAmount;
+            else bucket.expense += -tx.baseAmount;
+            map.set(key, bucket);
+        });
+        return Array.from(map.entries()).sort(([a], [b]) => a.localeCompare(b));
+    }, [visible, period, anchor, periodPrefix]);
+
+    // Expenses with several tags are split evenly so the bars add up to the total
+    const tagTotals = useMemo(() => {
+        const totals: Record<string, number> = {};
+        visible.forEach(tx => {
+            if (tx.baseAmount === null || tx.type !== '支出') return;
+            (tx.tags.length ? tx.tags : ['—']).forEach(tag => { totals[tag] = (totals[tag] || 0) - tx.baseAmount! / (tx.tags.length || 1); });
+        });
+        return Object.entries(totals).sort((a, b) => b[1] - a[1]);
+    }, [visible]);
+
+    const shiftPeriod = (step: number) => {
+        const d = new Date(anchor);
+        if (period === 'month') d.setMonth(d.getMonth() + step, 1);
+        else d.setFullYear(d.getFullYear() + step);
+        setAnchor(d);
+    };
+
+    const toggleSort = (key: LedgerSortKey) => setSort(prev => ({ key, desc: prev.key === key ? !prev.desc : key !== 'merchant' && key !== 'payment' }));
+
+    const updateRate = (id: string, changes: Partial<ExchangeRate>) => {
+        setExchangeRates(prev => prev.map(r => r.id === id ? { ...r, ...changes } : r));
+    };
+
+    const renderSortHeader = (key: LedgerSortKey, label: string, className = '') => (
+        <th className={`px-2 py-2 font-medium ${className}`}>
+            <button onClick={() => toggleSort(key)} className="inline-flex items-center gap-1 hover:text-gray-200">
+                {label}
+                {sort.key === key 
+                    ? (sort.desc ? <Icons.ArrowDown className="w-3 h-3" /> : <Icons.ArrowUp className="w-3 h-3" />) 
+                    : <Icons.ArrowUpDown className="w-3 h-3 opacity-30" />}
+            </button>
+        </th>
+    );
+
+    const renderBarChart = () => {
+        const max = Math.max(1, ...buckets.map(([, b]) => Math.max(b.income, b.expense)));
+        const width = 600, height = 160, mid = height / 2;
+        const step = width / Math.max(1, buckets.length);
+        const barWidth = Math.max(2, step * 0.7);
+        return (
+            <svg viewBox={`0 0 ${width} ${height + 14}`} className="w-full h-44">
+                <line x1={0} x2={width} y1={mid} y2={mid} stroke="#374151" strokeWidth={1} />
+                {buckets.map(([key, b], i) => {
+                    const x = i * step + (step - barWidth) / 2;
+                    const up = (b.income / max) * (mid - 4);
+                    const down = (b.expense / max) * (mid - 4);
+                    const showLabel = buckets.length <= 12 || i % 5 === 0;
+                    return (
+                        <g key={key}>
+                            <title>{`${key}  +${b.income.toFixed(2)} / -${b.expense.toFixed(2)} ${BASE_CURRENCY}`}</title>
+                            {up > 0 && <rect x={x} y={mid - up} width={barWidth} height={up} rx={1} fill="#34d399" />}
+                            {down > 0 && <rect x={x} y={mid} width={barWidth} height={down} rx={1} fill="#f87171" />}
+                            {showLabel && (
+                                <text x={x + barWidth / 2} y={height + 12} textAnchor="middle" fontSize={9} fill="#6b7280">
+                                    {period === 'month' ? key : key.slice(period === 'year' ? 5 : 2)}
+                                </text>
+                            )}
+                        </g>
+                    );
+                })}
+            </svg>
+        );
+    };
+
+    const selectClass = "bg-gray-800 border border-gray-700 rounded px-2 py-1.5 text-xs outline-none focus:border-blue-500";
+
+    return (
+        <div className="space-y-6 pb-32 md:pb-20">
+             {/* Header */}
+             <div className="flex flex-col md:flex-row items-stretch md:items-center justify-between bg-gray-900/80 p-3 md:p-4 rounded-2xl border border-gray-800 backdrop-blur-sm sticky top-0 z-30 gap-3">
+                <div className="flex items-center gap-2 md:gap-4 justify-between">
+                    <div className="flex bg-gray-800 rounded-lg p-1">
+                        <button onClick={() => shiftPeriod(-1)} disabled={period === 'all'} className="p-2 md:p-1 hover:bg-gray-700 rounded text-gray-400 disabled:opacity-30"><Icons.ChevronLeft className="w-4 h-4"/></button>
+                        <div className="px-2 md:px-3 py-1 min-w-[100px] md:min-w-[120px] text-center font-mono text-sm flex items-center justify-center">
+                             {periodLabel}
+                        </div>
+                        <button onClick={() => shiftPeriod(1)} disabled={period === 'all'} className="p-2 md:p-1 hover:bg-gray-700 rounded text-gray-400 disabled:opacity-30"><Icons.ChevronRight className="w-4 h-4"/></button>
+                    </div>
+                    <div className="flex bg-gray-800 rounded-lg p-1 text-xs">
+                        {(['month', 'year', 'all'] as const).map(p => (
+                            <button key={p} onClick={() => setPeriod(p)} className={`px-2 md:px-3 py-1 rounded capitalize ${period === p ? 'bg-gray-700 text-white' : 'text-gray-500'}`}>
+                                {p}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <button 
+                    onClick={() => setShowRates(!showRates)} 
+                    className={`flex items-center justify-center gap-2 px-4 py-2 rounded-lg border text-xs transition-colors font-medium ${
+                        showRates 
+                        ? 'bg-blue-600 border-blue-500 text-white shadow-lg shadow-blue-900/20' 
+                        : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700'
+                    }`}
+                >
+                    <Icons.ArrowLeftRight className="w-4 h-4" />
+                    <span>Exchange Rates</span>
+                    {missingRates.length > 0 && <Icons.AlertTriangle className="w-3 h-3 text-amber-400" />}
+                </button>
+             </div>
+
+             {showRates && (
+                 <div className="bg-gray-900/50 border border-gray-800 rounded-2xl p-4 animate-fade-in space-y-3">
+                     <div className="flex justify-between items-center">
+                         <div>
+                             <h3 className="text-sm font-bold text-gray-200">Exchange Rates</h3>
+                             <p className="text-[10px] text-gray-500">{BASE_CURRENCY} per unit. A rate applies from its date until the next rate of that currency.</p>
+                         </div>
+                         <button 
+                             onClick={() => setExchangeRates(prev => [...prev, { id: Math.random().toString(36).substr(2, 9), currency: missingRates[0] || 'USD', rate: 1, effectiveDate: formatDate(new Date()) }])}
+                             className="flex items-center gap-1 text-xs px-3 py-1.5 rounded bg-gray-800 border border-gray-700 hover:bg-gray-700 text-gray-300"
+                         >
+                             <Icons.Plus className="w-3 h-3" /> Add Rate
+                         </button>
+                     </div>
+                     {missingRates.length > 0 && (
+                         <div className="text-xs text-amber-300 bg-amber-900/20 border border-amber-700/50 rounded p-2">
+                             No rate for {missingRates.join(', ')}. These amounts are left out of the {BASE_CURRENCY} totals.
+                         </div>
+                     )}
+                     <div className="space-y-2">
+                         {[...exchangeRates].sort((a, b) => a.currency.localeCompare(b.currency) || b.effectiveDate.localeCompare(a.effectiveDate)).map(rate => (
+                             <div key={rate.id} className="flex items-center gap-2 text-xs">
+                                 <input 
+                                     value={rate.currency} 
+                                     onChange={e => updateRate(rate.id, { currency: e.target.value.toUpperCase().trim() })} 
+                                     className={`${selectClass} w-20 font-mono`} 
+                                     maxLength={3} 
+                                 />
+                                 <input 
+                                     type="number" 
+                                     step="any" 
+                                     min={0}
+                                     value={rate.rate} 
+                                     onChange={e => updateRate(rate.id, { rate: Number(e.target.value) })} 
+                                     className={`${selectClass} w-28 font-mono`} 
+                                 />
+                                 <input 
+                                     type="date" 
+                                     value={rate.effectiveDate} 
+                                     onChange={e => e.target.value && updateRate(rate.id, { effectiveDate: e.target.value })} 
+                                     className={selectClass} 
+                                 />
+                                 <button onClick={() => setExchangeRates(prev => prev.filter(r => r.id !== rate.id))} className="p-1.5 text-gray-500 hover:text-red-400">
+                                     <Icons.Trash2 className="w-3.5 h-3.5" />
+                                 </button>
                              </div>
                          ))}
                      </div>
+                 </div>
+             )}
+
+             {/* Totals */}
+             <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                 {[
+                     { label: 'Income', value: summary.income, icon: 'TrendingUp', color: 'text-emerald-400' },
+                     { label: 'Expense', value: summary.expense, icon: 'TrendingDown', color: 'text-red-400' },
+                     { label: 'Net', value: summary.income + summary.expense, icon: 'Wallet', color: summary.income + summary.expense >= 0 ? 'text-emerald-300' : 'text-red-300' },
+                     { label: 'Transfers', value: summary.transfers, icon: 'ArrowLeftRight', color: 'text-gray-300' },
+                 ].map(card => (
+                     <div key={card.label} className="bg-gray-900/50 border border-gray-800 rounded-xl p-3">
+                         <div className="text-[10px] uppercase text-gray-500 flex items-center gap-1 mb-1">
+                             <IconComponent name={card.icon} className="w-3 h-3" /> {card.label}
+                         </div>
+                         <div className={`font-mono font-bold text-sm md:text-base ${card.color}`}>{formatMoney(card.value)}</div>
+                     </div>
+                 ))}
+             </div>
+             {Object.keys(summary.unconverted).length > 0 && (
+                 <div className="text-xs text-amber-300 -mt-3">
+                     Not converted: {Object.entries(summary.unconverted).map(([cur, amount]) => formatMoney(amount, cur)).join(' · ')}
+                 </div>
+             )}
+
+             {/* Charts */}
+             <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                 <div className="md:col-span-2 bg-gray-900/50 border border-gray-800 rounded-xl p-3">
+                     <div className="text-[10px] uppercase text-gray-500 mb-2 flex items-center gap-1">
+                         <Icons.BarChart3 className="w-3 h-3" /> {period === 'month' ? 'Daily' : 'Monthly'} income / expense ({BASE_CURRENCY})
+                     </div>
+                     {buckets.length ? renderBarChart() : <div className="h-44 flex items-center justify-center text-gray-700 text-xs italic">No transactions</div>}
+                 </div>
+                 <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-3">
+                     <div className="text-[10px] uppercase text-gray-500 mb-2 flex items-center gap-1">
+                         <Icons.PieChart className="w-3 h-3" /> Expense by tag
+                     </div>
+                     <div className="space-y-1.5 max-h-44 overflow-y-auto custom-scrollbar">
+                         {tagTotals.length === 0 && <div className="text-gray-700 text-xs italic py-8 text-center">No expenses</div>}
+                         {tagTotals.map(([tag, total]) => (
+                             <button 
+                                 key={tag} 
+                                 onClick={() => tag !== '—' && setFilters({ ...filters, tag: filters.tag === tag ? '' : tag })}
+                                 className={`w-full text-left text-xs ${filters.tag === tag ? 'text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                             >
+                                 <div className="flex justify-between mb-0.5">
+                                     <span>{tag}</span>
+                                     <span className="font-mono">{total.toFixed(2)}</span>
+                                 </div>
+                                 <div className="h-1.5 bg-gray-800 rounded">
+                                     <div className="h-full bg-red-400/70 rounded" style={{ width: `${(total / tagTotals[0][1]) * 100}%` }} />
+                                 </div>
+                             </button>
+                         ))}
+                     </div>
+                 </div>
+             </div>
+
+             {/* Filters */}
+             <div className="flex flex-wrap items-center gap-2">
+                 <Icons.Filter className="w-4 h-4 text-gray-500" />
+                 <select value={filters.type} onChange={e => setFilters({ ...filters, type: e.target.value })} className={selectClass}>
+                     <option value="">All types</option>
+                     {['支出', '收入', '转账'].map(t => <option key={t} value={t}>{t}</option>)}
+                 </select>
+                 <select value={filters.tag} onChange={e => setFilters({ ...filters, tag: e.target.value })} className={selectClass}>
+                     <option value="">All tags</option>
+                     {tagOptions.map(t => <option key={t} value={t}>{t}</option>)}
+                 </select>
+                 <select value={filters.paymentMethod} onChange={e => setFilters({ ...filters, paymentMethod: e.target.value })} className={selectClass}>
+                     <option value="">All payment methods</option>
+                     {paymentOptions.map(p => <option key={p} value={p}>{p}</option>)}
+                 </select>
+                 <input 
+                     value={filters.merchant} 
+                     onChange={e => setFilters({ ...filters, merchant: e.target.value })} 
+                     placeholder="Merchant or title..." 
+                     className={`${selectClass} flex-1 min-w-[140px]`} 
+                 />
+                 {(filters.tag || filters.paymentMethod || filters.merchant || filters.type) && (
+                     <button onClick={() => setFilters({ tag: '', paymentMethod: '', merchant: '', type: '' })} className="text-xs text-gray-500 hover:text-white px-2">Clear</button>
                  )}
              </div>
+
+             {/* Transactions */}
+             <div className="bg-gray-900/50 border border-gray-800 rounded-xl overflow-x-auto">
+                 <table className="w-full text-xs">
+                     <thead className="text-gray-500 text-left border-b border-gray-800">
+                         <tr>
+                             {renderSortHeader('date', 'Date')}
+                             {renderSortHeader('merchant', 'Merchant / Title')}
+                             <th className="px-2 py-2 font-medium">Tags</th>
+                             {renderSortHeader('payment', 'Payment')}
+                             {renderSortHeader('amount', 'Amount', 'text-right')}
+                             <th className="px-2 py-2 font-medium text-right">{BASE_CURRENCY}</th>
+                         </tr>
+                     </thead>
+                     <tbody>
+                         {visible.length === 0 ? (
+                             <tr><td colSpan={6} className="text-center py-10 text-gray-600 italic">No transactions for this period.</td></tr>
+                         ) : visible.map(tx => (
+                             <tr key={tx.entry.id} onClick={() => setEditingEntry(tx.entry)} className="border-b border-gray-800/50 hover:bg-gray-800/60 cursor-pointer">
+                                 <td className="px-2 py-2 font-mono text-gray-400 whitespace-nowrap">{tx.entry.date}</td>
+                                 <td className="px-2 py-2 text-gray-200">
+                                     {tx.entry.recurringRuleId && <Icons.Repeat className="w-3 h-3 text-emerald-400 inline mr-1" />}
+                                     {tx.merchant || tx.entry.event}
+                                     {tx.merchant && <span className="text-gray-500 ml-1">· {tx.entry.event}</span>}
+                                 </td>
+                                 <td className="px-2 py-2">
+                                     <div className="flex flex-wrap gap-1">{tx.tags.map(t => <span key={t} className="bg-gray-700 px-1 rounded text-[10px]">{t}</span>)}</div>
+                                 </td>
+                                 <td className="px-2 py-2 text-gray-400">{tx.paymentMethod}</td>
+                                 <td className={`px-2 py-2 font-mono text-right whitespace-nowrap ${tx.type === '转账' ? 'text-gray-400' : tx.amount >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                                     {formatMoney(tx.amount, tx.currency)}
+                                 </td>
+                                 <td className="px-2 py-2 font-mono text-right whitespace-nowrap text-gray-300">
+                                     {tx.baseAmount === null ? <span className="text-amber-400" title="No exchange rate">?</span> : tx.currency === BASE_CURRENCY ? '' : tx.baseAmount.toFixed(2)}
+                                 </td>
+                             </tr>
+                         ))}
+                     </tbody>
+                 </table>
+             </div>
+        </div>
+    );
+};
+
+// --- Trends View Component ---
+
+interface TrendsViewProps {
+  entries: Entry[];
+  profile: UserProfile;
+  customSchemas: Record<string, FieldSchema[]>;
+  setEditingEntry: (entry: Entry) => void;
+}
+
+type TrendRange = 30 | 90 | 365 | 0; // Days, 0 = everything recorded
+
+const TrendsView = ({ entries, profile, customSchemas, setEditingEntry }: TrendsViewProps) => {
+    const [range, setRange] = useState<TrendRange>(90);
+
+    const weights = useMemo(() => dailySeries(entries, 'weight', 'value'), [entries]);
+    const fatRates = useMemo(() => dailySeries(entries, 'weight', 'fat_rate'), [entries]);
+    const sleepEntries = useMemo(() => entries.filter(e => e.category === 'sleep'), [entries]);
+
+    const toDay = dayNumber(formatDate(new Date()));
+    const fromDay = range === 0 
+        ? Math.min(toDay, weights[0]?.day ?? toDay, fatRates[0]?.day ?? toDay, ...sleepEntries.map(e => dayNumber(e.date))) 
+        : toDay - range + 1;
+
+    const sleepTarget = profile.sleepTargetHours || DEFAULT_SLEEP_TARGET;
+    const sleep = useMemo(
+        () => summarizeSleep(sleepEntries.filter(e => dayNumber(e.date) >= fromDay && dayNumber(e.date) <= toDay), sleepTarget),
+        [sleepEntries, fromDay, toDay, sleepTarget]
+    );
+    const qualityOrder = customSchemas.sleep?.find(f => f.key === 'quality')?.options || [];
+
+    const [cycleMonth, setCycleMonth] = useState(() => new Date());
+    const cycle = useMemo(() => summarizeCycles(entries, formatDate(new Date())), [entries]);
+    const cycleMarks = useMemo(() => cycleCalendarMarks(cycle), [cycle]);
+
+    const latest = weights[weights.length - 1];
+    const bmi = latest && profile.heightCm ? computeBMI(latest.value, profile.heightCm) : null;
+    const projection = profile.weightGoal ? projectGoal(weights, profile.weightGoal) : null;
+    const inRange = weights.filter(p => p.day >= fromDay);
+    const change = inRange.length > 1 ? Math.round((inRange[inRange.length - 1].value - inRange[0].value) * 100) / 100 : null;
+    const average7 = latest ? movingAverage(weights, 7, toDay, toDay)[0]?.value : undefined;
+
+    const renderChart = (points: BodyPoint[], unit: string, color: string, goal?: number) => {
+        const visible = points.filter(p => p.day >= fromDay && p.day <= toDay);
+        if (visible.length === 0) {
+            return <div className="h-48 flex items-center justify-center text-sm text-gray-600 italic">No data in this range.</div>;
+        }
+        const ma7 = movingAverage(points, 7, fromDay, toDay);
+        const ma30 = movingAverage(points, 30, fromDay, toDay);
+        const values = [...visible.map(p => p.value), ...ma7.map(p => p.value), ...ma30.map(p => p.value), ...(goal ? [goal] : [])];
+        const pad = Math.max(0.5, (Math.max(...values) - Math.min(...values)) * 0.1);
+        const min = Math.min(...values) - pad, max = Math.max(...values) + pad;
+
+        const width = 600, height = 180, left = 34, top = 6, bottom = 16;
+        const x = (day: number) => left + (day - fromDay) / Math.max(1, toDay - fromDay) * (width - left - 6);
+        const y = (value: number) => top + (max - value) / (max - min) * (height - top - bottom);
+        // Consecutive days are joined, a missing day starts a new segment
+        const path = (series: { day: number; value: number }[]) => series
+            .map((p, i) => `${i > 0 && p.day - series[i - 1].day === 1 ? 'L' : 'M'}${x(p.day).toFixed(1)},${y(p.value).toFixed(1)}`)
+            .join(' ');
+        const ticks = [0, 1, 2, 3].map(i => min + (max - min) * i / 3);
+        const labelEvery = Math.max(1, Math.ceil((toDay - fromDay) / 6));
+
+        return (
+            <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-52">
+                {ticks.map(t => (
+                    <g key={t}>
+                        <line x1={left} x2={width} y1={y(t)} y2={y(t)} stroke="#1f2937" strokeWidth={1} />
+                        <text x={left - 4} y={y(t) + 3} textAnchor="end" fontSize={9} fill="#6b7280">{t.toFixed(1)}</text>
+                    </g>
+                ))}
+                {Array.from({ length: 7 }, (_, i) => fromDay + i * labelEvery).filter(d => d <= toDay).map(d => (
+                    <text key={d} x={x(d)} y={height - 3} textAnchor="middle" fontSize={9} fill="#6b7280">{dayToDate(d).slice(5)}</text>
+                ))}
+                {goal !== undefined && (
+                    <g>
+                        <line x1={left} x2={width} y1={y(goal)} y2={y(goal)} stroke="#34d399" strokeWidth={1} strokeDasharray="6 4" />
+                        <text x={width - 4} y={y(goal) - 3} textAnchor="end" fontSize={9} fill="#34d399">goal {goal}{unit}</text>
+                    </g>
+                )}
+                <path d={path(visible)} fill="none" stroke={color} strokeWidth={1} strokeOpacity={0.5} />
+                <path d={path(ma30)} fill="none" stroke="#9ca3af" strokeWidth={1.5} strokeDasharray="4 3" />
+                <path d={path(ma7)} fill="none" stroke={color} strokeWidth={2} />
+                {visible.map(p => (
+                    <circle 
+                        key={p.date} 
+                        cx={x(p.day)} 
+                        cy={y(p.value)} 
+                        r={3.5} 
+                        fill={color} 
+                        stroke="#111827" 
+                        strokeWidth={1} 
+                        className="cursor-pointer hover:opacity-70"
+                        onClick={() => setEditingEntry(p.entry)}
+                    >
+                        <title>{`${p.date}  ${p.value}${unit}${unit === 'kg' && profile.heightCm ? `  BMI ${computeBMI(p.value, profile.heightCm)}` : ''}`}</title>
+                    </circle>
+                ))}
+            </svg>
+        );
+    };
+
+    const renderLegend = (color: string, goal: boolean) => (
+        <div className="flex flex-wrap gap-4 text-[10px] text-gray-500">
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full" style={{ background: color }} /> Daily</span>
+            <span className="flex items-center gap-1"><span className="w-4 h-0.5" style={{ background: color }} /> 7-day avg</span>
+            <span className="flex items-center gap-1"><span className="w-4 border-t border-dashed border-gray-400" /> 30-day avg</span>
+            {goal && <span className="flex items-center gap-1"><span className="w-4 border-t border-dashed border-emerald-400" /> Goal</span>}
+            <span className="ml-auto">Click a point to edit its entry</span>
+        </div>
+    );
+
+    const renderSleepWeeks = () => {
+        const width = 600, height = 140, left = 34, bottom = 16;
+        const max = Math.max(sleepTarget + 1, ...sleep.weeks.map(w => w.averageHours));
+        const y = (hours: number) => (height - bottom) - hours / max * (height - bottom - 6);
+        const step = (width - left) / Math.max(1, sleep.weeks.length);
+        const barWidth = Math.min(40, Math.max(4, step * 0.6));
+        const showEvery = Math.ceil(sleep.weeks.length / 12);
+        return (
+            <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-36">
+                {[0, Math.round(max / 2), Math.floor(max)].map(t => (
+                    <text key={t} x={left - 4} y={y(t) + 3} textAnchor="end" fontSize={9} fill="#6b7280">{t}h</text>
+                ))}
+                {sleep.weeks.map((w, i) => {
+                    const x = left + i * step + (step - barWidth) / 2;
+                    return (
+                        <g key={w.start}>
+                            <title>{`Week of ${w.start}: ${w.averageHours}h over ${w.nights} nights`}</title>
+                            <rect x={x} y={y(w.averageHours)} width={barWidth} height={y(0) - y(w.averageHours)} rx={2} fill={w.averageHours >= sleepTarget ? '#818cf8' : '#6366f1'} fillOpacity={w.averageHours >= sleepTarget ? 1 : 0.6} />
+                            {i % showEvery === 0 && (
+                                <text x={x + barWidth / 2} y={height - 3} textAnchor="middle" fontSize={9} fill="#6b7280">{w.start.slice(5)}</text>
+                            )}
+                        </g>
+                    );
+                })}
+                <line x1={left} x2={width} y1={y(sleepTarget)} y2={y(sleepTarget)} stroke="#34d399" strokeWidth={1} strokeDasharray="6 4" />
+                <text x={width - 4} y={y(sleepTarget) - 3} textAnchor="end" fontSize={9} fill="#34d399">target {sleepTarget}h</text>
+            </svg>
+        );
+    };
+
+    const renderSleepPanel = () => {
+        const qualities = Array.from(new Set([...qualityOrder, ...Object.keys(sleep.quality).filter(Boolean)])).filter(q => sleep.quality[q]);
+        if (sleep.quality['']) qualities.push('');
+        const qualityColors = ['bg-emerald-500', 'bg-sky-500', 'bg-amber-500', 'bg-red-500', 'bg-purple-500', 'bg-pink-500'];
+        return (
+            <div className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4">
+                        <div className="text-xs text-gray-500 mb-1">Average sleep</div>
+                        <div className="text-xl font-mono text-gray-100">{sleep.averageHours !== null ? `${sleep.averageHours} h` : '—'}</div>
+                        <div className="text-[10px] text-gray-600 mt-1">{sleep.measured} nights measured</div>
+                    </div>
+                    <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4">
+                        <div className="text-xs text-gray-500 mb-1">Bedtime</div>
+                        <div className="text-xl font-mono text-gray-100">{sleep.averageBedtime !== null ? formatClock(sleep.averageBedtime) : '—'}</div>
+                        <div className={`text-[10px] mt-1 ${sleep.bedtimeSpread === null ? 'text-gray-600' : sleep.bedtimeSpread <= 30 ? 'text-emerald-400' : sleep.bedtimeSpread <= 60 ? 'text-amber-400' : 'text-red-400'}`}>
+                            {sleep.bedtimeSpread !== null ? `± ${sleep.bedtimeSpread} min consistency` : 'Needs two bedtimes'}
+                        </div>
+                    </div>
+                    <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4">
+                        <div className="text-xs text-gray-500 mb-1">Sleep debt</div>
+                        <div className={`text-xl font-mono ${sleep.debtHours > 0 ? 'text-amber-400' : 'text-emerald-400'}`}>
+                            {sleep.measured ? `${sleep.debtHours > 0 ? '' : '+'}${Math.abs(sleep.debtHours)} h` : '—'}
+                        </div>
+                        <div className="text-[10px] text-gray-600 mt-1">{sleep.debtHours > 0 ? 'Short of' : 'Against'} {sleepTarget}h a night</div>
+                    </div>
+                    <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4">
+                        <div className="text-xs text-gray-500 mb-1">Quality</div>
+                        {sleep.nights.length > 0 ? (
+                            <>
+                                <div className="flex h-2 rounded overflow-hidden mt-2">
+                                    {qualities.map((q, i) => (
+                                        <div key={q} className={q ? qualityColors[i % qualityColors.length] : 'bg-gray-700'} style={{ width: `${sleep.quality[q] / sleep.nights.length * 100}%` }} title={`${q || 'Not recorded'}: ${sleep.quality[q]}`} />
+                                    ))}
+                                </div>
+                                <div className="flex flex-wrap gap-x-2 text-[10px] text-gray-500 mt-2">
+                                    {qualities.map(q => <span key={q}>{q || 'n/a'} {sleep.quality[q]}</span>)}
+                                </div>
+                            </>
+                        ) : <div className="text-[10px] text-gray-600 mt-1">No nights recorded</div>}
+                    </div>
+                </div>
+
+                <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4 space-y-2">
+                    <h3 className="text-sm font-bold text-gray-300">Weekly average</h3>
+                    {sleep.weeks.length > 0 ? renderSleepWeeks() : <div className="h-24 flex items-center justify-center text-sm text-gray-600 italic">No data in this range.</div>}
+                </div>
+
+                {sleep.flagged.length > 0 && (
+                    <div className="bg-amber-900/10 border border-amber-700/40 rounded-xl p-4 space-y-2">
+                        <h3 className="text-sm font-bold text-amber-300 flex items-center gap-2">
+                            <Icons.AlertTriangle className="w-4 h-4" /> {sleep.flagged.length} nights could not be measured
+                        </h3>
+                        <div className="space-y-1">
+                            {sleep.flagged.map(n => (
+                                <button key={n.entry.id} onClick={() => setEditingEntry(n.entry)} className="w-full flex gap-3 text-left text-xs px-2 py-1 rounded hover:bg-gray-800">
+                                    <span className="font-mono text-gray-500">{n.entry.date}</span>
+                                    <span className="text-gray-300 flex-1">{n.problem}</span>
+                                    <Icons.Pencil className="w-3 h-3 text-blue-400" />
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    const renderCycleCalendar = () => {
+        const year = cycleMonth.getFullYear(), month = cycleMonth.getMonth();
+        const firstWeekday = (new Date(year, month, 1).getDay() + 6) % 7; // Monday first
+        const daysInMonth = new Date(year, month + 1, 0).getDate();
+        const today = formatDate(new Date());
+        const markClass: Record<CycleMark, string> = {
+            period: 'bg-rose-600 text-white',
+            predicted: 'border border-dashed border-rose-400 text-rose-300',
+            fertile: 'bg-teal-900/50 text-teal-300',
+            ovulation: 'bg-teal-600 text-white'
+        };
+        return (
+            <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                    <button onClick={() => setCycleMonth(new Date(year, month - 1, 1))} className="p-1 hover:bg-gray-800 rounded text-gray-400"><Icons.ChevronLeft className="w-4 h-4" /></button>
+                    <span className="font-mono text-sm">{formatDate(cycleMonth).slice(0, 7)}</span>
+                    <button onClick={() => setCycleMonth(new Date(year, month + 1, 1))} className="p-1 hover:bg-gray-800 rounded text-gray-400"><Icons.ChevronRight className="w-4 h-4" /></button>
+                </div>
+                <div className="grid grid-cols-7 gap-1 text-center text-xs">
+                    {['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'].map(d => <div key={d} className="text-[10px] text-gray-600 pb-1">{d}</div>)}
+                    {Array.from({ length: firstWeekday }, (_, i) => <div key={`pad-${i}`} />)}
+                    {Array.from({ length: daysInMonth }, (_, i) => {
+                        const date = formatDate(new Date(year, month, i + 1));
+                        const mark = cycleMarks.get(date);
+                        const recorded = entries.find(e => e.category === 'physiology' && e.date === date);
+                        return (
+                            <button 
+                                key={date}
+                                onClick={() => recorded && setEditingEntry(recorded)}
+                                title={recorded ? `${date}: ${recorded.details?.status || recorded.event}` : mark ? `${date}: ${mark}` : date}
+                                className={`h-9 rounded flex flex-col items-center justify-center font-mono ${mark ? markClass[mark] : 'text-gray-500'} ${date === today ? 'ring-1 ring-blue-400' : ''} ${recorded ? 'cursor-pointer hover:opacity-80' : 'cursor-default'}`}
+                            >
+                                {i + 1}
+                                {recorded && <span className="w-1 h-1 rounded-full bg-current" />}
+                            </button>
+                        );
+                    })}
+                </div>
+                <div className="flex flex-wrap gap-3 text-[10px] text-gray-500">
+                    <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-rose-600" /> Period</span>
+                    <span className="flex items-center gap-1"><span className="w-3 h-3 rounded border border-dashed border-rose-400" /> Predicted</span>
+                    <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-teal-900/50" /> Fertile window</span>
+                    <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-teal-600" /> Ovulation (est.)</span>
+                    <span className="ml-auto">Predictions are estimates and are not saved</span>
+                </div>
+            </div>
+        );
+    };
+
+    const renderCyclePanel = () => {
+        if (cycle.periods.length === 0) {
+            return <div className="text-sm text-gray-600 italic">No periods recorded yet. Log 开始 / 结束 in 生理期 entries to see cycles.</div>;
+        }
+        const prediction = cycle.prediction;
+        const daysUntil = prediction ? dayNumber(prediction.periods[0].start) - dayNumber(formatDate(new Date())) : null;
+        const notes = cycle.periods.filter(p => p.startInferred || (!p.endRecorded && !p.ongoing));
+        return (
+            <div className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4">
+                        <div className="text-xs text-gray-500 mb-1">Cycle length</div>
+                        <div className="text-xl font-mono text-gray-100">{cycle.averageCycle !== null ? `${cycle.averageCycle} d` : '—'}</div>
+                        <div className="text-[10px] text-gray-600 mt-1">
+                            {cycle.cycles.length ? `Typical ${cycle.typicalCycle} d${cycle.variation !== null ? ` · varies ${cycle.variation} d` : ''}` : 'Needs two periods'}
+                        </div>
+                    </div>
+                    <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4">
+                        <div className="text-xs text-gray-500 mb-1">Period length</div>
+                        <div className="text-xl font-mono text-gray-100">{cycle.averagePeriod !== null ? `${cycle.averagePeriod} d` : '—'}</div>
+                        <div className="text-[10px] text-gray-600 mt-1">{cycle.averagePeriod !== null ? 'From recorded ends' : 'Log 结束 to measure'}</div>
+                    </div>
+                    <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4">
+                        <div className="text-xs text-gray-500 mb-1">Next period</div>
+                        {prediction && (
+                            <>
+                                <div className="text-xl font-mono text-rose-300">{prediction.periods[0].start.slice(5)}</div>
+                                <div className={`text-[10px] mt-1 ${prediction.daysLate > 0 ? 'text-amber-400' : 'text-gray-600'}`}>
+                                    {prediction.daysLate > 0 ? `${prediction.daysLate} days late` : cycle.periods[cycle.periods.length - 1].ongoing ? 'Period ongoing' : `In ${daysUntil} days`}
+                                    {prediction.basis === 'default' ? ' · assumes 28 d' : ''}
+                                </div>
+                            </>
+                        )}
+                    </div>
+                    <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4">
+                        <div className="text-xs text-gray-500 mb-1">Fertile window</div>
+                        {prediction?.fertile ? (
+                            <>
+                                <div className="text-xl font-mono text-teal-300">{prediction.fertile.start.slice(5)} – {prediction.fertile.end.slice(5)}</div>
+                                <div className="text-[10px] text-gray-600 mt-1">Ovulation around {prediction.fertile.ovulation.slice(5)}</div>
+                            </>
+                        ) : <div className="text-[10px] text-gray-600 mt-1">Unavailable while late</div>}
+                    </div>
+                </div>
+
+                {(cycle.irregular || notes.length > 0) && (
+                    <div className="bg-amber-900/10 border border-amber-700/40 rounded-xl p-4 space-y-1 text-xs">
+                        {cycle.irregular && (
+                            <div className="text-amber-300 font-bold flex items-center gap-2 mb-1">
+                                <Icons.AlertTriangle className="w-4 h-4" /> Irregular cycles
+                                {cycle.variation !== null && cycle.variation > IRREGULAR_VARIATION && <span className="font-normal text-amber-200/70">recent cycles vary by {cycle.variation} days</span>}
+                            </div>
+                        )}
+                        {cycle.cycles.filter(c => c.irregular).slice(-RECENT_CYCLES).map(c => (
+                            <div key={c.start} className="text-amber-200/80"><span className="font-mono text-gray-500 mr-2">{c.start}</span>{c.irregular}</div>
+                        ))}
+                        {notes.map(p => (
+                            <div key={p.start} className="text-gray-400">
+                                <span className="font-mono text-gray-500 mr-2">{p.start}</span>
+                                {[p.startInferred && 'start inferred from a flow entry', !p.endRecorded && !p.ongoing && 'no 结束 recorded'].filter(Boolean).join(', ')}
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div className="grid md:grid-cols-2 gap-4">
+                    {renderCycleCalendar()}
+                    <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4">
+                        <h4 className="text-sm font-bold text-gray-300 mb-2">Recent cycles</h4>
+                        <table className="w-full text-xs">
+                            <thead className="text-gray-500 text-left">
+                                <tr>
+                                    <th className="py-1 font-medium">Start</th>
+                                    <th className="py-1 font-medium text-right">Cycle</th>
+                                    <th className="py-1 font-medium text-right">Period</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {[...cycle.cycles].reverse().slice(0, 12).map(c => (
+                                    <tr key={c.start} className="border-t border-gray-800">
+                                        <td className="py-1.5 font-mono text-gray-400">{c.start}</td>
+                                        <td className={`py-1.5 font-mono text-right ${c.irregular ? 'text-amber-400' : 'text-gray-300'}`} title={c.irregular}>{c.length} d</td>
+                                        <td className="py-1.5 font-mono text-right text-gray-400">{c.periodLength !== null ? `${c.periodLength} d` : '—'}</td>
+                                    </tr>
+                                ))}
+                                {cycle.cycles.length === 0 && (
+                                    <tr><td colSpan={3} className="py-4 text-center text-gray-600 italic">Needs two periods</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div className="space-y-6 pb-32 md:pb-20">
+             {/* Header */}
+             <div className="flex items-center justify-between bg-gray-900/80 p-3 md:p-4 rounded-2xl border border-gray-800 backdrop-blur-sm sticky top-0 z-30 gap-3">
+                <h2 className="text-lg font-bold flex items-center gap-2"><Icons.TrendingUp className="w-5 h-5 text-blue-400" /> Trends</h2>
+                <div className="flex bg-gray-800 rounded-lg p-1 text-xs">
+                    {([[30, '30d'], [90, '90d'], [365, '1y'], [0, 'All']] as [TrendRange, string][]).map(([r, label]) => (
+                        <button key={r} onClick={() => setRange(r)} className={`px-3 py-1 rounded ${range === r ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-gray-200'}`}>{label}</button>
+                    ))}
+                </div>
+             </div>
+
+             <h3 className="text-base font-bold text-gray-300 flex items-center gap-2"><Icons.Scale className="w-4 h-4 text-lime-500" /> Body</h3>
+             <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                 <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4">
+                     <div className="text-xs text-gray-500 mb-1">Latest</div>
+                     <div className="text-xl font-mono text-gray-100">{latest ? `${latest.value} kg` : '—'}</div>
+                     <div className="text-[10px] text-gray-600 mt-1">{latest?.date || 'No weigh-ins yet'}{average7 !== undefined ? ` · 7d avg ${average7}` : ''}</div>
+                 </div>
+                 <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4">
+                     <div className="text-xs text-gray-500 mb-1">Change in range</div>
+                     <div className={`text-xl font-mono ${change === null ? 'text-gray-600' : change > 0 ? 'text-amber-400' : 'text-emerald-400'}`}>
+                         {change === null ? '—' : `${change > 0 ? '+' : ''}${change} kg`}
+                     </div>
+                 </div>
+                 <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4">
+                     <div className="text-xs text-gray-500 mb-1">BMI</div>
+                     {bmi !== null ? (
+                         <>
+                             <div className="text-xl font-mono text-gray-100">{bmi}</div>
+                             <div className={`text-[10px] mt-1 ${bmiBand(bmi).color}`}>{bmiBand(bmi).label} · {profile.heightCm} cm</div>
+                         </>
+                     ) : (
+                         <div className="text-[10px] text-gray-600 mt-1">{profile.heightCm ? 'No weigh-ins yet' : 'Set your height in Settings → Profile'}</div>
+                     )}
+                 </div>
+                 <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4">
+                     <div className="text-xs text-gray-500 mb-1">Goal</div>
+                     {profile.weightGoal ? (
+                         <>
+                             <div className="text-xl font-mono text-gray-100">{profile.weightGoal} kg</div>
+                             <div className="text-[10px] text-gray-500 mt-1">
+                                 {!projection ? 'Needs a week of weigh-ins in the last 30 days'
+                                     : projection.reached ? 'Reached'
+                                     : projection.date ? `On track for ${projection.date} (${projection.perWeek > 0 ? '+' : ''}${projection.perWeek} kg/wk)`
+                                     : `Trend is moving away (${projection.perWeek > 0 ? '+' : ''}${projection.perWeek} kg/wk)`}
+                             </div>
+                         </>
+                     ) : (
+                         <div className="text-[10px] text-gray-600 mt-1">Set a goal weight in Settings → Profile</div>
+                     )}
+                 </div>
+             </div>
+
+             <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4 space-y-2">
+                 <h3 className="text-sm font-bold text-gray-300">Weight (kg)</h3>
+                 {renderChart(weights, 'kg', '#84cc16', profile.weightGoal)}
+                 {renderLegend('#84cc16', !!profile.weightGoal)}
+             </div>
+
+             <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-4 space-y-2">
+                 <h3 className="text-sm font-bold text-gray-300">Body Fat (%)</h3>
+                 {renderChart(fatRates, '%', '#f472b6')}
+                 {renderLegend('#f472b6', false)}
+             </div>
+
+             <h3 className="text-base font-bold text-gray-300 flex items-center gap-2 pt-2"><Icons.Moon className="w-4 h-4 text-indigo-400" /> Sleep</h3>
+             {renderSleepPanel()}
+
+             <h3 className="text-base font-bold text-gray-300 flex items-center gap-2 pt-2"><Icons.Droplet className="w-4 h-4 text-rose-500" /> Cycle</h3>
+             {renderCyclePanel()}
         </div>
     );
 };
@@ -715,7 +5052,7 @@ export default function Index() {
   const [rawLogs, setRawLogs] = useState<RawLog[]>([]);
   
   // State: UI
-  const [activeTab, setActiveTab] = useState<'chat' | 'dashboard' | 'settings'>('chat');
+  const [activeTab, setActiveTab] = useState<AppTab>('chat');
   const [viewDate, setViewDate] = useState<Date>(new Date());
   const [viewMode, setViewMode] = useState<'day' | 'week' | 'month'>('day');
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
@@ -724,26 +5061,32 @@ export default function Index() {
   
   // State: Input & Processing
   const [inputText, setInputText] = useState('');
+  const [pendingImage, setPendingImage] = useState<string | null>(null); // Data URI of the downscaled attachment
+  const [lightboxImage, setLightboxImage] = useState<string | null>(null);
   const [editingMsgIndex, setEditingMsgIndex] = useState<number | null>(null);
   const [editingMsgText, setEditingMsgText] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
-  const [chatBufferCount, setChatBufferCount] = useState(0);
+  const [streamingMsgId, setStreamingMsgId] = useState<string | null>(null);
+  const [isQueryingRecords, setIsQueryingRecords] = useState(false);
+  const [loggerState, setLoggerState] = useState<LoggerState>({ watermark: 0 });
+  const [isLogging, setIsLogging] = useState(false);
+  const loggerRunningRef = useRef(false);
   const abortControllerRef = useRef<AbortController | null>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const backupInputRef = useRef<HTMLInputElement>(null);
   
   // State: Config
-  const [aiConfig, setAiConfig] = useState<AISettings>({
-    chatInstructions: DEFAULT_CHAT_INSTRUCTIONS,
-    organizerInstructions: DEFAULT_ORGANIZER_INSTRUCTIONS,
-    loggerInstructions: DEFAULT_LOGGER_INSTRUCTIONS,
-    batchSize: 30,
-  });
+  const [aiConfig, setAiConfig] = useState<AISettings>(mergeAISettings());
   
   const [chatSettings, setChatSettings] = useState<ChatSettings>({
       chatEnabled: true,
       organizerEnabled: true,
+      loggerEnabled: true,
+      draftMode: false,
+      autoAcceptEnabled: false,
+      autoAcceptThreshold: 0.9,
+      toolsEnabled: true,
       contextRounds: 10,
       contextMode: 'global',
       customStartDate: new Date().toISOString().split('T')[0],
@@ -751,65 +5094,157 @@ export default function Index() {
   });
 
   const [customSchemas, setCustomSchemas] = useState<Record<string, FieldSchema[]>>(INITIAL_SCHEMAS);
+  const [categories, setCategories] = useState<Record<string, CategoryMeta>>(BASE_CATEGORY_META);
+  const [categoryGroups, setCategoryGroups] = useState<GroupMeta[]>(BASE_GROUPS);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>(DEFAULT_EXCHANGE_RATES);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  // Latest rendered entries, for budget alerts raised after an await
+  const entriesRef = useRef<Entry[]>(entries);
+  entriesRef.current = entries;
+  const [recurringRules, setRecurringRules] = useState<RecurringRule[]>([]);
+  const [tagRules, setTagRules] = useState<TagRule[]>(DEFAULT_TAG_RULES);
+  const [profile, setProfile] = useState<UserProfile>({});
+
+  // State: Storage
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const persistedRef = useRef<Record<RecordStoreName, Map<string, any>>>({
+      entries: new Map(), messages: new Map(), rawLogs: new Map()
+  });
+  // kv values already written together with records, so the kv effect does not write them again
+  const persistedKVRef = useRef<Record<string, unknown>>({});
+
+  const [storageEstimate, setStorageEstimate] = useState<{ usage: number; quota: number } | null>(null);
 
   // State: Modals
   const [editingEntry, setEditingEntry] = useState<Entry | null>(null);
   const [editingSchemaCat, setEditingSchemaCat] = useState<string | null>(null);
   
-  // State: Schema Editor (augmented with _uid for stable UI rendering)
-  type TempFieldSchema = FieldSchema & { _uid: string };
+  // State: Schema Editor (augmented with _uid for stable UI rendering; _origKey and
+  // _optionMerges track the edit against the saved field so entries can be migrated)
+  type TempFieldSchema = FieldSchema & { _uid: string; _origKey?: string; _optionMerges?: Record<string, string> };
   const [tempSchema, setTempSchema] = useState<TempFieldSchema[]>([]);
+  const [pendingMigration, setPendingMigration] = useState<{
+      category: string;
+      schema: FieldSchema[];
+      ops: SchemaOp[];
+      affected: { entryId: string; details: Record<string, any>; changes: FieldChange[] }[];
+  } | null>(null);
+  const loadTempSchema = (fields: FieldSchema[]): TempFieldSchema[] =>
+      JSON.parse(JSON.stringify(fields)).map((f: FieldSchema) => ({ ...f, _uid: Math.random().toString(36).substr(2, 9), _origKey: f.key }));
+  const cleanTempField = ({ _uid, _origKey, _optionMerges, ...rest }: TempFieldSchema): FieldSchema => rest;
+  const [optionMergeDraft, setOptionMergeDraft] = useState<{ uid: string; from: string; into: string } | null>(null);
+  // Snapshot taken before the last schema save, restores the schema and the entries it touched
+  const [schemaUndo, setSchemaUndo] = useState<{ category: string; schema: FieldSchema[] | undefined; entries: Entry[] } | null>(null);
+  const [showSchemaPreview, setShowSchemaPreview] = useState(false);
+  const [stylingCategory, setStylingCategory] = useState<string | null>(null);
+  const [expandedDraftId, setExpandedDraftId] = useState<string | null>(null);
+  const [ruleDraft, setRuleDraft] = useState<RecurringRule | null>(null);
+  const [dismissedSuggestions, setDismissedSuggestions] = useState<string[]>([]);
+
+  // State: Statement Import
+  const [statementImport, setStatementImport] = useState<{
+      source: StatementSource;
+      fileName: string;
+      rows: string[][]; // Parsed CSV, kept to re-parse when the source or mapping changes
+      mapping: BankColumnMapping;
+      candidates: StatementCandidate[];
+  } | null>(null);
+  const [showTagRules, setShowTagRules] = useState(false);
+  const statementInputRef = useRef<HTMLInputElement>(null);
+
+  // State: Backup Import
+  const [backupImport, setBackupImport] = useState<{
+      fileName: string;
+      data: BackupData; // Parsed file, records already migrated
+      warnings: string[];
+      modes: Record<string, ImportMode>; // Per section present in the file
+      conflictChoices: Record<string, 'local' | 'incoming'>; // Entry id -> kept side, local by default
+      report?: ImportReport[]; // Set once applied
+  } | null>(null);
+  // Encrypted backup waiting for its passphrase before the wizard opens
+  const [lockedBackup, setLockedBackup] = useState<{ fileName: string; envelope: PassphraseEnvelope; passphrase: string; error?: string } | null>(null);
+  const [backupForm, setBackupForm] = useState({ passphrase: '', confirm: '' });
+
+  // State: App Lock
+  const [lockEnabled, setLockEnabled] = useState(() => storageKey !== null);
+  const [lockForm, setLockForm] = useState({ passphrase: '', confirm: '' });
+  const [lockBusy, setLockBusy] = useState(false);
+
+  // State: Reprocess Raw Logs
+  const [reprocessRange, setReprocessRange] = useState(() => ({
+      start: formatDate(new Date(Date.now() - 30 * 86400000)),
+      end: formatDate(new Date())
+  }));
+  const [reprocessRate, setReprocessRate] = useState(10); // Organizer requests per minute
+  const [reprocessResults, setReprocessResults] = useState<ReprocessResult[]>([]);
+  const [reprocessProgress, setReprocessProgress] = useState<{ done: number; total: number } | null>(null);
+  const reprocessAbortRef = useRef<AbortController | null>(null);
 
   // --- Effects ---
 
-  // Load Data with generic type safety
-  useEffect(() => {
-    const load = <T,>(key: string, setter: React.Dispatch<React.SetStateAction<T>>, def: T) => {
-      const saved = localStorage.getItem(key);
-      if (saved) setter(JSON.parse(saved));
-      else setter(def);
+  // Load Data from IndexedDB (one-time import of the legacy lifeos_* localStorage keys, then migrations)
+  useEffect(() => {
+    const applyLoaded = (data: StoredData) => {
+        // Records come back in key order, restore chronological order
+        setEntries([...data.entries].sort((a, b) => `${a.date} ${a.details?.time || ''}`.localeCompare(`${b.date} ${b.details?.time || ''}`)));
+        setMessages([...data.messages].sort((a, b) => a.timestamp - b.timestamp));
+        setRawLogs([...data.rawLogs].sort((a, b) => a.timestamp - b.timestamp));
+
+        setAiConfig(mergeAISettings(data.kv.aiConfig));
+        // Merge Chat Settings so flags added later get their defaults
+        setChatSettings({
+            chatEnabled: true,
+            organizerEnabled: true,
+            loggerEnabled: true,
+            draftMode: false,
+            autoAcceptEnabled: false,
+            autoAcceptThreshold: 0.9,
+            toolsEnabled: true,
+            contextRounds: 10,
+            contextMode: 'global',
+            customStartDate: new Date().toISOString().split('T')[0],
+            customEndDate: new Date().toISOString().split('T')[0],
+            ...(data.kv.chatSettings || {})
+        });
+        // Merge with initial in case we added new defaults in code
+        setCustomSchemas({...INITIAL_SCHEMAS, ...(data.kv.customSchemas || {})});
+        setCategories(mergeCategoryMeta(data.kv.categories));
+        setCategoryGroups(mergeGroups(data.kv.categoryGroups));
+        setExchangeRates(data.kv.exchangeRates || DEFAULT_EXCHANGE_RATES);
+        setBudgets(data.kv.budgets || []);
+        setRecurringRules(data.kv.recurringRules || []);
+        setDismissedSuggestions(data.kv.dismissedSuggestions || []);
+        setTagRules(data.kv.tagRules || DEFAULT_TAG_RULES);
+        setProfile(data.kv.profile || {});
+        setLoggerState(data.kv.loggerState || { watermark: 0 });
+    };
+
+    const load = async () => {
+        let { data, schemaVersion } = await dbLoadAll();
+        if (schemaVersion === undefined) {
+            // Fresh database: import whatever the localStorage version left behind
+            data = readLegacyLocalStorage() || data;
+            schemaVersion = 0;
+        }
+        if (schemaVersion < SCHEMA_VERSION) {
+            data = runMigrations(data, schemaVersion);
+            await dbReplaceAll(data, SCHEMA_VERSION);
+        }
+        clearLegacyLocalStorage();
+        persistedRef.current = {
+            entries: new Map(data.entries.map(e => [e.id, e])),
+            messages: new Map(data.messages.map(m => [m.id, m])),
+            rawLogs: new Map(data.rawLogs.map(l => [l.id, l])),
+        };
+        applyLoaded(data);
+        setIsHydrated(true);
+        navigator.storage?.persist?.().catch(() => {});
     };
-    load<Entry[]>('lifeos_entries', setEntries, []);
-    load<ChatMessage[]>('lifeos_messages', setMessages, []);
-    
-    // Load rawlogs with migration for missing IDs
-    const savedLogs = localStorage.getItem('lifeos_rawlogs');
-    if (savedLogs) {
-        const parsed: any[] = JSON.parse(savedLogs);
-        // Backfill IDs if missing from older versions
-        const migrated = parsed.map(log => {
-            if (!log.id) return { ...log, id: Math.random().toString(36).substr(2, 9) };
-            return log;
-        });
-        setRawLogs(migrated);
-    } else {
-        setRawLogs([]);
-    }
 
-    load<AISettings>('lifeos_aiconfig', setAiConfig, {
-        chatInstructions: DEFAULT_CHAT_INSTRUCTIONS,
-        organizerInstructions: DEFAULT_ORGANIZER_INSTRUCTIONS,
-        loggerInstructions: DEFAULT_LOGGER_INSTRUCTIONS,
-        batchSize: 30,
+    load().catch(e => {
+        setStorageError(`Could not open local database: ${describeStorageError(e)}. Changes will not be saved.`);
     });
-    load<ChatSettings>('lifeos_chatsettings', setChatSettings, {
-        chatEnabled: true,
-        organizerEnabled: true,
-        contextRounds: 10,
-        contextMode: 'global',
-        customStartDate: new Date().toISOString().split('T')[0],
-        customEndDate: new Date().toISOString().split('T')[0]
-    });
-    
-    // Merge Schemas
-    const savedSchemas = localStorage.getItem('lifeos_schemas');
-    if (savedSchemas) {
-        const parsed = JSON.parse(savedSchemas);
-        // Merge with initial in case we added new defaults in code
-        setCustomSchemas({...INITIAL_SCHEMAS, ...parsed});
-    } else {
-        setCustomSchemas(INITIAL_SCHEMAS);
-    }
 
     // Load API Key
     const key = getApiKey();
@@ -817,18 +5252,72 @@ export default function Index() {
 
   }, []);
 
-  // Save Data
-  useEffect(() => localStorage.setItem('lifeos_entries', JSON.stringify(entries)), [entries]);
-  useEffect(() => localStorage.setItem('lifeos_messages', JSON.stringify(messages)), [messages]);
-  useEffect(() => localStorage.setItem('lifeos_rawlogs', JSON.stringify(rawLogs)), [rawLogs]);
-  useEffect(() => localStorage.setItem('lifeos_aiconfig', JSON.stringify(aiConfig)), [aiConfig]);
-  useEffect(() => localStorage.setItem('lifeos_chatsettings', JSON.stringify(chatSettings)), [chatSettings]);
-  useEffect(() => localStorage.setItem('lifeos_schemas', JSON.stringify(customSchemas)), [customSchemas]);
+  // Save Data: diff against the last persisted snapshot and write only changed records
+  // kv values passed along are written in the same transaction as the records
+  const syncStore = (store: RecordStoreName, items: { id: string }[], kv: Record<string, unknown> = {}) => {
+      if (!isHydrated) return;
+      const prev = persistedRef.current[store];
+      const next = new Map(items.map(i => [i.id, i]));
+      const puts = items.filter(i => prev.get(i.id) !== i);
+      const deletes = [...prev.keys()].filter(id => !next.has(id));
+      persistedRef.current[store] = next;
+      Object.assign(persistedKVRef.current, kv);
+      if (puts.length === 0 && deletes.length === 0 && Object.keys(kv).length === 0) return;
+
+      dbSyncRecords(store, puts, deletes, kv).catch(e => {
+          setStorageError(`Saving ${store} failed: ${describeStorageError(e)}`);
+          // Forget the failed records so the next change retries them
+          const snapshot = persistedRef.current[store];
+          puts.forEach(i => snapshot.delete(i.id));
+          deletes.forEach(id => snapshot.set(id, null));
+          Object.keys(kv).forEach(key => delete persistedKVRef.current[key]);
+      });
+  };
+
+  const syncKV = (key: string, value: unknown) => {
+      if (!isHydrated || persistedKVRef.current[key] === value) return;
+      persistedKVRef.current[key] = value;
+      dbPutKV(key, value).catch(e => {
+          setStorageError(`Saving ${key} failed: ${describeStorageError(e)}`);
+      });
+  };
+
+  useEffect(() => syncStore('entries', entries), [entries, isHydrated]);
+  // A reply being streamed keeps its saved version until it is complete, so chunks do not each write
+  useEffect(() => {
+      if (!streamingMsgId) return syncStore('messages', messages);
+      const saved = persistedRef.current.messages.get(streamingMsgId);
+      syncStore('messages', messages.flatMap(m => m.id !== streamingMsgId ? [m] : saved ? [saved] : []));
+  }, [messages, isHydrated, streamingMsgId]);
+  useEffect(() => syncStore('rawLogs', rawLogs), [rawLogs, isHydrated]);
+  useEffect(() => syncKV('aiConfig', aiConfig), [aiConfig, isHydrated]);
+  useEffect(() => syncKV('chatSettings', chatSettings), [chatSettings, isHydrated]);
+  useEffect(() => syncKV('customSchemas', customSchemas), [customSchemas, isHydrated]);
+  useEffect(() => syncKV('categories', categories), [categories, isHydrated]);
+  useEffect(() => syncKV('categoryGroups', categoryGroups), [categoryGroups, isHydrated]);
+  useEffect(() => syncKV('exchangeRates', exchangeRates), [exchangeRates, isHydrated]);
+  useEffect(() => syncKV('budgets', budgets), [budgets, isHydrated]);
+  useEffect(() => syncKV('recurringRules', recurringRules), [recurringRules, isHydrated]);
+  useEffect(() => syncKV('dismissedSuggestions', dismissedSuggestions), [dismissedSuggestions, isHydrated]);
+  useEffect(() => syncKV('tagRules', tagRules), [tagRules, isHydrated]);
+  useEffect(() => syncKV('profile', profile), [profile, isHydrated]);
+  useEffect(() => syncKV('loggerState', loggerState), [loggerState, isHydrated]);
+
+  useEffect(() => {
+    if (activeTab !== 'settings' || !navigator.storage?.estimate) return;
+    navigator.storage.estimate().then(({ usage, quota }) => setStorageEstimate({ usage: usage || 0, quota: quota || 0 }));
+  }, [activeTab, entries, messages, rawLogs]);
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  // Background Logger: user messages not yet covered by a "闲聊速记" entry
+  const chatBufferCount = useMemo(
+      () => messages.filter(m => m.role === 'user' && m.timestamp > loggerState.watermark).length,
+      [messages, loggerState.watermark]
+  );
+
   // Prevent body scroll when modal is open
   useEffect(() => {
     if (editingEntry) {
@@ -864,130 +5353,249 @@ export default function Index() {
       return filtered;
   };
 
-  const chatWithGemini = async (history: ChatMessage[], newMsg: string, signal: AbortSignal, regenerate = false) => {
-    const apiKey = getApiKey();
-    if (!apiKey) return "Error: No API Key Configured in Settings";
-    const ai = new GoogleGenAI({ apiKey });
+  const chatWithModel = async (
+    history: ChatMessage[], 
+    newMsg: string, 
+    signal: AbortSignal, 
+    regenerate = false, 
+    onText: (text: string) => void = () => {}
+  ): Promise<{ text: string; truncated: boolean; citedEntryIds: string[] }> => {
+    const config = aiConfig.models.chat;
+    if (!hasProviderCredentials(config)) return { text: "Error: Chat model is not configured in Settings", truncated: false, citedEntryIds: [] };
     
     // Construct prompt
-    let prompt = aiConfig.chatInstructions + "\n\nChat History:\n";
+    let prompt = aiConfig.chatInstructions;
+    if (chatSettings.toolsEnabled) {
+        prompt += `\nToday is ${formatDate(new Date())}. When the user asks about anything they recorded (spending, sleep, workouts, "when did I last ..."), ALWAYS look it up with the tools instead of guessing or relying on the chat history, and base numbers only on tool results.\n`;
+        prompt += `Category codes: ${Object.entries(categories).map(([key, meta]) => `${key} (${meta.label})`).join(', ')}\n`;
+    }
+    prompt += "\n\nChat History:\n";
     history.forEach(m => {
-        prompt += `${m.role === 'user' ? 'User' : 'You'}: ${m.text}\n`;
+        prompt += `${m.role === 'user' ? 'User' : 'You'}: ${m.image ? '[附图] ' : ''}${m.text}\n`;
     });
     if (!regenerate) {
         prompt += `User: ${newMsg}\n`;
     }
     
     // Check signal before starting
-    if (signal.aborted) return "";
+    if (signal.aborted) return { text: "", truncated: true, citedEntryIds: [] };
 
+    const provider = getProvider(config);
+    const tools = chatSettings.toolsEnabled ? CHAT_TOOLS : [];
+    const turns: ChatTurn[] = [{ role: 'user', text: prompt }];
+    const cited = new Set<string>();
+    let partial = "";
     try {
-        // Create a race between the generation and the abort signal
-        const generatePromise = ai.models.generateContent({
-            model: 'gemini-3-pro-preview',
-            contents: prompt,
-        });
-
-        // Abort promise wrapper
-        const abortPromise = new Promise((_, reject) => {
-            signal.addEventListener('abort', () => reject(new Error('Aborted')));
-        });
+        // Each round either answers or asks for tools; results go back until it answers
+        for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+            partial = "";
+            const { text, calls } = await provider.streamChat(turns, round === MAX_TOOL_ROUNDS - 1 ? [] : tools, signal, t => {
+                partial = t;
+                onText(t);
+            });
+            if (calls.length === 0) return { text, truncated: false, citedEntryIds: Array.from(cited) };
 
-        const res = await Promise.race([generatePromise, abortPromise]) as GenerateContentResponse;
-        return res.text || "";
+            setIsQueryingRecords(true);
+            const results = calls.map(call => {
+                const { result, entryIds } = runChatTool(call, { entries, rawLogs });
+                entryIds.forEach(id => cited.add(id));
+                return { call, result };
+            });
+            turns.push({ role: 'model', text, calls }, { role: 'tool', results });
+        }
+        return { text: partial, truncated: false, citedEntryIds: Array.from(cited) };
     } catch (e: any) {
-        if (e.message === 'Aborted') return ""; // Silent return
+        // Stopped by the user: the request is cancelled, keep what already arrived
+        if (signal.aborted || e.name === 'AbortError') return { text: partial, truncated: true, citedEntryIds: Array.from(cited) };
         console.error(e);
-        return "Thinking process interrupted or failed.";
+        return partial
+            ? { text: partial, truncated: true, citedEntryIds: Array.from(cited) }
+            : { text: "Thinking process interrupted or failed.", truncated: false, citedEntryIds: [] };
+    } finally {
+        setIsQueryingRecords(false);
     }
   };
 
-  const organizeInput = async (text: string, dateStr: string, imageBase64?: string): Promise<any[]> => {
-    const apiKey = getApiKey();
-    if (!apiKey) return [];
-    const ai = new GoogleGenAI({ apiKey });
+  // Stream a reply into the model message with this id. A stopped reply keeps its partial
+  // text and is marked truncated; with nothing received the message is restored or removed.
+  const streamReplyInto = async (msgId: string, history: ChatMessage[], newMsg: string, signal: AbortSignal, regenerate: boolean, restoreText?: string) => {
+      setStreamingMsgId(msgId);
+      const { text, truncated, citedEntryIds } = await chatWithModel(history, newMsg, signal, regenerate, t => {
+          setMessages(prev => prev.map(m => m.id === msgId ? { ...m, text: t } : m));
+      });
+      setStreamingMsgId(null);
+
+      setMessages(prev => {
+          if (!text && restoreText === undefined) return prev.filter(m => m.id !== msgId);
+          return prev.map(m => {
+              if (m.id !== msgId) return m;
+              const { truncated: _old, citedEntryIds: _oldCited, ...rest } = m;
+              if (!text) return { ...m, text: restoreText! };
+              const cited = citedEntryIds.length ? { citedEntryIds } : {};
+              return truncated ? { ...rest, ...cited, text, truncated: true } : { ...rest, ...cited, text };
+          });
+      });
+      return { text, truncated };
+  };
+
+  // Throws on provider errors; `at` is when the input was written, so relative dates resolve correctly
+  const extractEntries = async (text: string, at: Date, imageBase64?: string, signal?: AbortSignal): Promise<any[]> => {
+    const config = aiConfig.models.organizer;
+    if (!hasProviderCredentials(config)) return [];
+    const activeKeys = activeCategoryKeys(categories, categoryGroups);
     
     // Generate valid JSON schema parts based on customSchemas
     const prompt = `
 ${aiConfig.organizerInstructions}
 
-Current Date: ${dateStr}
-Current Time: ${new Date().toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
+Current Date: ${formatDate(at)}
+Current Time: ${at.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
 IMPORTANT: Analyze the input for time references (e.g., "Yesterday", "Last Friday"). If found, calculate the specific date (YYYY-MM-DD) based on Current Date. If not, use Current Date. Return this in the "date" field.
 
+Category Codes (use ONLY these for "category"):
+${categoryGroups.filter(g => !g.archived).map(g => {
+    const codes = activeKeys.filter(key => categories[key].group === g.key);
+    return codes.length ? `*   ${g.label}: ${codes.map(key => `\`${key}\` (${categories[key].label})`).join(', ')}` : '';
+}).filter(Boolean).join('\n')}
+
 Defined Schemas (Follow these fields strictly):
-${Object.entries(customSchemas).map(([cat, fields]) => `
-Table: ${cat}
-Fields: ${fields.map(f => `- ${f.key} (${f.type}): ${f.label}`).join(', ')}
+${Object.entries(customSchemas).filter(([cat]) => activeKeys.includes(cat)).map(([cat, fields]) => `
+Table: ${cat} (${categories[cat].label})
+Fields: ${fields.filter(f => !f.formula).map(f => `- ${f.key} (${f.type}${f.required ? ', required' : ''}${f.options?.length && f.type !== 'reference' ? `, one of: ${f.options.join('/')}` : ''}${f.unit ? `, unit: ${f.unit}` : ''}${describeFieldRules(f.rules) ? `, ${describeFieldRules(f.rules)}` : ''}): ${f.label}`).join(', ')}
 `).join('\n')}
 
 User Input: "${text}"
+${imageBase64 ? 'Attached Photo: The user attached a photo (e.g. receipt, meal, medicine box, book cover). Read it and extract its events together with the text, e.g. amounts and merchant from receipts, food items from meals, medicine names, book title and author.' : ''}
 `;
 
-    const parts: any[] = [{ text: prompt }];
-    if (imageBase64) {
-        parts.push({
-            inlineData: {
-                mimeType: "image/jpeg",
-                data: imageBase64.split(',')[1]
-            }
-        });
-    }
+    const result = await generateJSON(config, {
+      prompt,
+      imageDataUri: imageBase64,
+      responseSchema: buildOrganizerSchema(customSchemas, activeCategoryKeys(categories, categoryGroups)),
+      signal
+    });
+    return Array.isArray(result) ? conformOrganizerOutput(result, customSchemas) : [];
+  };
 
+  const organizeInput = async (text: string, imageBase64?: string): Promise<any[]> => {
     try {
-      const res = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: { parts },
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        date: { type: Type.STRING, description: "YYYY-MM-DD" },
-                        category: { type: Type.STRING, enum: Object.keys(BASE_CATEGORY_META) },
-                        event: { type: Type.STRING, description: "1-2 words Title" },
-                        details: { type: Type.OBJECT, properties: {
-                            // Standard fields must be here for AI to fill them
-                            summary: { type: Type.STRING, description: "10 word description" },
-                            time: { type: Type.STRING, description: "HH:mm" },
-                            duration: { type: Type.STRING, nullable: true },
-                            notes: { type: Type.STRING, nullable: true, description: "Catch-all for other info" },
-                            
-                            // Common specific fields
-                            transaction_type: { type: Type.STRING, nullable: true },
-                            amount: { type: Type.NUMBER, nullable: true },
-                            currency: { type: Type.STRING, nullable: true },
-                            tags: { type: Type.ARRAY, items: { type: Type.STRING }, nullable: true },
-                            title: { type: Type.STRING, nullable: true },
-                            value: { type: Type.NUMBER, nullable: true },
-                            item: { type: Type.STRING, nullable: true }
-                        }, required: ["summary", "time"]}
-                    },
-                    required: ["category", "event", "date", "details"]
-                }
-            }
-        }
-      });
-      const txt = res.text;
-      if (!txt) return [];
-      return JSON.parse(txt) as any[];
+      return await extractEntries(text, new Date(), imageBase64);
     } catch (e) {
       console.error("Organization failed", e);
       return [];
     }
   };
 
+  const summarizeChatWindow = async (batch: ChatMessage[]): Promise<{ summary: string; mood?: string; content: string } | null> => {
+    const config = aiConfig.models.logger;
+    if (!hasProviderCredentials(config)) throw new Error("Logger model is not configured in Settings");
+
+    const transcript = batch.map(m => {
+        const time = new Date(m.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'});
+        return `[${time}] ${m.role === 'user' ? 'User' : 'AI'}: ${m.text}`;
+    }).join('\n');
+
+    const prompt = `
+${aiConfig.loggerInstructions}
+
+Chat Transcript (${batch.length} messages):
+${transcript}
+
+Return "summary" (about 10 words), "mood" (1-2 words) and "content" (the diary paragraph).
+`;
+
+    const result = await generateJSON<{ summary: string; mood?: string; content: string }>(config, {
+        prompt,
+        responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+                summary: { type: Type.STRING, description: "10 word description" },
+                mood: { type: Type.STRING, nullable: true },
+                content: { type: Type.STRING, description: "Single diary paragraph" }
+            },
+            required: ["summary", "content"]
+        }
+    });
+    return result?.content ? result : null;
+  };
+
+  // Summarize every non-system message after the watermark into one diary entry
+  const runBackgroundLogger = async (manual = false) => {
+    if (loggerRunningRef.current) return;
+    const batch = messages.filter(m => m.role !== 'system' && m.timestamp > loggerState.watermark);
+    const userCount = batch.filter(m => m.role === 'user').length;
+    if (userCount === 0) {
+        if (manual) alert("Nothing new to summarize.");
+        return;
+    }
+
+    loggerRunningRef.current = true;
+    setIsLogging(true);
+    try {
+        const result = await summarizeChatWindow(batch);
+        if (!result) throw new Error("Empty response from logger");
+
+        const last = batch[batch.length - 1];
+        const lastDate = new Date(last.timestamp);
+        const entry: Entry = {
+            id: Math.random().toString(36).substr(2, 9),
+            date: formatDate(lastDate),
+            category: 'diary',
+            event: '闲聊速记',
+            details: {
+                summary: result.summary,
+                time: formatTime(lastDate),
+                mood: result.mood || '',
+                notes: result.content
+            }
+        };
+        setEntries(prev => [...prev, entry]);
+        setMessages(prev => [...prev, {
+            id: Math.random().toString(36).substr(2, 9),
+            role: 'system',
+            text: `Logged: [${entry.date}] ${entry.event} (${userCount} messages)`,
+            timestamp: Date.now(),
+            relatedEntryIds: [entry.id]
+        }]);
+        setLoggerState({ watermark: last.timestamp, lastRunAt: Date.now(), lastEntryId: entry.id });
+    } catch (e: any) {
+        setLoggerState(prev => ({ ...prev, lastRunAt: Date.now(), lastError: e?.message || String(e) }));
+    } finally {
+        loggerRunningRef.current = false;
+        setIsLogging(false);
+    }
+  };
+
+  // Trigger the logger once enough user messages have piled up (waits for the current reply to finish)
+  useEffect(() => {
+    if (!chatSettings.loggerEnabled || isProcessing) return;
+    if (aiConfig.batchSize > 0 && chatBufferCount >= aiConfig.batchSize && hasProviderCredentials(aiConfig.models.logger)) {
+        runBackgroundLogger();
+    }
+  }, [chatBufferCount, isProcessing, chatSettings.loggerEnabled, aiConfig.batchSize]);
+
   // --- Handlers ---
 
+  const handleAttachImage = async (file: File | null | undefined) => {
+    if (!file || !file.type.startsWith('image/')) return;
+    try {
+        setPendingImage(await downscaleImage(file));
+    } catch (e) {
+        console.error("Image processing failed", e);
+        alert("Could not read this image.");
+    }
+  };
+
   const handleSendMessage = async () => {
-    if (!inputText.trim()) return;
+    if (!inputText.trim() && !pendingImage) return;
     if (isProcessing) return;
 
-    // API Key Check
-    if (!getApiKey()) {
-        alert("Please configure your Google API Key in Settings first.");
+    // API Key Check for every role this message will use
+    const roles: AIRole[] = [];
+    if (chatSettings.chatEnabled) roles.push('chat');
+    if (chatSettings.organizerEnabled) roles.push('organizer');
+    if (roles.some(role => !hasProviderCredentials(aiConfig.models[role]))) {
+        alert("Please configure your API Key or model provider in Settings first.");
         setActiveTab('settings');
         return;
     }
@@ -996,56 +5604,87 @@ User Input: "${text}"
     abortControllerRef.current = controller;
     setIsProcessing(true);
 
-    const userMsg: ChatMessage = { role: 'user', text: inputText, timestamp: Date.now() };
+    const imageDataUri = pendingImage || undefined;
+    const userMsg: ChatMessage = { id: Math.random().toString(36).substr(2, 9), role: 'user', text: inputText, timestamp: Date.now() };
+    if (imageDataUri) userMsg.image = imageDataUri.split(',')[1];
     const tempMessages = [...messages, userMsg];
     setMessages(tempMessages);
     setInputText('');
+    setPendingImage(null);
     
     // Save raw log with ID and timestamp for Dashboard display
-    setRawLogs(prev => [...prev, { id: Math.random().toString(36).substr(2,9), timestamp: userMsg.timestamp, text: userMsg.text }]);
+    const rawLogId = Math.random().toString(36).substr(2,9);
+    setRawLogs(prev => [...prev, { id: rawLogId, timestamp: userMsg.timestamp, text: userMsg.text }]);
 
     const relevantHistory = getFilteredHistory();
 
     // 1. Chat AI
-    let chatResponse = "";
     if (chatSettings.chatEnabled) {
-         chatResponse = await chatWithGemini(relevantHistory, userMsg.text, controller.signal) || "...";
+         const replyId = Math.random().toString(36).substr(2, 9);
+         setMessages(prev => [...prev, { id: replyId, role: 'model', text: '', timestamp: Date.now() }]);
+         await streamReplyInto(replyId, relevantHistory, (userMsg.image ? '[附图] ' : '') + userMsg.text, controller.signal, false);
          if (controller.signal.aborted) {
              setIsProcessing(false);
              return;
          }
-         setMessages(prev => [...prev, { role: 'model', text: chatResponse, timestamp: Date.now() }]);
     }
 
     // 2. Organizer AI
     if (chatSettings.organizerEnabled) {
         const today = formatDate(new Date());
         
-        const structuredData = await organizeInput(userMsg.text, today);
+        const structuredData = await organizeInput(userMsg.text, imageDataUri);
         
         if (structuredData && structuredData.length > 0) {
-            const newEntries: Entry[] = structuredData.map((d: any) => ({
-                id: Math.random().toString(36).substr(2, 9),
-                date: d.date || today, // Use inferred date from AI if available, else today
-                category: d.category,
-                event: d.event,
-                details: d?.details || {}
-            }));
+            const newEntries: Entry[] = structuredData.map((d: any) => {
+                // Use inferred date from AI if valid, else today
+                const { issues, ...valid } = validateEntry(d, customSchemas, categories, today);
+                return {
+                    id: Math.random().toString(36).substr(2, 9),
+                    ...valid,
+                    ...(issues.length ? { issues } : {}),
+                    ...(userMsg.image ? { image: userMsg.image } : {}),
+                    rawLogId
+                };
+            });
+            const flagged = newEntries.filter(e => e.issues).length;
             
-            setEntries(prev => [...prev, ...newEntries]);
-            
-            // Notify in chat
-            const entryIds = newEntries.map(e => e.id);
-            setMessages(prev => [...prev, { 
-                role: 'system', 
-                text: `Saved: ${newEntries.map(e => `[${e.date}] ${e.event}`).join(', ')}`, 
-                timestamp: Date.now(),
-                relatedEntryIds: entryIds
-            }]);
+            if (chatSettings.draftMode) {
+                // Queue proposals as drafts, only confident and clean ones go straight in
+                const drafts: DraftEntry[] = newEntries.map((e, i) => {
+                    const confidence = typeof structuredData[i].confidence === 'number' ? structuredData[i].confidence : undefined;
+                    const autoAccept = chatSettings.autoAcceptEnabled && !e.issues && confidence !== undefined && confidence >= chatSettings.autoAcceptThreshold;
+                    return { ...e, confidence, status: autoAccept ? 'accepted' : 'pending' };
+                });
+                const accepted = drafts.filter(d => d.status === 'accepted');
+                if (accepted.length) setEntries(prev => [...prev, ...accepted.map(draftToEntry)]);
+
+                setMessages(prev => [...prev, {
+                    id: Math.random().toString(36).substr(2, 9),
+                    role: 'system',
+                    text: `Proposed: ${drafts.length} draft${drafts.length > 1 ? 's' : ''}${accepted.length ? ` (${accepted.length} auto-accepted)` : ''}`,
+                    timestamp: Date.now(),
+                    relatedEntryIds: accepted.map(d => d.id),
+                    drafts
+                }]);
+                notifyBudgetAlerts(accepted.map(draftToEntry));
+            } else {
+                setEntries(prev => [...prev, ...newEntries]);
+                
+                // Notify in chat
+                const entryIds = newEntries.map(e => e.id);
+                setMessages(prev => [...prev, { 
+                    id: Math.random().toString(36).substr(2, 9),
+                    role: 'system', 
+                    text: `Saved: ${newEntries.map(e => `[${e.date}] ${e.event}${e.issues ? ' ⚠' : ''}`).join(', ')}${flagged ? ` (${flagged} need review)` : ''}`, 
+                    timestamp: Date.now(),
+                    relatedEntryIds: entryIds
+                }]);
+                notifyBudgetAlerts(newEntries);
+            }
         }
     }
     
-    setChatBufferCount(prev => prev + 1);
     setIsProcessing(false);
     abortControllerRef.current = null;
   };
@@ -1060,11 +5699,318 @@ User Input: "${text}"
   const handleUndo = (msgIndex: number, entryIds: string[]) => {
       setEntries(prev => prev.filter(e => !entryIds.includes(e.id)));
       setMessages(prev => prev.map((m, i) => {
-          if (i === msgIndex) return { ...m, text: m.text + " (Revoked)" };
+          if (i === msgIndex) return { 
+              ...m, 
+              text: m.text + " (Revoked)",
+              drafts: m.drafts?.map(d => ({ ...d, status: 'discarded' as const }))
+          };
           return m;
       }));
   };
 
+  // --- Draft Review ---
+
+  const updateDraft = (msgId: string, draftId: string, changes: Partial<DraftEntry>) => {
+      setMessages(prev => prev.map(m => m.id !== msgId ? m : {
+          ...m,
+          drafts: m.drafts?.map(d => d.id === draftId ? { ...d, ...changes } : d)
+      }));
+  };
+
+  // Budget alerts for entries the user just saved: compare this period's spending before and
+  // after. Imports, recurring catch-up and reprocessing don't call this.
+  const notifyBudgetAlerts = (saved: Entry[]) => {
+      if (budgets.length === 0 || saved.length === 0) return;
+      const before = entriesRef.current;
+      const ids = new Set(saved.map(e => e.id));
+      const after = [...before.filter(e => !ids.has(e.id)), ...saved];
+      const alerts = budgetAlerts(budgets, toLedgerTransactions(before, exchangeRates), toLedgerTransactions(after, exchangeRates), new Date());
+      if (alerts.length === 0) return;
+      setMessages(prev => [...prev, ...alerts.map(text => ({
+          id: Math.random().toString(36).substr(2, 9),
+          role: 'system' as const,
+          text,
+          timestamp: Date.now()
+      }))]);
+  };
+
+  const handleAcceptDrafts = (msgId: string, drafts: DraftEntry[]) => {
+      // Re-validate against the (possibly changed) category and fields
+      const accepted = drafts.map(draft => {
+          const { issues, ...valid } = validateEntry(draft, customSchemas, categories, draft.date || formatDate(new Date()));
+          const { issues: _previous, ...base } = draftToEntry(draft);
+          return { ...base, ...valid, ...(issues.length ? { issues } : {}) } as Entry;
+      });
+      const byId = new Map(accepted.map(e => [e.id, e]));
+      setEntries(prev => [...prev, ...accepted]);
+      notifyBudgetAlerts(accepted);
+      setMessages(prev => prev.map(m => m.id !== msgId ? m : {
+          ...m,
+          relatedEntryIds: [...(m.relatedEntryIds || []), ...accepted.map(e => e.id)],
+          drafts: m.drafts?.map(d => byId.has(d.id) ? { ...byId.get(d.id)!, confidence: d.confidence, status: 'accepted' as const } : d)
+      }));
+      if (expandedDraftId && byId.has(expandedDraftId)) setExpandedDraftId(null);
+  };
+
+  // --- Recurring Transactions ---
+
+  const buildRecurringEntry = (rule: RecurringRule, date: string): Entry => {
+      const { issues, ...valid } = validateEntry({
+          date,
+          category: 'finance_tracking',
+          event: rule.event,
+          details: {
+              summary: rule.event,
+              transaction_type: rule.transactionType,
+              amount: rule.transactionType === '支出' ? -rule.amount : rule.amount,
+              currency: rule.currency,
+              tags: rule.tags,
+              merchant: rule.merchant || undefined,
+              payment_method: rule.paymentMethod || undefined
+          }
+      }, customSchemas, categories, date);
+      // Rules have no time of day, so a missing time isn't something to review
+      const flagged = issues.filter(i => i.field !== 'time');
+      return { id: Math.random().toString(36).substr(2, 9), ...valid, ...(flagged.length ? { issues: flagged } : {}), recurringRuleId: rule.id };
+  };
+
+  // Adds the entries the rules owe up to today, catching up missed periods, and advances each rule
+  const applyRecurringRules = (rules: RecurringRule[]) => {
+      const today = formatDate(new Date());
+      const generated: Entry[] = [];
+      const truncated: string[] = [];
+      const updated = rules.map(rule => {
+          if (rule.paused || !rule.event || !(rule.amount > 0)) return rule;
+          const { dates, truncated: more } = dueOccurrences(rule, today);
+          if (more) truncated.push(rule.event);
+          if (dates.length === 0) return rule;
+          dates.forEach(date => generated.push(buildRecurringEntry(rule, date)));
+          return { ...rule, lastGenerated: dates[dates.length - 1] };
+      });
+      setRecurringRules(updated);
+      if (generated.length === 0) return;
+      setEntries(prev => [...prev, ...generated]);
+      setMessages(prev => [...prev, {
+          id: Math.random().toString(36).substr(2, 9),
+          role: 'system',
+          text: `Recurring: ${generated.length > 5 ? `${generated.length} entries` : generated.map(e => `[${e.date}] ${e.event}`).join(', ')}${truncated.length ? ` (stopped after ${MAX_RECURRING_CATCH_UP} for ${truncated.join(', ')}, check the start date)` : ''}`,
+          timestamp: Date.now(),
+          relatedEntryIds: generated.map(e => e.id)
+      }]);
+  };
+
+  // Runs when the app opens
+  useEffect(() => {
+      if (isHydrated) applyRecurringRules(recurringRules);
+  }, [isHydrated]);
+
+  const handleAddRecurringRule = (rule: RecurringRule) => {
+      if (!rule.event.trim() || !(rule.amount > 0)) {
+          alert("A recurring rule needs a title and an amount.");
+          return;
+      }
+      setRuleDraft(null);
+      applyRecurringRules([...recurringRules, rule]);
+  };
+
+  // Starts after the last detected charge so the existing entries aren't duplicated
+  const handleAcceptSuggestion = (s: RecurringSuggestion) => {
+      const { key, count, lastDate, ...fields } = s;
+      handleAddRecurringRule({ id: Math.random().toString(36).substr(2, 9), ...fields, startDate: lastDate, lastGenerated: lastDate });
+  };
+
+  const updateRecurringRule = (id: string, changes: Partial<RecurringRule>) => {
+      setRecurringRules(prev => prev.map(r => r.id === id ? { ...r, ...changes } : r));
+  };
+
+  // --- Statement Import ---
+
+  const buildStatementCandidates = (rows: StatementRow[]) => {
+      // Entries are in date order, so the merchant's latest tags win
+      const history = new Map<string, string[]>();
+      entries.forEach(e => {
+          if (e.category === 'finance_tracking' && e.details?.merchant && Array.isArray(e.details.tags) && e.details.tags.length) {
+              history.set(String(e.details.merchant).toLowerCase(), e.details.tags);
+          }
+      });
+      return rows.map(row => {
+          const duplicateOf = findStatementDuplicate(row, entries);
+          return { row, tags: inferStatementTags(row, tagRules, history), duplicateOf, include: !duplicateOf };
+      });
+  };
+
+  const parseStatementRows = (rows: string[][], source: StatementSource, mapping: BankColumnMapping): StatementRow[] =>
+      source !== 'bank' ? parsePlatformStatement(rows, source) : mapping.amount >= 0 ? parseBankStatement(rows, mapping) : [];
+
+  const handleStatementFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // Reset
+      if (!file) return;
+      try {
+          const rows = parseCSV(decodeStatement(await file.arrayBuffer()));
+          const source = detectStatementSource(rows);
+          const mapping = guessBankMapping(rows);
+          const candidates = buildStatementCandidates(parseStatementRows(rows, source, mapping));
+          setStatementImport({ source, fileName: file.name, rows, mapping, candidates });
+      } catch (err) {
+          alert(`Could not read the statement: ${err instanceof Error ? err.message : err}`);
+      }
+  };
+
+  // Re-parse after the detected source or the bank column mapping is changed by hand
+  const updateStatementParsing = (source: StatementSource, mapping: BankColumnMapping) => {
+      if (!statementImport) return;
+      try {
+          const candidates = buildStatementCandidates(parseStatementRows(statementImport.rows, source, mapping));
+          setStatementImport({ ...statementImport, source, mapping, candidates });
+      } catch (err) {
+          alert(err instanceof Error ? err.message : String(err));
+      }
+  };
+
+  const updateStatementCandidate = (index: number, changes: Partial<StatementCandidate>) => {
+      if (!statementImport) return;
+      setStatementImport({
+          ...statementImport,
+          candidates: statementImport.candidates.map((c, i) => i === index ? { ...c, ...changes } : c)
+      });
+  };
+
+  const handleCommitStatement = () => {
+      if (!statementImport) return;
+      const imported = statementImport.candidates.filter(c => c.include).map(({ row, tags }): Entry => {
+          const { issues, ...valid } = validateEntry({
+              date: row.date,
+              category: 'finance_tracking',
+              event: (row.merchant || row.description || row.type).slice(0, 12),
+              details: {
+                  summary: row.description || row.merchant,
+                  time: row.time || '00:00',
+                  transaction_type: row.type,
+                  amount: row.amount,
+                  currency: BASE_CURRENCY,
+                  tags,
+                  merchant: row.merchant || undefined,
+                  payment_method: row.paymentMethod || undefined
+              }
+          }, customSchemas, categories, row.date);
+          return { id: Math.random().toString(36).substr(2, 9), ...valid, ...(issues.length ? { issues } : {}), importRef: row.ref };
+      });
+      if (imported.length === 0) {
+          alert("No rows selected.");
+          return;
+      }
+      setEntries(prev => [...prev, ...imported]);
+      setMessages(prev => [...prev, {
+          id: Math.random().toString(36).substr(2, 9),
+          role: 'system',
+          text: `Imported: ${imported.length} transaction${imported.length > 1 ? 's' : ''} from ${statementImport.fileName}`,
+          timestamp: Date.now(),
+          relatedEntryIds: imported.map(e => e.id)
+      }]);
+      setStatementImport(null);
+  };
+
+  // --- Reprocess Raw Logs ---
+
+  const handleStartReprocess = async () => {
+      if (reprocessProgress) return;
+      if (!hasProviderCredentials(aiConfig.models.organizer)) {
+          alert("Please configure the Organizer model in Settings first.");
+          return;
+      }
+      const start = new Date(`${reprocessRange.start}T00:00:00`).getTime();
+      const end = new Date(`${reprocessRange.end}T00:00:00`).getTime() + 86400000;
+      const logs = rawLogs.filter(l => l.timestamp >= start && l.timestamp < end);
+      if (logs.length === 0) {
+          alert("No raw logs in this date range.");
+          return;
+      }
+      if (!window.confirm(`Re-run the organizer over ${logs.length} raw logs? This sends ${logs.length} requests at ${reprocessRate}/min.`)) return;
+
+      const controller = new AbortController();
+      reprocessAbortRef.current = controller;
+      const interval = 60000 / Math.max(1, reprocessRate);
+      setReprocessResults([]);
+      setReprocessProgress({ done: 0, total: logs.length });
+
+      for (let i = 0; i < logs.length && !controller.signal.aborted; i++) {
+          const log = logs[i];
+          const startedAt = Date.now();
+          const before = entries.filter(e => e.rawLogId === log.id);
+          // Raw logs keep text only; the photo lives on the entries made from it
+          const image = before.find(e => e.image)?.image;
+          let result: ReprocessResult;
+          try {
+              let raw: any[] = [];
+              for (let attempt = 0; ; attempt++) {
+                  try {
+                      raw = await extractEntries(log.text, new Date(log.timestamp), image ? `data:image/jpeg;base64,${image}` : undefined, controller.signal);
+                      break;
+                  } catch (e: any) {
+                      // Rate limited by the provider: back off and retry
+                      if (attempt >= 2 || controller.signal.aborted || !String(e?.message).includes('429')) throw e;
+                      await sleep(Math.max(interval * 2, 20000) * (attempt + 1), controller.signal);
+                  }
+              }
+              const fallbackDate = formatDate(new Date(log.timestamp));
+              const proposed: Entry[] = raw.map(d => {
+                  const { issues, ...valid } = validateEntry(d, customSchemas, categories, fallbackDate);
+                  return {
+                      id: Math.random().toString(36).substr(2, 9),
+                      ...valid,
+                      ...(issues.length ? { issues } : {}),
+                      ...(image ? { image } : {}),
+                      rawLogId: log.id
+                  };
+              });
+              result = { logId: log.id, oldEntryIds: before.map(e => e.id), proposed, status: isSameExtraction(before, proposed) ? 'unchanged' : 'changed' };
+          } catch (e: any) {
+              if (controller.signal.aborted) break;
+              result = { logId: log.id, oldEntryIds: before.map(e => e.id), proposed: [], status: 'error', error: e?.message || String(e) };
+          }
+          setReprocessResults(prev => [...prev, result]);
+          setReprocessProgress({ done: i + 1, total: logs.length });
+          if (i < logs.length - 1) await sleep(interval - (Date.now() - startedAt), controller.signal);
+      }
+
+      reprocessAbortRef.current = null;
+      setReprocessProgress(null);
+  };
+
+  const handleApplyReprocess = (results: ReprocessResult[], decision: 'keep' | 'replace' | 'merge') => {
+      const logIds = new Set(results.map(r => r.logId));
+      if (decision !== 'keep') {
+          const removed = new Set<string>();
+          const updated = new Map<string, Entry>();
+          const added: Entry[] = [];
+          results.forEach(r => {
+              const before = entries.filter(e => r.oldEntryIds.includes(e.id));
+              if (decision === 'replace') {
+                  before.forEach(e => removed.add(e.id));
+                  added.push(...r.proposed);
+                  return;
+              }
+              pairEntries(before, r.proposed).forEach(({ before: b, after: a }) => {
+                  if (!a) return;
+                  if (!b) {
+                      added.push(a);
+                      return;
+                  }
+                  const merged = mergeEntries(b, a);
+                  const { issues, ...valid } = validateEntry(merged, customSchemas, categories, merged.date);
+                  const { issues: _previous, ...base } = merged;
+                  updated.set(b.id, { ...base, ...valid, ...(issues.length ? { issues } : {}) });
+              });
+          });
+          setEntries(prev => [
+              ...prev.filter(e => !removed.has(e.id)).map(e => updated.get(e.id) || e),
+              ...added
+          ]);
+      }
+      setReprocessResults(prev => prev.map(r => logIds.has(r.logId) ? { ...r, decision } : r));
+  };
+
   const handleRegenerateChat = async (msgIndex: number) => {
       // Find the user message before this AI message
       const prevMsgs = messages.slice(0, msgIndex);
@@ -1078,15 +6024,9 @@ User Input: "${text}"
       // Filter history excluding the message we are replacing
       const history = getFilteredHistory().filter(m => m.timestamp < messages[msgIndex].timestamp);
       
-      const newResponse = await chatWithGemini(history, userMsg.text, controller.signal, true);
-      
-      if (!controller.signal.aborted) {
-        setMessages(prev => {
-            const next = [...prev];
-            next[msgIndex] = { ...next[msgIndex], text: newResponse || "..." };
-            return next;
-        });
-      }
+      const target = messages[msgIndex];
+      setMessages(prev => prev.map(m => m.id === target.id ? { ...m, text: '' } : m));
+      await streamReplyInto(target.id, history, userMsg.text, controller.signal, true, target.text);
       setIsProcessing(false);
   };
   
@@ -1122,11 +6062,9 @@ User Input: "${text}"
       }
 
       // 4. Trigger AI using regenerate=true (which effectively uses the history stack provided)
-      const response = await chatWithGemini(history, "", controller.signal, true);
-      
-      if (!controller.signal.aborted) {
-          setMessages(prev => [...prev, { role: 'model', text: response, timestamp: Date.now() }]);
-      }
+      const replyId = Math.random().toString(36).substr(2, 9);
+      setMessages(prev => [...prev, { id: replyId, role: 'model', text: '', timestamp: Date.now() }]);
+      await streamReplyInto(replyId, history, "", controller.signal, true);
       setIsProcessing(false);
   };
 
@@ -1145,52 +6083,491 @@ User Input: "${text}"
 
   // --- Import/Export Handlers ---
 
-  const handleExportData = () => {
-    const data = {
-      entries,
-      messages,
-      rawLogs,
-      customSchemas,
-      aiConfig,
-      chatSettings,
-      meta: {
-          exportedAt: new Date().toISOString(),
-          app: 'Gemini LifeOS'
-      }
-    };
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `lifeos-backup-${new Date().toISOString().split('T')[0]}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
+  const handleExportData = async () => {
+    const data = {
+      entries,
+      messages,
+      rawLogs,
+      customSchemas,
+      categories,
+      categoryGroups,
+      exchangeRates,
+      budgets,
+      recurringRules,
+      tagRules,
+      dismissedSuggestions,
+      aiConfig: withoutModelKeys(aiConfig),
+      chatSettings,
+      loggerState,
+      profile,
+      meta: {
+          exportedAt: new Date().toISOString(),
+          app: 'Gemini LifeOS',
+          schemaVersion: SCHEMA_VERSION
+      }
+    };
+    // A mistyped passphrase would make the file unrecoverable, it has to be entered twice
+    const passphrase = backupForm.passphrase;
+    if (passphrase && passphrase !== backupForm.confirm) {
+        alert("The export passphrases don't match.");
+        return;
+    }
+    let file: object = data;
+    if (passphrase) {
+        try {
+            file = { meta: { ...data.meta, encrypted: true }, encrypted: await encryptWithPassphrase(data, passphrase) };
+        } catch (e: any) {
+            alert(`Encryption failed: ${e.message}`);
+            return;
+        }
+    }
+    const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `lifeos-backup-${new Date().toISOString().split('T')[0]}${passphrase ? '-encrypted' : ''}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  // Opens the import wizard; nothing changes until the section choices are applied
+  const handleImportData = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      let json: unknown;
+      try {
+        json = JSON.parse(event.target?.result as string);
+      } catch (err) {
+        alert("Invalid JSON file");
+        return;
+      }
+      const envelope = json && typeof json === 'object' ? (json as { encrypted?: PassphraseEnvelope }).encrypted : undefined;
+      if (envelope) {
+          setLockedBackup({ fileName: file.name, envelope, passphrase: '' });
+          return;
+      }
+      openBackup(file.name, json);
+    };
+    reader.readAsText(file);
+    e.target.value = ''; // Reset
+  };
+
+  const handleUnlockBackup = async () => {
+      if (!lockedBackup) return;
+      try {
+          const json = await decryptWithPassphrase<unknown>(lockedBackup.envelope, lockedBackup.passphrase);
+          setLockedBackup(null);
+          openBackup(lockedBackup.fileName, json);
+      } catch (e: any) {
+          setLockedBackup({ ...lockedBackup, error: e.message });
+      }
+  };
+
+  const openBackup = (fileName: string, file: unknown) => {
+      const { errors, warnings } = checkBackup(file);
+      if (errors.length) {
+          alert(`Cannot import ${fileName}:\n${errors.join('\n')}`);
+          return;
+      }
+      const json = file as BackupData;
+      // Older backups may predate record ids, run them through the same migrations
+      const migrated = runMigrations({
+          entries: json.entries || [],
+          messages: json.messages || [],
+          rawLogs: json.rawLogs || [],
+          kv: json.customSchemas ? { customSchemas: json.customSchemas } : {}
+      }, typeof json.meta?.schemaVersion === 'number' ? json.meta.schemaVersion : 0);
+      const data: BackupData = {
+          ...json,
+          ...(json.entries ? { entries: migrated.entries } : {}),
+          ...(json.messages ? { messages: migrated.messages } : {}),
+          ...(json.rawLogs ? { rawLogs: migrated.rawLogs } : {}),
+          ...(json.customSchemas ? { customSchemas: migrated.kv.customSchemas } : {}),
+          ...(!json.categories && json.categoryGroups ? { categories: {} } : {})
+      };
+      // Records and lists merge by default, settings objects are kept
+      const modes: Record<string, ImportMode> = Object.fromEntries(BACKUP_SECTIONS
+          .filter(s => data[s.key] !== undefined)
+          .map(s => [s.key, s.kind === 'single' ? 'skip' : 'merge']));
+      setBackupImport({ fileName, data, warnings, modes, conflictChoices: {} });
+  };
+
+  // --- App Lock ---
+
+  const handleSetLock = async (passphrase: string | null) => {
+      if (passphrase !== null && (passphrase.length < 8 || passphrase !== lockForm.confirm)) return;
+      if (passphrase === null && !confirm("Turn off the app lock? Local data will be stored unencrypted again.")) return;
+      setLockBusy(true);
+      try {
+          await dbSetLock(passphrase);
+          setLockEnabled(passphrase !== null);
+          setLockForm({ passphrase: '', confirm: '' });
+          alert(passphrase === null ? "App lock turned off." : "Local data is now encrypted. Keep the passphrase safe: there is no way to recover it.");
+      } catch (e: any) {
+          alert(`Changing the app lock failed: ${describeStorageError(e)}`);
+      } finally {
+          setLockBusy(false);
+      }
+  };
+
+  const renderLockPanel = () => {
+      const tooShort = lockForm.passphrase.length > 0 && lockForm.passphrase.length < 8;
+      const mismatch = lockForm.confirm.length > 0 && lockForm.confirm !== lockForm.passphrase;
+      return (
+          <div className="flex flex-col gap-4">
+              <h4 className="text-lg font-bold text-gray-300 flex items-center gap-2">
+                  <Icons.Lock className="w-5 h-5 text-rose-400" />
+                  App Lock
+              </h4>
+              <p className="text-xs text-gray-500">
+                  {lockEnabled
+                      ? 'On. Records, settings and the Gemini API key are encrypted on this device and the passphrase is asked for on every start.'
+                      : 'Encrypt the local database and the Gemini API key with a passphrase. The app asks for it before showing any data. A forgotten passphrase cannot be recovered.'}
+              </p>
+              <div className="flex flex-wrap gap-2 items-start">
+                  <input 
+                      type="password" 
+                      value={lockForm.passphrase} 
+                      onChange={e => setLockForm({ ...lockForm, passphrase: e.target.value })} 
+                      placeholder={lockEnabled ? 'New passphrase' : 'Passphrase (8+ characters)'} 
+                      className="bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm focus:border-rose-500 outline-none" 
+                  />
+                  <input 
+                      type="password" 
+                      value={lockForm.confirm} 
+                      onChange={e => setLockForm({ ...lockForm, confirm: e.target.value })} 
+                      placeholder="Repeat passphrase" 
+                      className={`bg-gray-800 border rounded px-3 py-2 text-sm outline-none ${mismatch ? 'border-red-500' : 'border-gray-700 focus:border-rose-500'}`} 
+                  />
+                  <button 
+                      onClick={() => handleSetLock(lockForm.passphrase)} 
+                      disabled={lockBusy || lockForm.passphrase.length < 8 || lockForm.passphrase !== lockForm.confirm} 
+                      className="px-4 py-2 rounded text-sm bg-rose-700 hover:bg-rose-600 text-white disabled:opacity-40"
+                  >
+                      {lockBusy ? 'Encrypting...' : lockEnabled ? 'Change Passphrase' : 'Turn On'}
+                  </button>
+                  {lockEnabled && (
+                      <>
+                          <button onClick={() => window.location.reload()} disabled={lockBusy} className="px-4 py-2 rounded text-sm bg-gray-800 hover:bg-gray-700 border border-gray-700 disabled:opacity-40">Lock Now</button>
+                          <button onClick={() => handleSetLock(null)} disabled={lockBusy} className="px-4 py-2 rounded text-sm text-gray-400 hover:bg-gray-800 disabled:opacity-40">Turn Off</button>
+                      </>
+                  )}
+              </div>
+              {tooShort && <p className="text-xs text-red-400">Use at least 8 characters.</p>}
+          </div>
+      );
+  };
+
+  const handleApplyImport = () => {
+      if (!backupImport) return;
+      const { data, modes, conflictChoices } = backupImport;
+      const report: ImportReport[] = [];
+      const labelOf = (key: string) => BACKUP_SECTIONS.find(s => s.key === key)!.label;
+      const useIncoming = (id: string) => conflictChoices[id] === 'incoming';
+
+      // Lists of records with ids
+      const importList = <T extends { id: string }>(key: BackupSectionKey, incoming: T[] | undefined, local: T[], set: (records: T[]) => void, order?: (a: T, b: T) => number) => {
+          const mode = modes[key];
+          if (!incoming || !mode) return;
+          const base = { label: labelOf(key), mode, added: 0, updated: 0, skipped: 0, removed: 0 };
+          if (mode === 'skip') {
+              report.push({ ...base, skipped: incoming.length });
+          } else if (mode === 'replace') {
+              const localById = new Map(local.map(r => [r.id, r]));
+              const incomingIds = new Set(incoming.map(r => r.id));
+              set(order ? [...incoming].sort(order) : incoming);
+              const kept = incoming.filter(r => localById.has(r.id));
+              const same = kept.filter(r => stableStringify(localById.get(r.id)) === stableStringify(r)).length;
+              report.push({
+                  ...base,
+                  added: incoming.length - kept.length,
+                  updated: kept.length - same,
+                  skipped: same,
+                  removed: local.filter(r => !incomingIds.has(r.id)).length
+              });
+          } else {
+              const merged = mergeRecords(local, incoming, useIncoming);
+              set(order ? merged.records.sort(order) : merged.records);
+              report.push({ ...base, added: merged.added, updated: merged.updated, skipped: merged.skipped });
+          }
+      };
+      importList('entries', data.entries, entries, setEntries, (a, b) => `${a.date} ${a.details?.time || ''}`.localeCompare(`${b.date} ${b.details?.time || ''}`));
+      importList('messages', data.messages, messages, setMessages, (a, b) => a.timestamp - b.timestamp);
+      importList('rawLogs', data.rawLogs, rawLogs, setRawLogs, (a, b) => a.timestamp - b.timestamp);
+      importList('exchangeRates', data.exchangeRates, exchangeRates, setExchangeRates);
+      importList('budgets', data.budgets, budgets, setBudgets);
+      importList('recurringRules', data.recurringRules, recurringRules, setRecurringRules);
+
+      // Keyed settings
+      const importKeyed = <T,>(key: BackupSectionKey, incoming: Record<string, T> | undefined, local: Record<string, T>, apply: (value: Record<string, T>, mode: ImportMode) => void) => {
+          const mode = modes[key];
+          if (!incoming || !mode) return;
+          const base = { label: labelOf(key), mode, added: 0, updated: 0, skipped: 0, removed: 0 };
+          if (mode === 'skip') {
+              report.push({ ...base, skipped: Object.keys(incoming).length });
+          } else if (mode === 'replace') {
+              apply(incoming, mode);
+              const kept = Object.keys(incoming).filter(k => k in local);
+              const same = kept.filter(k => stableStringify(local[k]) === stableStringify(incoming[k])).length;
+              report.push({
+                  ...base,
+                  added: Object.keys(incoming).length - kept.length,
+                  updated: kept.length - same,
+                  skipped: same,
+                  removed: Object.keys(local).filter(k => !(k in incoming)).length
+              });
+          } else {
+              const merged = mergeKeyed(local, incoming);
+              apply(merged.value, mode);
+              report.push({ ...base, added: merged.added, skipped: merged.skipped });
+          }
+      };
+      importKeyed('customSchemas', data.customSchemas, customSchemas, value => setCustomSchemas(value));
+      importKeyed('categories', data.categories, categories, (value, mode) => {
+          setCategories(mergeCategoryMeta(value));
+          const groups = data.categoryGroups;
+          if (!groups) return;
+          setCategoryGroups(mergeGroups(mode === 'replace' ? groups : [...categoryGroups, ...groups.filter(g => !categoryGroups.some(l => l.key === g.key))]));
+      });
+
+      if (data.tagRules && modes.tagRules) {
+          const incoming = data.tagRules;
+          const base = { label: labelOf('tagRules'), mode: modes.tagRules, added: 0, updated: 0, skipped: 0, removed: 0 };
+          if (modes.tagRules === 'skip') {
+              report.push({ ...base, skipped: incoming.length });
+          } else if (modes.tagRules === 'replace') {
+              // Rules are keyed by keyword; identical ones count as skipped, not removed and re-added
+              const localByKeyword = new Map(tagRules.map(r => [r.keyword, r]));
+              const incomingKeywords = new Set(incoming.map(r => r.keyword));
+              const added = incoming.filter(r => !localByKeyword.has(r.keyword)).length;
+              const skipped = incoming.filter(r => localByKeyword.has(r.keyword) && stableStringify(localByKeyword.get(r.keyword)) === stableStringify(r)).length;
+              setTagRules(incoming);
+              report.push({ ...base, added, updated: incoming.length - added - skipped, skipped, removed: tagRules.filter(r => !incomingKeywords.has(r.keyword)).length });
+          } else {
+              const added = incoming.filter(r => !tagRules.some(l => l.keyword === r.keyword));
+              setTagRules([...tagRules, ...added]);
+              report.push({ ...base, added: added.length, skipped: incoming.length - added.length });
+          }
+      }
+
+      if (data.dismissedSuggestions && modes.dismissedSuggestions) {
+          const incoming = data.dismissedSuggestions.map(String);
+          const base = { label: labelOf('dismissedSuggestions'), mode: modes.dismissedSuggestions, added: 0, updated: 0, skipped: 0, removed: 0 };
+          const added = incoming.filter(k => !dismissedSuggestions.includes(k));
+          if (modes.dismissedSuggestions === 'skip') {
+              report.push({ ...base, skipped: incoming.length });
+          } else if (modes.dismissedSuggestions === 'replace') {
+              setDismissedSuggestions(incoming);
+              report.push({ ...base, added: added.length, skipped: incoming.length - added.length, removed: dismissedSuggestions.filter(k => !incoming.includes(k)).length });
+          } else {
+              setDismissedSuggestions([...dismissedSuggestions, ...added]);
+              report.push({ ...base, added: added.length, skipped: incoming.length - added.length });
+          }
+      }
+
+      // Settings objects: replace or keep
+      const importSingle = <T,>(key: BackupSectionKey, value: T | undefined, apply: (value: T) => void) => {
+          if (value === undefined || !modes[key]) return;
+          if (modes[key] === 'replace') apply(value);
+          report.push({ label: labelOf(key), mode: modes[key], added: 0, updated: modes[key] === 'replace' ? 1 : 0, skipped: modes[key] === 'replace' ? 0 : 1, removed: 0 });
+      };
+      importSingle('aiConfig', data.aiConfig, value => setAiConfig(prev => keepLocalModelKeys(mergeAISettings(value), prev)));
+      importSingle('chatSettings', data.chatSettings, value => setChatSettings(prev => ({ ...prev, ...value })));
+      importSingle('loggerState', data.loggerState, value => setLoggerState(value));
+      importSingle('profile', data.profile, value => setProfile(value));
+
+      setBackupImport({ ...backupImport, report });
+  };
+
+  const renderBackupPassphrase = () => lockedBackup && (
+      <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-gray-900 border border-gray-700 rounded-xl w-full max-w-sm p-6 shadow-2xl animate-fade-in">
+              <h3 className="text-lg font-bold flex items-center gap-2 mb-1">
+                  <Icons.Lock className="w-5 h-5 text-rose-400" /> Encrypted Backup
+              </h3>
+              <p className="text-xs text-gray-500 font-mono mb-4">{lockedBackup.fileName}</p>
+              <input 
+                  type="password" 
+                  autoFocus
+                  value={lockedBackup.passphrase} 
+                  onChange={e => setLockedBackup({ ...lockedBackup, passphrase: e.target.value, error: undefined })} 
+                  onKeyDown={e => e.key === 'Enter' && handleUnlockBackup()}
+                  placeholder="Backup passphrase" 
+                  className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm focus:border-rose-500 outline-none" 
+              />
+              {lockedBackup.error && <p className="text-xs text-red-400 mt-2">{lockedBackup.error}</p>}
+              <div className="flex justify-end gap-3 mt-4">
+                  <button onClick={() => setLockedBackup(null)} className="px-4 py-2 rounded text-sm text-gray-400 hover:bg-gray-800">Cancel</button>
+                  <button onClick={handleUnlockBackup} disabled={!lockedBackup.passphrase} className="px-4 py-2 rounded text-sm bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40">Decrypt</button>
+              </div>
+          </div>
+      </div>
+  );
+
+  const renderImportWizard = () => {
+      if (!backupImport) return null;
+      const { fileName, data, warnings, modes, conflictChoices, report } = backupImport;
+      const localOf: Partial<Record<BackupSectionKey, object>> = { entries, messages, rawLogs, customSchemas, categories, exchangeRates, budgets, recurringRules, tagRules };
+      const sections = BACKUP_SECTIONS.filter(s => modes[s.key]);
+      const entryConflicts = data.entries ? findRecordConflicts(entries, data.entries) : [];
+      const setMode = (key: string, mode: ImportMode) => setBackupImport({ ...backupImport, modes: { ...modes, [key]: mode } });
+      const chooseAll = (side: 'local' | 'incoming') => setBackupImport({
+          ...backupImport,
+          conflictChoices: Object.fromEntries(entryConflicts.map(c => [c.local.id, side]))
+      });
+
+      const describeSection = (key: BackupSectionKey, kind: string) => {
+          const incoming = data[key];
+          if (kind === 'single' || !incoming) return 'Settings';
+          if (!Array.isArray(incoming)) {
+              const keys = Object.keys(incoming);
+              return `${keys.length} in file · ${keys.filter(k => !(k in localOf[key]!)).length} new`;
+          }
+          if (key === 'tagRules') return `${incoming.length} in file`;
+          if (key === 'dismissedSuggestions') return `${incoming.length} in file · ${(incoming as string[]).filter(k => !dismissedSuggestions.includes(k)).length} new`;
+          const local = localOf[key] as { id: string }[];
+          const records = incoming as { id: string }[];
+          const localIds = new Set(local.map(r => r.id));
+          const conflicts = findRecordConflicts(local, records).length;
+          return `${records.length} in file · ${records.filter(r => !localIds.has(r.id)).length} new${conflicts ? ` · ${conflicts} differ` : ''}`;
+      };
+
+      // One side of a conflicting entry; fields that differ are highlighted
+      const renderEntrySide = (entry: Entry, other: Entry) => {
+          const keys = Array.from(new Set([...Object.keys(entry.details || {}), ...Object.keys(other.details || {})]));
+          const row = (label: string, value: string, otherValue: string) => (
+              <div key={label} className={`flex gap-1 ${value !== otherValue ? 'text-amber-300' : 'text-gray-400'}`}>
+                  <span className="text-gray-600 shrink-0">{label}:</span>
+                  <span className="break-all">{value}</span>
+              </div>
+          );
+          return (
+              <div className="space-y-0.5">
+                  {row('date', entry.date, other.date)}
+                  {row('category', entry.category, other.category)}
+                  {row('event', entry.event, other.event)}
+                  {keys.map(k => row(k, formatFieldValue(entry.details?.[k]), formatFieldValue(other.details?.[k])))}
+              </div>
+          );
+      };
+
+      return (
+          <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+              <div className="bg-gray-900 border border-gray-700 rounded-xl w-full max-w-3xl p-6 shadow-2xl animate-fade-in max-h-[90dvh] overflow-y-auto">
+                  <div className="flex justify-between items-center mb-4">
+                      <h3 className="text-xl font-bold flex items-center gap-2">
+                          <Icons.Upload className="w-5 h-5 text-green-400" /> Import Backup
+                      </h3>
+                      <button onClick={() => setBackupImport(null)}><Icons.X className="w-5 h-5 text-gray-500 hover:text-white" /></button>
+                  </div>
+                  <p className="text-xs text-gray-500 font-mono mb-4">
+                      {fileName}{data.meta?.exportedAt ? ` · exported ${new Date(data.meta.exportedAt).toLocaleString()}` : ''}
+                  </p>
+
+                  {report ? (
+                      <div className="space-y-4">
+                          <table className="w-full text-xs">
+                              <thead className="text-gray-500 text-left">
+                                  <tr>
+                                      <th className="py-1 font-medium">Section</th>
+                                      <th className="py-1 font-medium">Mode</th>
+                                      <th className="py-1 font-medium text-right">Added</th>
+                                      <th className="py-1 font-medium text-right">Updated</th>
+                                      <th className="py-1 font-medium text-right">Skipped</th>
+                                      <th className="py-1 font-medium text-right">Removed</th>
+                                  </tr>
+                              </thead>
+                              <tbody>
+                                  {report.map(r => (
+                                      <tr key={r.label} className="border-t border-gray-800">
+                                          <td className="py-1.5 text-gray-300">{r.label}</td>
+                                          <td className="py-1.5 text-gray-500 capitalize">{r.mode}</td>
+                                          <td className="py-1.5 text-right font-mono text-emerald-400">{r.added || ''}</td>
+                                          <td className="py-1.5 text-right font-mono text-blue-400">{r.updated || ''}</td>
+                                          <td className="py-1.5 text-right font-mono text-gray-500">{r.skipped || ''}</td>
+                                          <td className="py-1.5 text-right font-mono text-red-400">{r.removed || ''}</td>
+                                      </tr>
+                                  ))}
+                              </tbody>
+                          </table>
+                          <div className="flex justify-end">
+                              <button onClick={() => setBackupImport(null)} className="px-4 py-2 rounded text-sm bg-blue-600 hover:bg-blue-500 text-white">Done</button>
+                          </div>
+                      </div>
+                  ) : (
+                      <div className="space-y-4">
+                          {warnings.length > 0 && (
+                              <div className="bg-amber-900/20 border border-amber-700/50 rounded-lg p-3 text-xs text-amber-200 space-y-1">
+                                  {warnings.map((w, i) => <div key={i} className="flex gap-1"><Icons.AlertTriangle className="w-3 h-3 shrink-0 mt-0.5" /> {w}</div>)}
+                              </div>
+                          )}
+
+                          <div className="space-y-1">
+                              {sections.map(s => (
+                                  <div key={s.key} className="flex items-center gap-3 bg-gray-800/60 rounded px-3 py-2 text-xs">
+                                      <span className="w-40 text-gray-200">{s.label}</span>
+                                      <span className="flex-1 text-gray-500">{describeSection(s.key, s.kind)}</span>
+                                      <select 
+                                          value={modes[s.key]} 
+                                          onChange={e => setMode(s.key, e.target.value as ImportMode)} 
+                                          className="bg-gray-900 border border-gray-700 rounded px-2 py-1"
+                                      >
+                                          {s.kind !== 'single' && <option value="merge">Merge by id</option>}
+                                          <option value="replace">Replace</option>
+                                          <option value="skip">Skip</option>
+                                      </select>
+                                  </div>
+                              ))}
+                          </div>
+                          <p className="text-[10px] text-gray-500">
+                              Merge adds what is only in the file and keeps local records and settings where both have the same id; entry conflicts can be resolved below. Replace discards the local section.
+                          </p>
 
-  const handleImportData = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+                          {modes.entries === 'merge' && entryConflicts.length > 0 && (
+                              <div className="border border-gray-700 rounded-lg p-3 space-y-3">
+                                  <div className="flex items-center justify-between text-xs">
+                                      <span className="text-gray-300 font-bold">{entryConflicts.length} entries differ</span>
+                                      <div className="flex gap-2">
+                                          <button onClick={() => chooseAll('local')} className="px-2 py-0.5 rounded border border-gray-700 text-gray-400 hover:bg-gray-800">Keep all local</button>
+                                          <button onClick={() => chooseAll('incoming')} className="px-2 py-0.5 rounded border border-gray-700 text-gray-400 hover:bg-gray-800">Use all imported</button>
+                                      </div>
+                                  </div>
+                                  <div className="space-y-2 max-h-80 overflow-y-auto custom-scrollbar pr-1">
+                                      {entryConflicts.map(({ local, incoming }) => {
+                                          const choice = conflictChoices[local.id] || 'local';
+                                          const pick = (side: 'local' | 'incoming') => setBackupImport({ ...backupImport, conflictChoices: { ...conflictChoices, [local.id]: side } });
+                                          return (
+                                              <div key={local.id} className="grid grid-cols-2 gap-2 text-[10px] font-mono">
+                                                  {(['local', 'incoming'] as const).map(side => (
+                                                      <button 
+                                                          key={side}
+                                                          onClick={() => pick(side)}
+                                                          className={`text-left rounded p-2 border ${choice === side ? 'border-blue-500 bg-blue-900/20' : 'border-gray-800 bg-gray-800/40 opacity-60 hover:opacity-100'}`}
+                                                      >
+                                                          <div className="text-[10px] uppercase text-gray-500 mb-1 font-sans">{side === 'local' ? 'This device' : 'Backup'}</div>
+                                                          {side === 'local' ? renderEntrySide(local, incoming) : renderEntrySide(incoming, local)}
+                                                      </button>
+                                                  ))}
+                                              </div>
+                                          );
+                                      })}
+                                  </div>
+                              </div>
+                          )}
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      try {
-        const json = JSON.parse(event.target?.result as string);
-        if (json.meta?.app === 'Gemini LifeOS' || confirm("File format unknown. Try to import anyway?")) {
-             if (json.entries) setEntries(json.entries);
-             if (json.messages) setMessages(json.messages);
-             if (json.rawLogs) setRawLogs(json.rawLogs);
-             if (json.customSchemas) setCustomSchemas(json.customSchemas);
-             if (json.aiConfig) setAiConfig(json.aiConfig);
-             if (json.chatSettings) setChatSettings(json.chatSettings);
-             alert("Data imported successfully!");
-        }
-      } catch (err) {
-        alert("Invalid JSON file");
-      }
-    };
-    reader.readAsText(file);
-    e.target.value = ''; // Reset
+                          <div className="flex justify-end gap-3">
+                              <button onClick={() => setBackupImport(null)} className="px-4 py-2 rounded text-sm text-gray-400 hover:bg-gray-800">Cancel</button>
+                              <button onClick={handleApplyImport} className="px-4 py-2 rounded text-sm bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-900/20">Import</button>
+                          </div>
+                      </div>
+                  )}
+              </div>
+          </div>
+      );
   };
 
   // --- Modal Form for Editing ---
@@ -1198,6 +6575,8 @@ User Input: "${text}"
   const renderEditModal = () => {
       if (!editingEntry) return null;
       const schema = customSchemas[editingEntry.category] || [];
+      // Live validation for computed values and rule checks
+      const checked = validateEntry(editingEntry, customSchemas, categories, formatDate(new Date()), new Map(entries.map(e => [e.id, e])));
       
       const updateDetail = (key: string, val: any) => {
           setEditingEntry({
@@ -1225,14 +6604,47 @@ User Input: "${text}"
               <div className="bg-gray-900 border border-gray-700 rounded-xl w-full max-w-md p-6 shadow-2xl animate-fade-in max-h-[90dvh] overflow-y-auto">
                   <div className="flex justify-between items-center mb-6">
                       <div className="flex items-center gap-3">
-                           <div className={`p-2 rounded-lg ${BASE_CATEGORY_META[editingEntry.category]?.color || 'bg-gray-600'}`}>
-                               <IconComponent name={BASE_CATEGORY_META[editingEntry.category]?.icon || 'Hash'} className="w-5 h-5 text-white" />
+                           <div className={`p-2 rounded-lg ${categories[editingEntry.category]?.color || 'bg-gray-600'}`}>
+                               <IconComponent name={categories[editingEntry.category]?.icon || 'Hash'} className="w-5 h-5 text-white" />
                            </div>
-                           <h3 className="text-xl font-bold">{BASE_CATEGORY_META[editingEntry.category]?.label || editingEntry.category}</h3>
+                           <h3 className="text-xl font-bold">{categories[editingEntry.category]?.label || editingEntry.category}</h3>
                       </div>
                       <button onClick={handleClose}><Icons.X className="w-5 h-5 text-gray-500 hover:text-white" /></button>
                   </div>
                   
+                  {editingEntry.issues && (
+                      <div className="mb-4 bg-amber-900/20 border border-amber-700/50 rounded-lg p-3 text-xs text-amber-200">
+                          <div className="flex justify-between items-center mb-1">
+                              <span className="font-bold flex items-center gap-1"><Icons.AlertTriangle className="w-3 h-3" /> Needs review</span>
+                              <button 
+                                onClick={() => {
+                                    const { issues, ...rest } = editingEntry;
+                                    setEditingEntry(rest);
+                                }} 
+                                className="text-[10px] px-2 py-0.5 rounded border border-amber-700/50 hover:bg-amber-900/40"
+                              >
+                                  Mark reviewed
+                              </button>
+                          </div>
+                          <ul className="list-disc list-inside space-y-0.5 text-amber-300/80">
+                              {editingEntry.issues.map((issue, i) => <li key={i}>{issue.message}</li>)}
+                          </ul>
+                      </div>
+                  )}
+
+                  {(() => {
+                      const source = editingEntry.rawLogId && rawLogs.find(l => l.id === editingEntry.rawLogId);
+                      if (!source) return null;
+                      return (
+                          <div className="mb-4 bg-gray-800/60 border border-gray-700 rounded-lg p-3 text-xs text-gray-400">
+                              <div className="flex items-center gap-1 text-gray-500 mb-1">
+                                  <Icons.Quote className="w-3 h-3" /> Source · {new Date(source.timestamp).toLocaleString()}
+                              </div>
+                              <div className="whitespace-pre-wrap text-gray-300">{source.text}</div>
+                          </div>
+                      );
+                  })()}
+
                   <div className="space-y-4">
                       {/* Core Fields */}
                       <div>
@@ -1246,69 +6658,889 @@ User Input: "${text}"
                                  className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-sm focus:border-blue-500 outline-none" />
                       </div>
 
-                      <div className="h-px bg-gray-800 my-4" />
-                      
-                      {/* Dynamic Details based on Schema */}
-                      <div className="space-y-4">
-                          {schema.length > 0 ? schema.map((field) => (
-                              <div key={field.key}>
-                                  <label className="block text-xs text-gray-500 uppercase mb-1 flex items-center gap-1">
-                                    {field.label}
-                                    {field.required && <span className="text-red-500">*</span>}
-                                  </label>
-                                  {field.type === 'select' && (
-                                      <select 
-                                        value={editingEntry.details[field.key] || ''} 
-                                        onChange={e => updateDetail(field.key, e.target.value)}
-                                        className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-sm"
-                                      >
-                                          <option value="">Select...</option>
-                                          {(field.options || []).map(o => <option key={o} value={o}>{o}</option>)}
-                                      </select>
-                                  )}
-                                  {field.type === 'multiselect' && (
-                                      <div className="flex flex-wrap gap-2">
-                                          {(field.options || []).map(o => {
-                                              const rawVal = editingEntry.details[field.key];
-                                              const list = Array.isArray(rawVal) ? rawVal : [];
-                                              const selected = list.includes(o);
-                                              return (
-                                                  <button key={o} onClick={() => {
-                                                      const curr = Array.isArray(editingEntry.details[field.key]) ? editingEntry.details[field.key] : [];
-                                                      const next = selected ? curr.filter((x:string) => x!==o) : [...curr, o];
-                                                      updateDetail(field.key, next);
-                                                  }} className={`px-2 py-1 rounded text-xs border ${selected ? 'bg-blue-600 border-blue-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400'}`}>
-                                                      {o}
-                                                  </button>
-                                              );
-                                          })}
-                                      </div>
-                                  )}
-                                  {(field.type === 'text' || field.type === 'number' || field.type === 'rating') && (
-                                      <input 
-                                        type={field.type === 'number' || field.type === 'rating' ? 'number' : 'text'}
-                                        value={editingEntry.details[field.key] || ''}
-                                        onChange={e => updateDetail(field.key, field.type === 'number' ? parseFloat(e.target.value) : e.target.value)}
-                                        className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-sm"
-                                        placeholder={field.placeholder || (field.unit ? `Unit: ${field.unit}` : '')}
-                                      />
-                                  )}
-                              </div>
-                          )) : (
-                              // Fallback for no schema
-                              <div className="text-gray-500 text-xs">No specific fields configured.</div>
-                          )}
+                      <div className="h-px bg-gray-800 my-4" />
+                      
+                      {/* Dynamic Details based on Schema */}
+                      <div className="space-y-4">
+                          {schema.length > 0 ? schema.map((field) => (
+                              <div key={field.key}>
+                                  <label className="block text-xs text-gray-500 uppercase mb-1 flex items-center gap-1">
+                                    {field.label}
+                                    {field.required && <span className="text-red-500">*</span>}
+                                  </label>
+                                  <FieldInput field={field} value={field.formula ? checked.details[field.key] : editingEntry.details[field.key]} onChange={val => updateDetail(field.key, val)} entries={entries} />
+                                  {editingEntry.issues?.filter(i => i.field === field.key).map((issue, i) => (
+                                      <p key={i} className="text-[10px] text-amber-400 mt-1">{issue.message}</p>
+                                  ))}
+                              </div>
+                          )) : (
+                              // Fallback for no schema
+                              <div className="text-gray-500 text-xs">No specific fields configured.</div>
+                          )}
+                      </div>
+                  </div>
+
+                  <div className="mt-6 flex justify-end gap-3 pb-safe-offset">
+                      <button onClick={handleClose} className="px-4 py-2 rounded text-sm text-gray-400 hover:bg-gray-800">Cancel</button>
+                      <button onClick={() => {
+                          // Re-validate so fixed fields clear their warnings (reviewed entries stay clean)
+                          const { issues, ...valid } = checked;
+                          // Broken field rules block the save until fixed
+                          const broken = issues.filter(i => i.rule);
+                          if (broken.length) {
+                              setEditingEntry({ ...editingEntry, issues: broken });
+                              return;
+                          }
+                          const { issues: _previous, ...base } = editingEntry;
+                          const saved: Entry = { ...base, ...valid, ...(issues.length && editingEntry.issues ? { issues } : {}) };
+                          setEntries(prev => prev.map(e => e.id === editingEntry.id ? saved : e));
+                          notifyBudgetAlerts([saved]);
+                          setEditingEntry(null);
+                      }} className="px-4 py-2 rounded text-sm bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-900/20">Save Changes</button>
+                  </div>
+              </div>
+          </div>
+      );
+  };
+
+  // Chips for the entries a reply was based on; deleted entries drop out
+  const renderCitations = (msg: ChatMessage) => {
+      if (!msg.citedEntryIds?.length || msg.id === streamingMsgId) return null;
+      const cited = msg.citedEntryIds.map(id => entries.find(e => e.id === id)).filter((e): e is Entry => !!e);
+      if (cited.length === 0) return null;
+
+      return (
+          <div className="mt-3 pt-2 border-t border-gray-700/60">
+              <div className="text-[10px] text-gray-500 mb-1.5 flex items-center gap-1">
+                  <Icons.Database className="w-3 h-3" /> Based on {cited.length} record{cited.length > 1 ? 's' : ''}
+              </div>
+              <div className="flex flex-wrap gap-1.5 max-h-24 overflow-y-auto no-scrollbar">
+                  {cited.map(entry => {
+                      const meta = getCategoryMeta(categories, entry.category);
+                      return (
+                          <button 
+                              key={entry.id} 
+                              onClick={() => setEditingEntry(entry)}
+                              className="flex items-center gap-1 bg-gray-900/70 border border-gray-700 hover:border-blue-500 rounded-full pl-1 pr-2 py-0.5 text-[10px] text-gray-300"
+                          >
+                              <span className={`p-0.5 rounded-full ${meta.color}`}><IconComponent name={meta.icon} className="w-2.5 h-2.5 text-white" /></span>
+                              <span className="truncate max-w-[120px]">{entry.event}</span>
+                              <span className="text-gray-500">{entry.date.slice(5)}</span>
+                          </button>
+                      );
+                  })}
+              </div>
+          </div>
+      );
+  };
+
+  const renderDraftCards = (msg: ChatMessage) => {
+      if (!msg.drafts?.length) return null;
+      const pending = msg.drafts.filter(d => d.status === 'pending');
+
+      return (
+          <div className="mt-3 space-y-2 font-sans">
+              {msg.drafts.map(draft => {
+                  const meta = getCategoryMeta(categories, draft.category);
+                  if (draft.status !== 'pending') {
+                      return (
+                          <div key={draft.id} className="flex items-center gap-2 text-[10px] text-gray-500">
+                              {draft.status === 'accepted' 
+                                  ? <Icons.Check className="w-3 h-3 text-green-400" /> 
+                                  : <Icons.X className="w-3 h-3 text-gray-600" />}
+                              <span className={draft.status === 'discarded' ? 'line-through' : ''}>[{draft.date}] {meta.label} · {draft.event}</span>
+                          </div>
+                      );
+                  }
+
+                  const isExpanded = expandedDraftId === draft.id;
+                  const fields = customSchemas[draft.category] || [];
+                  const update = (changes: Partial<DraftEntry>) => updateDraft(msg.id, draft.id, changes);
+                  return (
+                      <div key={draft.id} className={`bg-gray-900/80 border rounded-lg p-3 text-xs ${draft.issues ? 'border-amber-600/50' : 'border-gray-700'}`}>
+                          <div className="flex items-center gap-2 mb-2">
+                              <div className={`p-1 rounded ${meta.color} text-white`}>
+                                  <IconComponent name={meta.icon} className="w-3 h-3" />
+                              </div>
+                              <select 
+                                value={draft.category}
+                                onChange={e => update({ category: e.target.value })}
+                                className="bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-[10px]"
+                                title="Re-categorize"
+                              >
+                                  {Array.from(new Set([...activeCategoryKeys(categories, categoryGroups), draft.category])).map(key => (
+                                      <option key={key} value={key}>{getCategoryMeta(categories, key).label}</option>
+                                  ))}
+                              </select>
+                              <span className="font-bold text-gray-200 flex-1 truncate">{draft.event}</span>
+                              {draft.confidence !== undefined && (
+                                  <span className="text-[10px] text-gray-500 font-mono" title="Organizer confidence">{Math.round(draft.confidence * 100)}%</span>
+                              )}
+                          </div>
+
+                          {isExpanded ? (
+                              <div className="space-y-3">
+                                  <div className="grid grid-cols-2 gap-2">
+                                      <input type="date" value={draft.date} onChange={e => update({ date: e.target.value })} 
+                                             className="bg-gray-800 border border-gray-700 rounded p-2 text-sm focus:border-blue-500 outline-none" />
+                                      <input type="text" value={draft.event} onChange={e => update({ event: e.target.value })} 
+                                             className="bg-gray-800 border border-gray-700 rounded p-2 text-sm focus:border-blue-500 outline-none" />
+                                  </div>
+                                  {fields.map(field => (
+                                      <div key={field.key}>
+                                          <label className="block text-[10px] text-gray-500 uppercase mb-1">
+                                              {field.label}
+                                              {field.required && <span className="text-red-500 ml-1">*</span>}
+                                          </label>
+                                          <FieldInput field={field} value={field.formula ? evaluateFormula(field.formula, draft.details) ?? undefined : draft.details[field.key]} onChange={val => update({ details: { ...draft.details, [field.key]: val } })} entries={entries} />
+                                          {draft.issues?.filter(i => i.field === field.key).map((issue, i) => (
+                                              <p key={i} className="text-[10px] text-amber-400 mt-1">{issue.message}</p>
+                                          ))}
+                                      </div>
+                                  ))}
+                              </div>
+                          ) : (
+                              <div className="text-gray-400">
+                                  <div className="text-[10px] text-gray-600 font-mono mb-1">{draft.date}</div>
+                                  {renderDetails(draft.category, draft.details, customSchemas[draft.category], entries)}
+                                  {draft.issues && (
+                                      <ul className="mt-2 text-[10px] text-amber-400 space-y-0.5">
+                                          {draft.issues.map((issue, i) => <li key={i}>⚠ {issue.message}</li>)}
+                                      </ul>
+                                  )}
+                              </div>
+                          )}
+
+                          <div className="flex gap-2 mt-3 justify-end">
+                              <button onClick={() => update({ status: 'discarded' })} className="px-2 py-1 rounded text-[10px] text-gray-400 hover:bg-gray-800 border border-gray-700">
+                                  Discard
+                              </button>
+                              <button onClick={() => setExpandedDraftId(isExpanded ? null : draft.id)} className="px-2 py-1 rounded text-[10px] text-blue-300 hover:bg-blue-900/30 border border-blue-800/50">
+                                  {isExpanded ? 'Done' : 'Edit'}
+                              </button>
+                              <button onClick={() => handleAcceptDrafts(msg.id, [draft])} className="px-2 py-1 rounded text-[10px] bg-green-700 hover:bg-green-600 text-white">
+                                  Accept
+                              </button>
+                          </div>
+                      </div>
+                  );
+              })}
+              {pending.length > 1 && (
+                  <button onClick={() => handleAcceptDrafts(msg.id, pending)} className="w-full py-1.5 rounded text-[10px] bg-green-900/30 text-green-300 border border-green-800/50 hover:bg-green-900/50">
+                      Accept all {pending.length}
+                  </button>
+              )}
+          </div>
+      );
+  };
+
+  const renderReprocessPanel = () => {
+      const logsById = new Map(rawLogs.map(l => [l.id, l]));
+      const changed = reprocessResults.filter(r => r.status !== 'unchanged');
+      const undecided = changed.filter(r => r.status === 'changed' && !r.decision);
+      const unchangedCount = reprocessResults.length - changed.length;
+
+      const renderPair = ({ before, after }: EntryPair, key: number) => {
+          const sample = (after || before)!;
+          const meta = getCategoryMeta(categories, sample.category);
+          const fields = customSchemas[sample.category] || [];
+          const labelOf = (k: string) => fields.find(f => f.key === k)?.label || k;
+          const rows = [
+              ['date', before?.date, after?.date],
+              ['event', before?.event, after?.event],
+              ...Array.from(new Set([...Object.keys(before?.details || {}), ...Object.keys(after?.details || {})]))
+                  .map(k => [k, before?.details[k], after?.details[k]])
+          ].filter(([, b, a]) => formatFieldValue(b) !== formatFieldValue(a));
+
+          return (
+              <div key={key} className="bg-gray-900/60 rounded p-2 text-[11px]">
+                  <div className="flex items-center gap-2 mb-1">
+                      <span className={`p-0.5 rounded ${meta.color}`}><IconComponent name={meta.icon} className="w-3 h-3 text-white" /></span>
+                      <span className="font-medium text-gray-300">{sample.event}</span>
+                      {!before && <span className="text-green-400 text-[10px] uppercase">New</span>}
+                      {!after && <span className="text-red-400 text-[10px] uppercase">Not extracted</span>}
+                      {before && after && rows.length === 0 && <span className="text-gray-500 text-[10px]">Identical</span>}
+                  </div>
+                  {before && after && rows.map(([k, b, a]) => (
+                      <div key={k} className="grid grid-cols-[80px_1fr_1fr] gap-2 py-0.5">
+                          <span className="text-gray-500 truncate">{k === 'date' || k === 'event' ? k : labelOf(k)}</span>
+                          <span className="text-red-300/80 line-through break-all">{formatFieldValue(b)}</span>
+                          <span className="text-green-300 break-all">{formatFieldValue(a)}</span>
+                      </div>
+                  ))}
+                  {(!before || !after) && (
+                      <div className="text-gray-400 break-all">
+                          [{sample.date}] {Object.entries(sample.details).filter(([, v]) => !isEmptyValue(v)).map(([k, v]) => `${labelOf(k)}: ${formatFieldValue(v)}`).join(' · ')}
+                      </div>
+                  )}
+              </div>
+          );
+      };
+
+      return (
+          <div className="flex flex-col gap-4">
+              <h4 className="text-lg font-bold text-gray-300 flex items-center gap-2">
+                  <Icons.History className="w-5 h-5 text-orange-400" />
+                  Reprocess Raw Logs
+              </h4>
+              <p className="text-xs text-gray-500">
+                  Re-run the organizer with the current instructions and schemas over past inputs, then compare with the entries they produced.
+              </p>
+              <div className="flex flex-wrap items-end gap-3 bg-gray-900 border border-gray-700 rounded-lg p-4">
+                  <label className="text-xs text-gray-500 flex flex-col gap-1">
+                      From
+                      <input type="date" value={reprocessRange.start} onChange={e => setReprocessRange({ ...reprocessRange, start: e.target.value })} className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200" />
+                  </label>
+                  <label className="text-xs text-gray-500 flex flex-col gap-1">
+                      To
+                      <input type="date" value={reprocessRange.end} onChange={e => setReprocessRange({ ...reprocessRange, end: e.target.value })} className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200" />
+                  </label>
+                  <label className="text-xs text-gray-500 flex flex-col gap-1">
+                      Requests / min
+                      <input 
+                          type="number" min="1" max="60"
+                          value={reprocessRate}
+                          onChange={e => {
+                              const val = parseInt(e.target.value);
+                              setReprocessRate(isNaN(val) ? 1 : Math.min(60, Math.max(1, val)));
+                          }}
+                          className="w-24 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm font-mono text-gray-200"
+                      />
+                  </label>
+                  {reprocessProgress ? (
+                      <button onClick={() => reprocessAbortRef.current?.abort()} className="flex items-center gap-2 px-4 py-1.5 bg-red-900/50 hover:bg-red-800 text-red-200 rounded text-sm border border-red-800">
+                          <Icons.Square className="w-3 h-3" /> Stop
+                      </button>
+                  ) : (
+                      <button onClick={handleStartReprocess} className="flex items-center gap-2 px-4 py-1.5 bg-orange-600 hover:bg-orange-500 text-white rounded text-sm">
+                          <Icons.Play className="w-3 h-3" /> Start
+                      </button>
+                  )}
+                  {reprocessProgress && (
+                      <div className="w-full flex items-center gap-2 text-xs text-gray-400">
+                          <div className="flex-1 h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                              <div className="h-full bg-orange-500 transition-all" style={{ width: `${(reprocessProgress.done / reprocessProgress.total) * 100}%` }} />
+                          </div>
+                          <span className="font-mono">{reprocessProgress.done}/{reprocessProgress.total}</span>
+                      </div>
+                  )}
+              </div>
+
+              {reprocessResults.length > 0 && (
+                  <div className="space-y-3">
+                      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-400">
+                          <span>
+                              {changed.filter(r => r.status === 'changed').length} changed · {unchangedCount} unchanged
+                              {changed.some(r => r.status === 'error') && <span className="text-red-400"> · {changed.filter(r => r.status === 'error').length} failed</span>}
+                          </span>
+                          {undecided.length > 0 && (
+                              <div className="flex gap-2">
+                                  <button onClick={() => handleApplyReprocess(undecided, 'keep')} className="px-2 py-1 rounded bg-gray-800 border border-gray-700 hover:bg-gray-700">Keep all</button>
+                                  <button onClick={() => handleApplyReprocess(undecided, 'merge')} className="px-2 py-1 rounded bg-blue-900/40 border border-blue-800 text-blue-300 hover:bg-blue-900/60">Merge all</button>
+                                  <button onClick={() => {
+                                      if (window.confirm(`Replace the entries of ${undecided.length} logs with the new extraction?`)) handleApplyReprocess(undecided, 'replace');
+                                  }} className="px-2 py-1 rounded bg-orange-900/40 border border-orange-800 text-orange-300 hover:bg-orange-900/60">Replace all</button>
+                              </div>
+                          )}
+                      </div>
+
+                      {changed.map(result => {
+                          const log = logsById.get(result.logId);
+                          const before = entries.filter(e => result.oldEntryIds.includes(e.id));
+                          return (
+                              <div key={result.logId} className={`border rounded-lg p-3 space-y-2 ${result.status === 'error' ? 'border-red-900/60 bg-red-900/10' : 'border-gray-700 bg-gray-800/40'}`}>
+                                  <div className="flex items-start gap-2">
+                                      <div className="flex-1 min-w-0">
+                                          <div className="text-[10px] text-gray-500 font-mono">{log ? new Date(log.timestamp).toLocaleString() : result.logId}</div>
+                                          <div className="text-sm text-gray-300 line-clamp-2">{log?.text}</div>
+                                      </div>
+                                      {result.decision ? (
+                                          <span className="text-xs text-green-400 flex items-center gap-1 shrink-0">
+                                              <Icons.Check className="w-3 h-3" /> {result.decision === 'keep' ? 'Kept' : result.decision === 'merge' ? 'Merged' : 'Replaced'}
+                                          </span>
+                                      ) : result.status === 'changed' && (
+                                          <div className="flex gap-1 shrink-0 text-xs">
+                                              <button onClick={() => handleApplyReprocess([result], 'keep')} className="px-2 py-1 rounded bg-gray-800 border border-gray-700 hover:bg-gray-700">Keep</button>
+                                              {before.length > 0 && (
+                                                  <button onClick={() => handleApplyReprocess([result], 'merge')} className="px-2 py-1 rounded bg-blue-900/40 border border-blue-800 text-blue-300 hover:bg-blue-900/60">Merge</button>
+                                              )}
+                                              <button onClick={() => handleApplyReprocess([result], 'replace')} className="px-2 py-1 rounded bg-orange-900/40 border border-orange-800 text-orange-300 hover:bg-orange-900/60">
+                                                  {before.length > 0 ? 'Replace' : 'Add'}
+                                              </button>
+                                          </div>
+                                      )}
+                                  </div>
+                                  {result.status === 'error' ? (
+                                      <div className="text-xs text-red-400">{result.error}</div>
+                                  ) : !result.decision && (
+                                      <div className="space-y-1">
+                                          {before.length === 0 && (
+                                              <div className="text-[10px] text-gray-500">No entries linked to this log (deleted, or recorded without provenance).</div>
+                                          )}
+                                          {pairEntries(before, result.proposed).map(renderPair)}
+                                      </div>
+                                  )}
+                              </div>
+                          );
+                      })}
+                  </div>
+              )}
+          </div>
+      );
+  };
+
+  // --- Category Manager ---
+
+  const updateCategory = (key: string, changes: Partial<CategoryMeta>) => {
+      setCategories(prev => ({ ...prev, [key]: { ...prev[key], ...changes } }));
+  };
+
+  // Swap with the neighbouring category of the same group; record key order is the display order
+  const moveCategory = (key: string, dir: -1 | 1) => {
+      const keys = Object.keys(categories);
+      const siblings = keys.filter(k => categories[k].group === categories[key].group);
+      const other = siblings[siblings.indexOf(key) + dir];
+      if (!other) return;
+      const a = keys.indexOf(key), b = keys.indexOf(other);
+      [keys[a], keys[b]] = [keys[b], keys[a]];
+      setCategories(Object.fromEntries(keys.map(k => [k, categories[k]])));
+  };
+
+  const handleAddCategory = (group: string) => {
+      const key = `custom_${Math.random().toString(36).substr(2, 6)}`;
+      setCategories(prev => ({ ...prev, [key]: { group, color: 'bg-gray-500', icon: 'Hash', label: '新模块' } }));
+      setCustomSchemas(prev => ({ ...prev, [key]: createSchema([]) }));
+      setStylingCategory(key);
+  };
+
+  const updateGroup = (key: string, changes: Partial<GroupMeta>) => {
+      setCategoryGroups(prev => prev.map(g => g.key === key ? { ...g, ...changes } : g));
+  };
+
+  const moveGroup = (key: string, dir: -1 | 1) => {
+      const idx = categoryGroups.findIndex(g => g.key === key);
+      const target = idx + dir;
+      if (target < 0 || target >= categoryGroups.length) return;
+      const next = [...categoryGroups];
+      [next[idx], next[target]] = [next[target], next[idx]];
+      setCategoryGroups(next);
+  };
+
+  const handleAddGroup = () => {
+      const label = window.prompt("New group name:");
+      if (!label?.trim()) return;
+      setCategoryGroups(prev => [...prev, { key: `group_${Math.random().toString(36).substr(2, 6)}`, label: label.trim() }]);
+  };
+
+  const renderCategoryManager = () => {
+      const keys = Object.keys(categories);
+      const entryCounts = entries.reduce((acc, e) => ({ ...acc, [e.category]: (acc[e.category] || 0) + 1 }), {} as Record<string, number>);
+      // Categories pointing at a group that no longer exists show up under the first group
+      const groupOf = (key: string) => categoryGroups.some(g => g.key === categories[key].group) ? categories[key].group : categoryGroups[0]?.key;
+
+      return (
+          <div className="flex flex-col gap-4">
+              <div className="flex items-center justify-between">
+                  <h4 className="text-lg font-bold text-gray-300 flex items-center gap-2">
+                      <Icons.LayoutGrid className="w-5 h-5 text-emerald-400" />
+                      Categories & Groups
+                  </h4>
+                  <button onClick={handleAddGroup} className="text-xs px-3 py-1 rounded border border-gray-700 bg-gray-800 hover:bg-gray-700 flex items-center gap-1">
+                      <Icons.FolderPlus className="w-3 h-3" /> New Group
+                  </button>
+              </div>
+              <p className="text-xs text-gray-500">
+                  Drives the dashboard grid and the categories the organizer may choose. Archiving hides a category from both, its entries are kept.
+              </p>
+
+              <div className="space-y-4">
+                  {categoryGroups.map((group, gi) => (
+                      <div key={group.key} className={`bg-gray-900 border border-gray-700 rounded-lg p-3 ${group.archived ? 'opacity-50' : ''}`}>
+                          <div className="flex items-center gap-2 mb-2">
+                              <input 
+                                  value={group.label}
+                                  onChange={e => updateGroup(group.key, { label: e.target.value })}
+                                  className="flex-1 bg-transparent border-b border-transparent hover:border-gray-700 focus:border-emerald-500 outline-none text-sm font-bold uppercase tracking-wider text-gray-400"
+                              />
+                              <button onClick={() => moveGroup(group.key, -1)} disabled={gi === 0} className="p-1 text-gray-500 hover:text-white disabled:opacity-20"><Icons.ChevronUp className="w-4 h-4" /></button>
+                              <button onClick={() => moveGroup(group.key, 1)} disabled={gi === categoryGroups.length - 1} className="p-1 text-gray-500 hover:text-white disabled:opacity-20"><Icons.ChevronDown className="w-4 h-4" /></button>
+                              <button onClick={() => updateGroup(group.key, { archived: !group.archived })} className="text-[10px] px-2 py-0.5 rounded border border-gray-700 text-gray-400 hover:bg-gray-800">
+                                  {group.archived ? 'Restore' : 'Archive'}
+                              </button>
+                              <button onClick={() => handleAddCategory(group.key)} className="text-[10px] px-2 py-0.5 rounded border border-emerald-800 text-emerald-300 bg-emerald-900/20 hover:bg-emerald-900/40 flex items-center gap-1">
+                                  <Icons.Plus className="w-3 h-3" /> Category
+                              </button>
+                          </div>
+
+                          <div className="space-y-1">
+                              {keys.filter(key => groupOf(key) === group.key).map((key, ci, siblings) => {
+                                  const meta = categories[key];
+                                  return (
+                                      <div key={key} className={meta.archived ? 'opacity-50' : ''}>
+                                          <div className="flex items-center gap-2 bg-gray-800/60 rounded px-2 py-1">
+                                              <button 
+                                                  onClick={() => setStylingCategory(stylingCategory === key ? null : key)}
+                                                  className={`p-1.5 rounded ${meta.color} text-white shrink-0`}
+                                                  title="Color & icon"
+                                              >
+                                                  <IconComponent name={meta.icon} className="w-3.5 h-3.5" />
+                                              </button>
+                                              <input 
+                                                  value={meta.label}
+                                                  onChange={e => updateCategory(key, { label: e.target.value })}
+                                                  className="flex-1 min-w-0 bg-transparent border-b border-transparent hover:border-gray-700 focus:border-emerald-500 outline-none text-sm"
+                                              />
+                                              <span className="hidden md:inline text-[10px] text-gray-600 font-mono">{key} · {entryCounts[key] || 0}</span>
+                                              <select 
+                                                  value={group.key}
+                                                  onChange={e => updateCategory(key, { group: e.target.value })}
+                                                  className="bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-[10px]"
+                                                  title="Group"
+                                              >
+                                                  {categoryGroups.map(g => <option key={g.key} value={g.key}>{g.label}</option>)}
+                                              </select>
+                                              <button onClick={() => moveCategory(key, -1)} disabled={ci === 0} className="p-0.5 text-gray-500 hover:text-white disabled:opacity-20"><Icons.ChevronUp className="w-3.5 h-3.5" /></button>
+                                              <button onClick={() => moveCategory(key, 1)} disabled={ci === siblings.length - 1} className="p-0.5 text-gray-500 hover:text-white disabled:opacity-20"><Icons.ChevronDown className="w-3.5 h-3.5" /></button>
+                                              <button 
+                                                  onClick={() => updateCategory(key, { archived: !meta.archived })}
+                                                  disabled={key === 'other'}
+                                                  className="p-0.5 text-gray-500 hover:text-white disabled:opacity-20"
+                                                  title={key === 'other' ? 'Fallback category, cannot be archived' : meta.archived ? 'Restore' : 'Archive'}
+                                              >
+                                                  {meta.archived ? <Icons.ArchiveRestore className="w-3.5 h-3.5" /> : <Icons.Archive className="w-3.5 h-3.5" />}
+                                              </button>
+                                          </div>
+                                          {stylingCategory === key && (
+                                              <div className="bg-gray-800/40 rounded p-2 mt-1 space-y-2 animate-fade-in">
+                                                  <div className="flex flex-wrap gap-1">
+                                                      {CATEGORY_COLORS.map(color => (
+                                                          <button 
+                                                              key={color} 
+                                                              onClick={() => updateCategory(key, { color })}
+                                                              className={`w-5 h-5 rounded ${color} ${meta.color === color ? 'ring-2 ring-white' : ''}`}
+                                                          />
+                                                      ))}
+                                                  </div>
+                                                  <div className="flex flex-wrap gap-1">
+                                                      {CATEGORY_ICONS.map(icon => (
+                                                          <button 
+                                                              key={icon} 
+                                                              onClick={() => updateCategory(key, { icon })}
+                                                              className={`p-1 rounded ${meta.icon === icon ? 'bg-gray-600 text-white' : 'text-gray-400 hover:bg-gray-700'}`}
+                                                              title={icon}
+                                                          >
+                                                              <IconComponent name={icon} className="w-4 h-4" />
+                                                          </button>
+                                                      ))}
+                                                  </div>
+                                              </div>
+                                          )}
+                                      </div>
+                                  );
+                              })}
+                          </div>
+                      </div>
+                  ))}
+              </div>
+          </div>
+      );
+  };
+
+  const renderStatementImport = () => {
+      const paymentOptions = customSchemas.finance_tracking?.find(f => f.key === 'payment_method')?.options || [];
+      const selectClass = "bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs outline-none focus:border-green-500";
+      const header = statementImport?.rows[statementImport.mapping.headerRow] || [];
+      const columnSelect = (value: number, onChange: (index: number) => void, optional = false) => (
+          <select value={value} onChange={e => onChange(Number(e.target.value))} className={selectClass}>
+              {optional && <option value={-1}>—</option>}
+              {header.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+          </select>
+      );
+
+      return (
+          <div className="flex flex-col gap-4">
+              <div className="flex items-center justify-between">
+                  <h4 className="text-lg font-bold text-gray-300 flex items-center gap-2">
+                      <Icons.Receipt className="w-5 h-5 text-green-400" />
+                      Import Bill Statements
+                  </h4>
+                  <div className="flex gap-2">
+                      <button onClick={() => setShowTagRules(!showTagRules)} className="text-xs px-3 py-1 rounded border border-gray-700 bg-gray-800 hover:bg-gray-700">
+                          Tag Rules
+                      </button>
+                      <button onClick={() => statementInputRef.current?.click()} className="text-xs px-3 py-1 rounded border border-gray-700 bg-gray-800 hover:bg-gray-700 flex items-center gap-1">
+                          <Icons.Upload className="w-3 h-3" /> Choose CSV
+                      </button>
+                      <input type="file" ref={statementInputRef} onChange={handleStatementFile} className="hidden" accept=".csv,text/csv" />
+                  </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                  Alipay and WeChat Pay bill exports are recognised automatically; other bank CSVs get a column mapping. Tags come from the merchant's earlier entries, then from the tag rules.
+              </p>
+
+              {showTagRules && (
+                  <div className="space-y-1">
+                      <textarea 
+                          key={tagRules.map(r => `${r.keyword}=${r.tag}`).join('\n')}
+                          defaultValue={tagRules.map(r => `${r.keyword}=${r.tag}`).join('\n')}
+                          onBlur={e => setTagRules(e.target.value.split('\n').map(line => {
+                              const [keyword, tag] = line.split('=').map(s => s.trim());
+                              return { keyword, tag };
+                          }).filter(r => r.keyword && r.tag))}
+                          className="w-full h-40 bg-gray-900 border border-gray-700 rounded-lg p-3 text-xs font-mono text-gray-300 focus:border-green-500 outline-none"
+                      />
+                      <div className="flex justify-between text-[10px] text-gray-500">
+                          <span>One keyword=tag per line, first match wins.</span>
+                          <button onClick={() => setTagRules(DEFAULT_TAG_RULES)} className="hover:text-white">Reset to defaults</button>
+                      </div>
+                  </div>
+              )}
+
+              {statementImport && (() => {
+                  const { source, fileName, mapping, candidates } = statementImport;
+                  const selected = candidates.filter(c => c.include).length;
+                  const duplicates = candidates.filter(c => c.duplicateOf).length;
+                  return (
+                      <div className="bg-gray-900 border border-gray-700 rounded-lg p-3 space-y-3 animate-fade-in">
+                          <div className="flex flex-wrap items-center gap-2 text-xs">
+                              <span className="text-gray-300 font-mono truncate max-w-[200px]">{fileName}</span>
+                              <select value={source} onChange={e => updateStatementParsing(e.target.value as StatementSource, mapping)} className={selectClass}>
+                                  <option value="alipay">Alipay</option>
+                                  <option value="wechat">WeChat Pay</option>
+                                  <option value="bank">Bank CSV</option>
+                              </select>
+                              <span className="text-gray-500 flex-1">
+                                  {candidates.length} rows{duplicates ? ` · ${duplicates} possible duplicates (unchecked)` : ''}
+                              </span>
+                          </div>
+
+                          {source === 'bank' && (
+                              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-[10px] text-gray-500">
+                                  <label className="flex flex-col gap-1">Header row
+                                      <select 
+                                          value={mapping.headerRow} 
+                                          onChange={e => {
+                                              const headerRow = Number(e.target.value);
+                                              const { expensePositive, paymentMethod } = mapping;
+                                              updateStatementParsing(source, { ...guessBankColumns(statementImport.rows[headerRow] || []), headerRow, expensePositive, paymentMethod });
+                                          }} 
+                                          className={selectClass}
+                                      >
+                                          {statementImport.rows.slice(0, Math.max(20, mapping.headerRow + 1)).map((r, i) => <option key={i} value={i}>{i + 1}: {r.filter(Boolean).join(' · ').slice(0, 40)}</option>)}
+                                      </select>
+                                  </label>
+                                  <label className="flex flex-col gap-1">Date {columnSelect(mapping.date, date => updateStatementParsing(source, { ...mapping, date }))}</label>
+                                  <label className="flex flex-col gap-1">Amount {columnSelect(mapping.amount, amount => updateStatementParsing(source, { ...mapping, amount }), true)}</label>
+                                  <label className="flex flex-col gap-1">Merchant {columnSelect(mapping.merchant, merchant => updateStatementParsing(source, { ...mapping, merchant }), true)}</label>
+                                  <label className="flex flex-col gap-1">Description {columnSelect(mapping.description, description => updateStatementParsing(source, { ...mapping, description }), true)}</label>
+                                  <label className="flex flex-col gap-1">Income/expense column {columnSelect(mapping.type, type => updateStatementParsing(source, { ...mapping, type }), true)}</label>
+                                  <label className="flex flex-col gap-1">Payment method
+                                      <select value={mapping.paymentMethod} onChange={e => updateStatementParsing(source, { ...mapping, paymentMethod: e.target.value })} className={selectClass}>
+                                          {Array.from(new Set([...paymentOptions, mapping.paymentMethod])).map(p => <option key={p} value={p}>{p}</option>)}
+                                      </select>
+                                  </label>
+                                  <label className="flex items-center gap-1 col-span-2">
+                                      <input type="checkbox" checked={mapping.expensePositive} onChange={e => updateStatementParsing(source, { ...mapping, expensePositive: e.target.checked })} className="accent-green-500" />
+                                      Expenses are listed as positive amounts
+                                  </label>
+                              </div>
+                          )}
+
+                          <div className="max-h-80 overflow-auto custom-scrollbar">
+                              <table className="w-full text-xs">
+                                  <thead className="text-gray-500 text-left sticky top-0 bg-gray-900">
+                                      <tr>
+                                          <th className="p-1">
+                                              <input 
+                                                  type="checkbox" 
+                                                  checked={selected === candidates.length && candidates.length > 0} 
+                                                  onChange={e => setStatementImport({ ...statementImport, candidates: candidates.map(c => ({ ...c, include: e.target.checked })) })} 
+                                                  className="accent-green-500"
+                                              />
+                                          </th>
+                                          <th className="p-1 font-medium">Date</th>
+                                          <th className="p-1 font-medium">Merchant</th>
+                                          <th className="p-1 font-medium text-right">Amount</th>
+                                          <th className="p-1 font-medium">Payment</th>
+                                          <th className="p-1 font-medium">Tags</th>
+                                      </tr>
+                                  </thead>
+                                  <tbody>
+                                      {candidates.map((c, i) => (
+                                          <tr key={c.row.ref} className={`border-t border-gray-800 ${c.include ? '' : 'opacity-50'}`}>
+                                              <td className="p-1"><input type="checkbox" checked={c.include} onChange={e => updateStatementCandidate(i, { include: e.target.checked })} className="accent-green-500" /></td>
+                                              <td className="p-1 font-mono text-gray-400 whitespace-nowrap">{c.row.date} {c.row.time}</td>
+                                              <td className="p-1 text-gray-200">
+                                                  {c.row.merchant || c.row.description}
+                                                  {c.duplicateOf && (
+                                                      <div className="text-[10px] text-amber-400">
+                                                          {c.duplicateOf.importRef === c.row.ref ? 'Already imported' : `Matches [${c.duplicateOf.date}] ${c.duplicateOf.event}`}
+                                                      </div>
+                                                  )}
+                                              </td>
+                                              <td className={`p-1 font-mono text-right whitespace-nowrap ${c.row.type === '转账' ? 'text-gray-400' : c.row.amount < 0 ? 'text-red-400' : 'text-emerald-400'}`}>
+                                                  {formatMoney(c.row.amount)}
+                                              </td>
+                                              <td className="p-1 text-gray-400">{c.row.paymentMethod}</td>
+                                              <td className="p-1">
+                                                  <input 
+                                                      value={c.tags.join(',')} 
+                                                      onChange={e => updateStatementCandidate(i, { tags: e.target.value.split(/[,，]/).map(t => t.trim()).filter(Boolean) })} 
+                                                      className="w-24 bg-gray-800 border border-gray-700 rounded px-1 py-0.5"
+                                                  />
+                                              </td>
+                                          </tr>
+                                      ))}
+                                  </tbody>
+                              </table>
+                              {candidates.length === 0 && <div className="text-center text-gray-600 italic py-6 text-xs">No transactions recognised{source === 'bank' ? ', check the column mapping' : ''}.</div>}
+                          </div>
+
+                          <div className="flex justify-end gap-2">
+                              <button onClick={() => setStatementImport(null)} className="text-xs px-3 py-1.5 rounded text-gray-400 hover:bg-gray-800">Cancel</button>
+                              <button onClick={handleCommitStatement} disabled={selected === 0} className="text-xs px-3 py-1.5 rounded bg-green-600 hover:bg-green-500 text-white disabled:opacity-40">
+                                  Import {selected} Transaction{selected === 1 ? '' : 's'}
+                              </button>
+                          </div>
+                      </div>
+                  );
+              })()}
+          </div>
+      );
+  };
+
+  const renderRecurringManager = () => {
+      const today = formatDate(new Date());
+      const suggestions = detectRecurring(toLedgerTransactions(entries, exchangeRates), recurringRules)
+          .filter(s => !dismissedSuggestions.includes(s.key));
+      const inputClass = "bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs outline-none focus:border-emerald-500";
+
+      const renderRuleFields = (rule: RecurringRule, onChange: (changes: Partial<RecurringRule>) => void) => (
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+              <input value={rule.event} onChange={e => onChange({ event: e.target.value })} placeholder="Title (e.g. 房租)" className={`${inputClass} col-span-2`} />
+              <input type="number" min={0} step="any" value={rule.amount || ''} onChange={e => onChange({ amount: Math.abs(Number(e.target.value)) || 0 })} placeholder="Amount" className={`${inputClass} font-mono`} />
+              <select value={rule.currency} onChange={e => onChange({ currency: e.target.value })} className={inputClass}>
+                  {Array.from(new Set([...DEFAULT_CURRENCIES, rule.currency])).map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+              <select value={rule.transactionType} onChange={e => onChange({ transactionType: e.target.value as RecurringRule['transactionType'] })} className={inputClass}>
+                  <option value="支出">支出</option>
+                  <option value="收入">收入</option>
+              </select>
+              <select value={rule.cadence} onChange={e => onChange({ cadence: e.target.value as RecurringCadence })} className={inputClass}>
+                  <option value="weekly">Weekly</option>
+                  <option value="monthly">Monthly</option>
+                  <option value="yearly">Yearly</option>
+              </select>
+              <input value={rule.merchant} onChange={e => onChange({ merchant: e.target.value })} placeholder="Merchant" className={inputClass} />
+              <input value={rule.paymentMethod} onChange={e => onChange({ paymentMethod: e.target.value })} placeholder="Payment method" className={inputClass} />
+              <input value={rule.tags.join(',')} onChange={e => onChange({ tags: e.target.value.split(/[,，]/).map(t => t.trim()).filter(Boolean) })} placeholder="Tags (comma separated)" className={`${inputClass} col-span-2`} />
+              <label className="flex items-center gap-1 text-[10px] text-gray-500 col-span-2">
+                  Starts
+                  <input type="date" value={rule.startDate} onChange={e => e.target.value && onChange({ startDate: e.target.value })} className={`${inputClass} flex-1`} />
+              </label>
+          </div>
+      );
+
+      return (
+          <div className="flex flex-col gap-4">
+              <div className="flex items-center justify-between">
+                  <h4 className="text-lg font-bold text-gray-300 flex items-center gap-2">
+                      <Icons.Repeat className="w-5 h-5 text-emerald-400" />
+                      Recurring Transactions
+                  </h4>
+                  <button 
+                      onClick={() => setRuleDraft({
+                          id: Math.random().toString(36).substr(2, 9),
+                          event: '', amount: 0, currency: BASE_CURRENCY, transactionType: '支出',
+                          tags: [], merchant: '', paymentMethod: '', cadence: 'monthly', startDate: today
+                      })}
+                      disabled={!!ruleDraft}
+                      className="text-xs px-3 py-1 rounded border border-gray-700 bg-gray-800 hover:bg-gray-700 flex items-center gap-1 disabled:opacity-40"
+                  >
+                      <Icons.Plus className="w-3 h-3" /> New Rule
+                  </button>
+              </div>
+              <p className="text-xs text-gray-500">
+                  Rent, bills and subscriptions are added as finance entries when the app opens on or after their due date, including any periods missed while it was closed.
+              </p>
+
+              {ruleDraft && (
+                  <div className="bg-gray-900 border border-emerald-800/60 rounded-lg p-3 space-y-2">
+                      {renderRuleFields(ruleDraft, changes => setRuleDraft({ ...ruleDraft, ...changes }))}
+                      <div className="flex justify-end gap-2">
+                          <button onClick={() => setRuleDraft(null)} className="text-xs px-3 py-1 rounded text-gray-400 hover:bg-gray-800">Cancel</button>
+                          <button onClick={() => handleAddRecurringRule(ruleDraft)} className="text-xs px-3 py-1 rounded bg-emerald-600 hover:bg-emerald-500 text-white">Add Rule</button>
+                      </div>
+                  </div>
+              )}
+
+              {recurringRules.length === 0 && !ruleDraft && <div className="text-xs text-gray-600 italic">No recurring rules yet.</div>}
+              <div className="space-y-2">
+                  {recurringRules.map(rule => (
+                      <div key={rule.id} className={`bg-gray-900 border border-gray-700 rounded-lg p-3 space-y-2 ${rule.paused ? 'opacity-50' : ''}`}>
+                          {renderRuleFields(rule, changes => updateRecurringRule(rule.id, changes))}
+                          <div className="flex items-center gap-2 text-[10px] text-gray-500">
+                              <Icons.CalendarClock className="w-3 h-3" />
+                              <span className="flex-1">
+                                  {rule.paused ? 'Paused' : `Next: ${nextOccurrence(rule, today)}`}
+                                  {rule.lastGenerated && ` · last added ${rule.lastGenerated}`}
+                                  {` · ${entries.filter(e => e.recurringRuleId === rule.id).length} entries`}
+                              </span>
+                              <button onClick={() => updateRecurringRule(rule.id, { paused: !rule.paused })} className="flex items-center gap-1 px-2 py-0.5 rounded border border-gray-700 hover:bg-gray-800 text-gray-400">
+                                  {rule.paused ? <><Icons.Play className="w-3 h-3" /> Resume</> : <><Icons.Pause className="w-3 h-3" /> Pause</>}
+                              </button>
+                              <button 
+                                  onClick={() => window.confirm(`Delete rule "${rule.event}"? Entries it already added are kept.`) && setRecurringRules(prev => prev.filter(r => r.id !== rule.id))} 
+                                  className="p-1 text-gray-500 hover:text-red-400"
+                              >
+                                  <Icons.Trash2 className="w-3.5 h-3.5" />
+                              </button>
+                          </div>
+                      </div>
+                  ))}
+              </div>
+
+              {suggestions.length > 0 && (
+                  <div className="bg-gray-900/60 border border-dashed border-gray-700 rounded-lg p-3 space-y-2">
+                      <div className="text-xs text-gray-400 flex items-center gap-1">
+                          <Icons.Sparkles className="w-3 h-3 text-emerald-400" /> These look recurring
                       </div>
+                      {suggestions.map(s => (
+                          <div key={s.key} className="flex flex-wrap items-center gap-2 text-xs">
+                              <span className="text-gray-200">{s.merchant}</span>
+                              <span className="font-mono text-gray-400">{formatMoney(s.transactionType === '支出' ? -s.amount : s.amount, s.currency)}</span>
+                              <span className="text-gray-500">{s.cadence} · {s.count}× · last {s.lastDate}</span>
+                              <span className="flex-1" />
+                              <button onClick={() => handleAcceptSuggestion(s)} className="px-2 py-0.5 rounded border border-emerald-800 text-emerald-300 bg-emerald-900/20 hover:bg-emerald-900/40">Create Rule</button>
+                              <button onClick={() => setDismissedSuggestions(prev => [...prev, s.key])} className="px-2 py-0.5 rounded border border-gray-700 text-gray-400 hover:bg-gray-800">Dismiss</button>
+                          </div>
+                      ))}
                   </div>
+              )}
+          </div>
+      );
+  };
 
-                  <div className="mt-6 flex justify-end gap-3 pb-safe-offset">
-                      <button onClick={handleClose} className="px-4 py-2 rounded text-sm text-gray-400 hover:bg-gray-800">Cancel</button>
-                      <button onClick={() => {
-                          setEntries(prev => prev.map(e => e.id === editingEntry.id ? editingEntry : e));
-                          setEditingEntry(null);
-                      }} className="px-4 py-2 rounded text-sm bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-900/20">Save Changes</button>
-                  </div>
+  const renderProfilePanel = () => {
+      // Empty input clears the value
+      const updateProfile = (key: keyof UserProfile, raw: string) => setProfile(prev => {
+          const value = Number(raw);
+          const next = { ...prev };
+          if (raw === '' || !Number.isFinite(value) || value <= 0) delete next[key]; else next[key] = value;
+          return next;
+      });
+      return (
+          <div className="flex flex-col gap-4">
+              <h4 className="text-lg font-bold text-gray-300 flex items-center gap-2">
+                  <Icons.User className="w-5 h-5 text-lime-400" />
+                  Profile
+              </h4>
+              <p className="text-xs text-gray-500">Used by the Trends view for BMI, the goal projection and sleep debt.</p>
+              <div className="flex flex-wrap gap-4 text-xs">
+                  <label className="flex items-center gap-2 text-gray-400">
+                      Height
+                      <input 
+                          type="number" 
+                          min={50}
+                          max={250}
+                          value={profile.heightCm ?? ''} 
+                          onChange={e => updateProfile('heightCm', e.target.value)} 
+                          className="w-24 bg-gray-800 border border-gray-700 rounded px-2 py-1 font-mono"
+                      />
+                      cm
+                  </label>
+                  <label className="flex items-center gap-2 text-gray-400">
+                      Goal weight
+                      <input 
+                          type="number" 
+                          min={20}
+                          max={300}
+                          step={0.1}
+                          value={profile.weightGoal ?? ''} 
+                          onChange={e => updateProfile('weightGoal', e.target.value)} 
+                          className="w-24 bg-gray-800 border border-gray-700 rounded px-2 py-1 font-mono"
+                      />
+                      kg
+                  </label>
+                  <label className="flex items-center gap-2 text-gray-400">
+                      Sleep target
+                      <input 
+                          type="number" 
+                          min={1}
+                          max={16}
+                          step={0.5}
+                          value={profile.sleepTargetHours ?? ''} 
+                          onChange={e => updateProfile('sleepTargetHours', e.target.value)} 
+                          placeholder={String(DEFAULT_SLEEP_TARGET)}
+                          className="w-20 bg-gray-800 border border-gray-700 rounded px-2 py-1 font-mono"
+                      />
+                      h / night
+                  </label>
+              </div>
+          </div>
+      );
+  };
+
+  const renderBudgetManager = () => {
+      const tagField = customSchemas.finance_tracking?.find(f => f.key === 'tags');
+      const usedTags = entries.filter(e => e.category === 'finance_tracking').flatMap(e => Array.isArray(e.details?.tags) ? e.details.tags : []);
+      const tagOptions = Array.from(new Set([...(tagField?.options || []), ...usedTags.map(String)]));
+      const statuses = evaluateBudgets(budgets, toLedgerTransactions(entries, exchangeRates), new Date());
+      const updateBudget = (id: string, changes: Partial<Budget>) => setBudgets(prev => prev.map(b => b.id === id ? { ...b, ...changes } : b));
+
+      return (
+          <div className="flex flex-col gap-4">
+              <div className="flex items-center justify-between">
+                  <h4 className="text-lg font-bold text-gray-300 flex items-center gap-2">
+                      <Icons.PiggyBank className="w-5 h-5 text-emerald-400" />
+                      Budgets
+                  </h4>
+                  <button 
+                      onClick={() => setBudgets(prev => [...prev, { id: Math.random().toString(36).substr(2, 9), tag: '', period: 'month', limit: 0 }])}
+                      className="text-xs px-3 py-1 rounded border border-gray-700 bg-gray-800 hover:bg-gray-700 flex items-center gap-1"
+                  >
+                      <Icons.Plus className="w-3 h-3" /> New Budget
+                  </button>
               </div>
+              <p className="text-xs text-gray-500">
+                  Spending limits in {BASE_CURRENCY} per finance tag, or overall. A chat message appears when a saved entry takes a budget past 80% or 100%.
+              </p>
+              {budgets.length === 0 ? (
+                  <div className="text-xs text-gray-600 italic">No budgets yet.</div>
+              ) : (
+                  <div className="space-y-2">
+                      {budgets.map(budget => {
+                          const status = statuses.find(s => s.budget.id === budget.id);
+                          return (
+                              <div key={budget.id} className="flex flex-wrap items-center gap-2 bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-xs">
+                                  <select value={budget.tag} onChange={e => updateBudget(budget.id, { tag: e.target.value })} className="bg-gray-800 border border-gray-700 rounded px-2 py-1">
+                                      <option value="">Overall</option>
+                                      {Array.from(new Set([...tagOptions, budget.tag].filter(Boolean))).map(t => <option key={t} value={t}>{t}</option>)}
+                                  </select>
+                                  <select value={budget.period} onChange={e => updateBudget(budget.id, { period: e.target.value as Budget['period'] })} className="bg-gray-800 border border-gray-700 rounded px-2 py-1">
+                                      <option value="month">Monthly</option>
+                                      <option value="week">Weekly</option>
+                                  </select>
+                                  <input 
+                                      type="number" 
+                                      min={0}
+                                      value={budget.limit || ''} 
+                                      onChange={e => updateBudget(budget.id, { limit: Math.max(0, Number(e.target.value) || 0) })} 
+                                      placeholder="Limit"
+                                      className="w-28 bg-gray-800 border border-gray-700 rounded px-2 py-1 font-mono"
+                                  />
+                                  <span className="text-gray-500">{BASE_CURRENCY}</span>
+                                  <span className="flex-1 text-right text-gray-500 font-mono">
+                                      {status ? `${Math.round(status.ratio * 100)}% this ${budget.period}` : ''}
+                                  </span>
+                                  <button onClick={() => setBudgets(prev => prev.filter(b => b.id !== budget.id))} className="p-1 text-gray-500 hover:text-red-400">
+                                      <Icons.Trash2 className="w-3.5 h-3.5" />
+                                  </button>
+                              </div>
+                          );
+                      })}
+                  </div>
+              )}
           </div>
       );
   };
@@ -1319,7 +7551,7 @@ User Input: "${text}"
           if (!editingSchemaCat) return false;
           const original = customSchemas[editingSchemaCat];
           // Compare without _uid to ensure we only catch real schema changes
-          const current = tempSchema.map(({ _uid, ...rest }) => rest);
+          const current = tempSchema.map(cleanTempField);
           
           if (!original) return current.length > 0;
           return JSON.stringify(original) !== JSON.stringify(current);
@@ -1331,36 +7563,170 @@ User Input: "${text}"
               if (!window.confirm("You have unsaved changes. Discard them?")) return;
           }
           setEditingSchemaCat(cat);
-          const loaded = JSON.parse(JSON.stringify(customSchemas[cat] || []));
-          // Assign stable _uid for React keys
-          setTempSchema(loaded.map((f: FieldSchema) => ({ ...f, _uid: Math.random().toString(36).substr(2, 9) })));
+          setPendingMigration(null);
+          setTempSchema(loadTempSchema(customSchemas[cat] || []));
+      };
+
+      // Field edits since the last save, as operations on the saved keys
+      const deriveSchemaOps = (): SchemaOp[] => {
+          const ops: SchemaOp[] = [];
+          (customSchemas[editingSchemaCat!] || []).forEach(saved => {
+              const edited = tempSchema.find(f => f._origKey === saved.key);
+              if (!edited) {
+                  ops.push({ kind: 'delete', key: saved.key });
+                  return;
+              }
+              if (edited._optionMerges && Object.keys(edited._optionMerges).length) ops.push({ kind: 'mergeOptions', key: saved.key, mapping: edited._optionMerges });
+              if (edited.type !== saved.type) ops.push({ kind: 'retype', key: saved.key, from: saved.type, to: edited.type });
+              if (edited.key !== saved.key) ops.push({ kind: 'rename', from: saved.key, to: edited.key });
+          });
+          return ops;
       };
 
       const handleSave = () => {
           if (!editingSchemaCat) return;
-          // Clean _uid before saving to persistent storage
-          const cleanSchema = tempSchema.map(({ _uid, ...rest }) => rest);
+          const keys = tempSchema.map(f => f.key.trim());
+          if (keys.some(k => !k)) {
+              alert("Every field needs a Key ID.");
+              return;
+          }
+          const duplicate = keys.find((k, i) => keys.indexOf(k) !== i);
+          if (duplicate) {
+              alert(`Key ID "${duplicate}" is used by more than one field.`);
+              return;
+          }
+          const invalid = tempSchema.find(f => fieldRuleError(f));
+          if (invalid) {
+              alert(`${invalid.label}: ${fieldRuleError(invalid)}`);
+              return;
+          }
+
+          // Clean editor bookkeeping before saving to persistent storage
+          const cleanSchema = tempSchema.map(cleanTempField);
+          const ops = deriveSchemaOps();
+          const affected = entries
+              .filter(e => e.category === editingSchemaCat)
+              .map(e => ({ entryId: e.id, ...applySchemaOps(e.details, ops) }))
+              .filter(r => r.changes.length > 0);
+
+          if (affected.length > 0) {
+              // Existing data changes: preview first, apply on confirm
+              setPendingMigration({ category: editingSchemaCat, schema: cleanSchema, ops, affected });
+              return;
+          }
+          setSchemaUndo({ category: editingSchemaCat, schema: customSchemas[editingSchemaCat], entries: [] });
           setCustomSchemas(prev => ({
               ...prev,
               [editingSchemaCat]: cleanSchema
           }));
+          setTempSchema(loadTempSchema(cleanSchema));
           alert("Schema updated successfully!");
       };
 
+      // Schema and entries change in one update and are saved in one transaction, the undo snapshot
+      // keeps both. The operations run again on the current entries so edits made after the preview are kept.
+      const handleApplyMigration = () => {
+          if (!pendingMigration) return;
+          const { category, schema, ops } = pendingMigration;
+          const retypes = ops.filter((op): op is Extract<SchemaOp, { kind: 'retype' }> => op.kind === 'retype');
+          const migrate = (e: Entry) => {
+              if (e.category !== category) return null;
+              const migrated = applySchemaOps(e.details, ops);
+              return migrated.changes.length > 0 ? migrated : null;
+          };
+
+          const current = entriesRef.current;
+          const nextEntries = current.map(e => {
+              const migrated = migrate(e);
+              if (!migrated) return e;
+              const failures: EntryIssue[] = migrated.changes.filter(c => c.failed).map(c => ({
+                  field: c.key,
+                  message: `Could not convert "${Array.isArray(c.before) ? c.before.join(', ') : c.before}" to ${schema.find(f => f.key === c.key)?.type || retypes.find(op => op.key === c.key)?.to}`
+              }));
+              const issues = [...(e.issues || []), ...failures];
+              return { ...e, details: migrated.details, ...(issues.length ? { issues } : {}) };
+          });
+          const nextSchemas = { ...customSchemas, [category]: schema };
+
+          setSchemaUndo({ category, schema: customSchemas[category], entries: current.filter(e => migrate(e)) });
+          syncStore('entries', nextEntries, { customSchemas: nextSchemas });
+          setCustomSchemas(nextSchemas);
+          setEntries(nextEntries);
+          setTempSchema(loadTempSchema(schema));
+          setPendingMigration(null);
+      };
+
+      const handleUndoMigration = () => {
+          if (!schemaUndo) return;
+          const { category, schema, entries: snapshot } = schemaUndo;
+          if (!window.confirm(`Restore the previous ${categories[category]?.label || category} fields${snapshot.length ? ` and ${snapshot.length} entries` : ''}?`)) return;
+          const byId = new Map(snapshot.map(e => [e.id, e]));
+          const nextSchemas = { ...customSchemas };
+          if (schema) nextSchemas[category] = schema;
+          else delete nextSchemas[category];
+          const nextEntries = entriesRef.current.map(e => byId.get(e.id) || e);
+          syncStore('entries', nextEntries, { customSchemas: nextSchemas });
+          setCustomSchemas(nextSchemas);
+          setEntries(nextEntries);
+          if (editingSchemaCat === category) setTempSchema(loadTempSchema(schema || []));
+          setSchemaUndo(null);
+      };
+
       const handleReset = () => {
           if (!editingSchemaCat) return;
           if (window.confirm("Discard current changes and reload from saved?")) {
-              const loaded = JSON.parse(JSON.stringify(customSchemas[editingSchemaCat] || []));
-              setTempSchema(loaded.map((f: FieldSchema) => ({ ...f, _uid: Math.random().toString(36).substr(2, 9) })));
+              setTempSchema(loadTempSchema(customSchemas[editingSchemaCat] || []));
+              setPendingMigration(null);
           }
       };
 
+      // Fold one option into another; stored values are rewritten on save
+      const mergeTempOption = (uid: string, from: string, into: string) => {
+          setTempSchema(prev => prev.map(f => {
+              if (f._uid !== uid || from === into) return f;
+              const merges = Object.fromEntries(Object.entries(f._optionMerges || {}).map(([k, v]) => [k, v === from ? into : v]));
+              merges[from] = into;
+              return { ...f, options: (f.options || []).filter(o => o !== from), _optionMerges: merges };
+          }));
+      };
+
       const updateTempField = (uid: string, changes: Partial<FieldSchema>) => {
           setTempSchema(prev => prev.map(f => 
               f._uid === uid ? { ...f, ...changes } : f
           ));
       };
 
+      // Unset rules are dropped so saved schemas only carry the ones in use
+      const updateTempRules = (uid: string, changes: Partial<FieldRules>) => {
+          setTempSchema(prev => prev.map(f => {
+              if (f._uid !== uid) return f;
+              const rules = Object.fromEntries(Object.entries({ ...f.rules, ...changes }).filter(([, v]) => v !== undefined));
+              const { rules: _old, ...rest } = f;
+              return Object.keys(rules).length ? { ...rest, rules } : rest;
+          }));
+      };
+
+      // Invalid regex or formula, shown under the field and blocking the save
+      const fieldRuleError = (field: TempFieldSchema): string | null => {
+          if (field.rules?.pattern) {
+              try {
+                  new RegExp(field.rules.pattern);
+              } catch {
+                  return `Invalid regex: ${field.rules.pattern}`;
+              }
+          }
+          if (field.formula) {
+              try {
+                  const unknown = formulaRefs(parseFormula(field.formula)).filter(ref => !tempSchema.some(f => f.key === ref));
+                  if (unknown.length) return `Unknown field ${unknown.join(', ')}`;
+                  if (formulaRefs(parseFormula(field.formula)).includes(field.key)) return "A formula can't use its own field";
+              } catch (e: any) {
+                  return `Formula: ${e.message}`;
+              }
+          }
+          return null;
+      };
+
       const removeTempField = (uid: string) => {
           // Find field to double check if it's standard, though UI prevents this
           const field = tempSchema.find(f => f._uid === uid);
@@ -1395,19 +7761,43 @@ User Input: "${text}"
           <div className="space-y-6 pb-20">
               <div className="flex items-center justify-between">
                   <h3 className="text-lg font-bold">Module Field Configuration</h3>
-                  <button onClick={() => {
-                      alert("AI Instructions will use the currently saved schemas.");
-                  }} className="text-xs bg-purple-900/30 text-purple-300 px-3 py-1 rounded border border-purple-800 hover:bg-purple-900/50">
-                      Sync AI Prompt
+                  <button onClick={() => setShowSchemaPreview(!showSchemaPreview)} className={`text-xs px-3 py-1 rounded border border-purple-800 flex items-center gap-1 ${showSchemaPreview ? 'bg-purple-600 text-white' : 'bg-purple-900/30 text-purple-300 hover:bg-purple-900/50'}`}>
+                      <Icons.Braces className="w-3 h-3" />
+                      AI Schema Preview
                   </button>
               </div>
 
+              {showSchemaPreview && (() => {
+                  // Preview reflects unsaved edits of the module being edited
+                  const previewSchemas = editingSchemaCat
+                      ? { ...customSchemas, [editingSchemaCat]: tempSchema.map(cleanTempField) }
+                      : customSchemas;
+                  const preview = editingSchemaCat
+                      ? {
+                          category: editingSchemaCat,
+                          details: toJsonSchema(buildDetailsSchema(previewSchemas[editingSchemaCat] || []))
+                      }
+                      : toJsonSchema(buildOrganizerSchema(previewSchemas, activeCategoryKeys(categories, categoryGroups)));
+                  return (
+                      <div className="bg-gray-900/50 border border-purple-900/50 rounded-xl p-4 animate-fade-in">
+                          <p className="text-xs text-gray-500 mb-2">
+                              {editingSchemaCat
+                                  ? `Details schema the organizer output for "${categories[editingSchemaCat]?.label || editingSchemaCat}" is checked against (includes unsaved changes).`
+                                  : 'Response schema generated from the saved fields on every organizer call. Select a module to see its own details schema.'}
+                          </p>
+                          <pre className="text-[10px] font-mono text-purple-200 max-h-[40vh] overflow-auto custom-scrollbar whitespace-pre">
+                              {JSON.stringify(preview, null, 2)}
+                          </pre>
+                      </div>
+                  );
+              })()}
+
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                   {/* Category Selector */}
                   <div className="md:col-span-1 space-y-2 max-h-[200px] md:max-h-[60vh] overflow-y-auto custom-scrollbar bg-gray-900/30 p-3 rounded-lg border border-gray-800">
                       <h4 className="text-xs font-bold text-gray-400 uppercase mb-3 px-2">Select Module</h4>
-                      {Object.keys(customSchemas).map(cat => {
-                          const meta = BASE_CATEGORY_META[cat] || BASE_CATEGORY_META['other'];
+                      {activeCategoryKeys(categories, categoryGroups).map(cat => {
+                          const meta = getCategoryMeta(categories, cat);
                           return (
                               <button 
                                   key={cat} 
@@ -1435,9 +7825,18 @@ User Input: "${text}"
                               <div className="flex justify-between items-center border-b border-gray-800 pb-4 mb-4">
                                   <h4 className="font-bold text-blue-300 flex items-center gap-2">
                                       <Icons.Edit3 className="w-4 h-4" />
-                                      Editing: {BASE_CATEGORY_META[editingSchemaCat]?.label || editingSchemaCat}
+                                      Editing: {categories[editingSchemaCat]?.label || editingSchemaCat}
                                   </h4>
                                   <div className="flex gap-2">
+                                      {schemaUndo?.category === editingSchemaCat && !hasUnsavedChanges() && (
+                                          <button 
+                                              onClick={handleUndoMigration}
+                                              className="text-xs px-3 py-1 rounded border border-amber-800 text-amber-300 hover:bg-amber-900/30 flex items-center gap-1"
+                                          >
+                                              <Icons.Undo2 className="w-3 h-3" />
+                                              Undo Save
+                                          </button>
+                                      )}
                                       <button 
                                           onClick={handleReset} 
                                           disabled={!hasUnsavedChanges()}
@@ -1456,6 +7855,49 @@ User Input: "${text}"
                                   </div>
                               </div>
                               
+                              {pendingMigration?.category === editingSchemaCat && (
+                                  <div className="mb-4 bg-blue-900/10 border border-blue-800/50 rounded-lg p-3 space-y-3 animate-fade-in">
+                                      <div className="flex items-center justify-between">
+                                          <span className="text-sm font-bold text-blue-300 flex items-center gap-2">
+                                              <Icons.GitCompare className="w-4 h-4" /> Migration Preview
+                                          </span>
+                                          <span className="text-xs text-gray-400">{pendingMigration.affected.length} entries affected</span>
+                                      </div>
+                                      <ul className="text-xs text-gray-400 list-disc list-inside">
+                                          {pendingMigration.ops.map((op, i) => <li key={i}>{describeSchemaOp(op)}</li>)}
+                                      </ul>
+                                      <div className="max-h-64 overflow-y-auto custom-scrollbar space-y-1">
+                                          {pendingMigration.affected.map(({ entryId, changes }) => {
+                                              const entry = entries.find(e => e.id === entryId);
+                                              return (
+                                                  <div key={entryId} className="bg-gray-900/60 rounded p-2 text-[11px]">
+                                                      <div className="text-gray-300 mb-1">[{entry?.date}] {entry?.event}</div>
+                                                      {changes.map(change => (
+                                                          <div key={change.key} className="grid grid-cols-[90px_1fr_1fr] gap-2">
+                                                              <span className="text-gray-500 font-mono truncate">{change.from ? `${change.from} → ${change.key}` : change.key}</span>
+                                                              <span className="text-red-300/80 line-through break-all">{formatFieldValue(change.before)}</span>
+                                                              {change.failed ? (
+                                                                  <span className="text-amber-400 break-all">{formatFieldValue(change.after)} (can't convert, kept & flagged)</span>
+                                                              ) : (
+                                                                  <span className={`break-all ${change.after === undefined ? 'text-gray-600 italic' : 'text-green-300'}`}>
+                                                                      {change.after === undefined ? 'removed' : formatFieldValue(change.after)}
+                                                                  </span>
+                                                              )}
+                                                          </div>
+                                                      ))}
+                                                  </div>
+                                              );
+                                          })}
+                                      </div>
+                                      <div className="flex justify-end gap-2">
+                                          <button onClick={() => setPendingMigration(null)} className="text-xs px-3 py-1 rounded border border-gray-600 text-gray-300 hover:bg-gray-800">Back to Editing</button>
+                                          <button onClick={handleApplyMigration} className="text-xs px-3 py-1 rounded bg-blue-600 text-white hover:bg-blue-500 flex items-center gap-1">
+                                              <Icons.Check className="w-3 h-3" /> Save & Migrate {pendingMigration.affected.length} Entries
+                                          </button>
+                                      </div>
+                                  </div>
+                              )}
+
                               <div className="space-y-3 max-h-[50vh] overflow-y-auto custom-scrollbar pr-2">
                                   {tempSchema.map((field) => {
                                       const isStandard = ['summary', 'time', 'duration', 'notes'].includes(field.key);
@@ -1482,19 +7924,28 @@ User Input: "${text}"
                                                           placeholder="Key"
                                                           disabled={isStandard}
                                                       />
+                                                      {field._origKey && field._origKey !== field.key && (
+                                                          <span className="text-[10px] text-blue-400 font-mono">was {field._origKey}</span>
+                                                      )}
                                                   </div>
                                                   {/* Type */}
                                                   <div className="col-span-1 md:col-span-3">
                                                       <label className="text-[10px] text-gray-500 uppercase">Type</label>
                                                       <select 
                                                           value={field.type} 
-                                                          onChange={e => updateTempField(field._uid, { type: e.target.value as FieldType })} 
+                                                          onChange={e => updateTempField(field._uid, { type: e.target.value as FieldType, ...(e.target.value !== 'number' ? { formula: undefined } : {}) })} 
                                                           className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs focus:border-blue-500 outline-none"
                                                       >
-                                                          {['text', 'number', 'select', 'multiselect', 'date', 'rating'].map(t => 
+                                                          {FIELD_TYPES.map(t => 
                                                               <option key={t} value={t}>{t}</option>
                                                           )}
                                                       </select>
+                                                      {(() => {
+                                                          const savedType = customSchemas[editingSchemaCat]?.find(f => f.key === field._origKey)?.type;
+                                                          return savedType && savedType !== field.type && (
+                                                              <span className="text-[10px] text-blue-400">was {savedType}</span>
+                                                          );
+                                                      })()}
                                                   </div>
                                                   {/* Required */}
                                                   <div className="col-span-1 md:col-span-1 flex flex-col items-center">
@@ -1507,6 +7958,27 @@ User Input: "${text}"
                                                           disabled={isStandard && field.key !== 'notes'} // Allow optional notes, impose strict on others
                                                       />
                                                   </div>
+                                                  {/* Unit (Conditional) */}
+                                                  {field.type === 'number' && (
+                                                      <div className="col-span-2 md:col-span-12 mt-1">
+                                                          <input 
+                                                              value={field.unit || ''} 
+                                                              onChange={e => updateTempField(field._uid, { unit: e.target.value || undefined })} 
+                                                              className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs focus:border-blue-500 outline-none" 
+                                                              placeholder="Unit (e.g. kg, 元, km)" 
+                                                          />
+                                                      </div>
+                                                  )}
+                                                  {(field.type === 'money' || field.type === 'reference') && (
+                                                      <div className="col-span-2 md:col-span-12 mt-1">
+                                                          <input 
+                                                              value={field.options?.join(',') || ''} 
+                                                              onChange={e => updateTempField(field._uid, { options: e.target.value.split(',').map(o => o.trim()).filter(Boolean) })} 
+                                                              className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs focus:border-blue-500 outline-none" 
+                                                              placeholder={field.type === 'money' ? `Currencies (comma separated, default ${DEFAULT_CURRENCIES.join(',')})` : 'Category codes it may link to (comma separated, empty = any)'} 
+                                                          />
+                                                      </div>
+                                                  )}
                                                   {/* Options (Conditional) */}
                                                   {(field.type === 'select' || field.type === 'multiselect') && (
                                                       <div className="col-span-2 md:col-span-12 mt-1">
@@ -1516,6 +7988,105 @@ User Input: "${text}"
                                                               className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs focus:border-blue-500 outline-none" 
                                                               placeholder="Options (comma separated)" 
                                                           />
+                                                          {(field.options?.length || 0) > 1 && (() => {
+                                                              const options = field.options!;
+                                                              const draft = optionMergeDraft?.uid === field._uid ? optionMergeDraft : null;
+                                                              const from = draft && options.includes(draft.from) ? draft.from : options[0];
+                                                              const into = draft && options.includes(draft.into) ? draft.into : options[1];
+                                                              return (
+                                                                  <div className="flex items-center gap-1 mt-1 text-[10px] text-gray-500">
+                                                                      <Icons.Merge className="w-3 h-3" />
+                                                                      <span>Merge</span>
+                                                                      <select value={from} onChange={e => setOptionMergeDraft({ uid: field._uid, from: e.target.value, into })} className="bg-gray-900 border border-gray-700 rounded px-1 py-0.5">
+                                                                          {options.map(o => <option key={o} value={o}>{o}</option>)}
+                                                                      </select>
+                                                                      <span>into</span>
+                                                                      <select value={into} onChange={e => setOptionMergeDraft({ uid: field._uid, from, into: e.target.value })} className="bg-gray-900 border border-gray-700 rounded px-1 py-0.5">
+                                                                          {options.map(o => <option key={o} value={o}>{o}</option>)}
+                                                                      </select>
+                                                                      <button 
+                                                                          onClick={() => {
+                                                                              mergeTempOption(field._uid, from, into);
+                                                                              setOptionMergeDraft(null);
+                                                                          }}
+                                                                          disabled={from === into}
+                                                                          className="px-2 py-0.5 rounded border border-gray-700 hover:bg-gray-800 text-gray-300 disabled:opacity-30"
+                                                                      >
+                                                                          Apply
+                                                                      </button>
+                                                                  </div>
+                                                              );
+                                                          })()}
+                                                          {field._optionMerges && Object.keys(field._optionMerges).length > 0 && (
+                                                              <div className="text-[10px] text-blue-400 mt-1">
+                                                                  On save: {Object.entries(field._optionMerges).map(([a, b]) => `${a} → ${b}`).join(', ')}
+                                                              </div>
+                                                          )}
+                                                      </div>
+                                                  )}
+                                                  {/* Rules (Conditional) */}
+                                                  {['number', 'rating', 'duration', 'money'].includes(field.type) && (
+                                                      <div className="col-span-2 md:col-span-12 mt-1 flex items-center gap-2 text-[10px] text-gray-500">
+                                                          <span className="uppercase">Rules</span>
+                                                          <input 
+                                                              type="number"
+                                                              value={field.rules?.min ?? ''} 
+                                                              onChange={e => updateTempRules(field._uid, { min: e.target.value === '' ? undefined : Number(e.target.value) })} 
+                                                              className="w-20 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs focus:border-blue-500 outline-none" 
+                                                              placeholder="Min" 
+                                                          />
+                                                          <input 
+                                                              type="number"
+                                                              value={field.rules?.max ?? ''} 
+                                                              onChange={e => updateTempRules(field._uid, { max: e.target.value === '' ? undefined : Number(e.target.value) })} 
+                                                              className="w-20 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs focus:border-blue-500 outline-none" 
+                                                              placeholder="Max" 
+                                                          />
+                                                          <label className="flex items-center gap-1">
+                                                              <input 
+                                                                  type="checkbox" 
+                                                                  checked={!!field.rules?.integer} 
+                                                                  onChange={e => updateTempRules(field._uid, { integer: e.target.checked || undefined })} 
+                                                                  className="w-3 h-3 rounded bg-gray-900 border-gray-700 accent-blue-500"
+                                                              />
+                                                              Whole numbers
+                                                          </label>
+                                                      </div>
+                                                  )}
+                                                  {(field.type === 'text' || field.type === 'url') && (
+                                                      <div className="col-span-2 md:col-span-12 mt-1">
+                                                          <div className="flex items-center gap-2 text-[10px] text-gray-500">
+                                                              <span className="uppercase">Rules</span>
+                                                              <input 
+                                                                  type="number"
+                                                                  min={1}
+                                                                  value={field.rules?.maxLength ?? ''} 
+                                                                  onChange={e => updateTempRules(field._uid, { maxLength: Number(e.target.value) || undefined })} 
+                                                                  className="w-24 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs focus:border-blue-500 outline-none" 
+                                                                  placeholder="Max length" 
+                                                              />
+                                                              <input 
+                                                                  value={field.rules?.pattern || ''} 
+                                                                  onChange={e => updateTempRules(field._uid, { pattern: e.target.value || undefined })} 
+                                                                  className="flex-1 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs font-mono focus:border-blue-500 outline-none" 
+                                                                  placeholder="Regex, e.g. ^[A-Z]{2}\d+$" 
+                                                              />
+                                                          </div>
+                                                          {fieldRuleError(field) && <span className="text-[10px] text-red-400">{fieldRuleError(field)}</span>}
+                                                      </div>
+                                                  )}
+                                                  {/* Formula (computed numbers) */}
+                                                  {field.type === 'number' && (
+                                                      <div className="col-span-2 md:col-span-12 mt-1">
+                                                          <input 
+                                                              value={field.formula || ''} 
+                                                              onChange={e => updateTempField(field._uid, { formula: e.target.value || undefined })} 
+                                                              className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs font-mono focus:border-blue-500 outline-none" 
+                                                              placeholder="Formula, leave empty to enter by hand (e.g. hours_between(time, waketime), round(value / 1.7^2, 1))" 
+                                                          />
+                                                          {field.formula && (fieldRuleError(field)
+                                                              ? <span className="text-[10px] text-red-400">{fieldRuleError(field)}</span>
+                                                              : <span className="text-[10px] text-gray-500">Computed on save, not asked from the AI. Functions: {Object.keys(FORMULA_FUNCTIONS).join(', ')}</span>)}
                                                       </div>
                                                   )}
                                               </div>
@@ -1558,9 +8129,11 @@ User Input: "${text}"
                                   </button>
                                   <button 
                                       onClick={() => {
-                                          if(window.confirm(`Reset ${BASE_CATEGORY_META[editingSchemaCat]?.label || editingSchemaCat} to FACTORY defaults?`)) {
+                                          if(window.confirm(`Reset ${categories[editingSchemaCat]?.label || editingSchemaCat} to FACTORY defaults?`)) {
                                               const defaults = INITIAL_SCHEMAS[editingSchemaCat] || createSchema([]);
-                                              setTempSchema(defaults.map(f => ({ ...f, _uid: Math.random().toString(36).substr(2, 9) }))); 
+                                              const saved = customSchemas[editingSchemaCat] || [];
+                                              // Keys the saved schema also has stay linked, the rest count as deleted/new
+                                              setTempSchema(loadTempSchema(defaults).map(f => saved.some(o => o.key === f.key) ? f : { ...f, _origKey: undefined })); 
                                           }
                                       }} 
                                       className="px-4 py-2 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-lg text-xs text-gray-400"
@@ -1594,14 +8167,10 @@ User Input: "${text}"
            <button onClick={() => setIsSidebarOpen(!isSidebarOpen)} className="p-1.5 hover:bg-gray-800 rounded text-gray-400"><Icons.Menu className="w-5 h-5" /></button>
         </div>
         <nav className="flex-1 px-2 py-4 space-y-2">
-            {[
-                { id: 'chat', icon: 'MessageSquare', label: 'Chat' },
-                { id: 'dashboard', icon: 'LayoutGrid', label: 'Dashboard' },
-                { id: 'settings', icon: 'Settings', label: 'Settings' }
-            ].map(item => (
+            {NAV_ITEMS.map(item => (
                 <button 
                   key={item.id}
-                  onClick={() => setActiveTab(item.id as 'chat' | 'dashboard' | 'settings')}
+                  onClick={() => setActiveTab(item.id)}
                   className={`w-full flex items-center gap-3 px-3 py-3 rounded-lg transition-colors ${activeTab === item.id ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/20' : 'text-gray-400 hover:bg-gray-800 hover:text-gray-200'}`}
                 >
                     <IconComponent name={item.icon} className="w-5 h-5" />
@@ -1613,12 +8182,19 @@ User Input: "${text}"
 
       {/* Main Content */}
       <main className="flex-1 flex flex-col h-full relative overflow-hidden w-full">
+          {storageError && (
+              <div className="bg-red-900/80 border-b border-red-700 text-red-100 text-xs px-4 py-2 flex items-center gap-2 shrink-0 z-50">
+                  <Icons.AlertTriangle className="w-4 h-4 shrink-0" />
+                  <span className="flex-1">{storageError}</span>
+                  <button onClick={() => setStorageError(null)} className="p-1 hover:text-white"><Icons.X className="w-3 h-3" /></button>
+              </div>
+          )}
           <div className="flex-1 overflow-hidden relative">
               {activeTab === 'chat' && (
                   <div className="h-full flex flex-col max-w-4xl mx-auto w-full relative">
                       {/* Messages Area */}
                       <div className="flex-1 overflow-y-auto p-4 custom-scrollbar pb-32 md:pb-32">
-                          {messages.map((msg, idx) => (
+                          {messages.map((msg, idx) => (msg.id === streamingMsgId && !msg.text) ? null : (
                               <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'} group py-3`}>
                                   <div className={`max-w-[90%] md:max-w-[80%] rounded-2xl p-4 shadow-sm relative ${
                                       msg.role === 'user' ? 'bg-blue-600 text-white rounded-br-none' : 
@@ -1659,13 +8235,33 @@ User Input: "${text}"
                                               </div>
                                           </div>
                                       ) : (
-                                          <div className="whitespace-pre-wrap leading-relaxed">
-                                              {msg.text}
-                                          </div>
+                                          <>
+                                              {msg.image && (
+                                                  <img 
+                                                      src={`data:image/jpeg;base64,${msg.image}`} 
+                                                      onClick={() => setLightboxImage(msg.image!)}
+                                                      className="max-h-48 rounded-lg mb-2 cursor-zoom-in object-cover"
+                                                  />
+                                              )}
+                                              {msg.text && (
+                                                  <div className="whitespace-pre-wrap leading-relaxed">
+                                                      {msg.text}
+                                                      {msg.id === streamingMsgId && <span className="inline-block w-1.5 h-4 bg-blue-400 ml-0.5 align-middle animate-pulse" />}
+                                                  </div>
+                                              )}
+                                              {msg.truncated && (
+                                                  <div className="mt-1 text-[10px] text-amber-400/80 flex items-center gap-1">
+                                                      <Icons.Scissors className="w-3 h-3" /> Stopped, reply truncated
+                                                  </div>
+                                              )}
+                                          </>
                                       )}
                                       
+                                      {msg.role === 'model' && renderCitations(msg)}
+                                      {msg.role === 'system' && !msg.text.includes("(Revoked)") && renderDraftCards(msg)}
+
                                       {/* System Action Buttons */}
-                                      {msg.role === 'system' && msg.relatedEntryIds && (
+                                      {msg.role === 'system' && msg.relatedEntryIds && msg.relatedEntryIds.length > 0 && (
                                           <div className="mt-2 flex gap-2">
                                               {msg.text.includes("(Revoked)") ? (
                                                   <span className="flex items-center gap-1 text-green-400 text-xs">
@@ -1685,13 +8281,13 @@ User Input: "${text}"
                                   </div>
                               </div>
                           ))}
-                          {isProcessing && (
+                          {isProcessing && !(streamingMsgId && messages.find(m => m.id === streamingMsgId)?.text) && (
                              <div className="flex justify-start animate-pulse">
                                  <div className="bg-gray-800/50 rounded-2xl p-3 flex items-center gap-2">
                                      <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce" />
                                      <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce delay-75" />
                                      <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce delay-150" />
-                                     <span className="text-xs text-gray-500 ml-2">Thinking...</span>
+                                     <span className="text-xs text-gray-500 ml-2">{isQueryingRecords ? 'Searching records...' : 'Thinking...'}</span>
                                  </div>
                              </div>
                           )}
@@ -1715,6 +8311,8 @@ User Input: "${text}"
                                      <span className={chatSettings.chatEnabled ? 'text-blue-400' : ''}>Chat</span>
                                      <span>•</span>
                                      <span className={chatSettings.organizerEnabled ? 'text-orange-400' : ''}>Org</span>
+                                     <span>•</span>
+                                     <span className={chatSettings.loggerEnabled ? 'text-indigo-400' : ''}>Log {chatBufferCount}/{aiConfig.batchSize}</span>
                                  </div>
                              </div>
                              <div className="text-[10px] text-gray-600 font-mono hidden sm:block">
@@ -1736,6 +8334,16 @@ User Input: "${text}"
                                               </div>
                                               <input type="checkbox" checked={chatSettings.chatEnabled} onChange={e => setChatSettings({...chatSettings, chatEnabled: e.target.checked})} className="accent-blue-500" />
                                           </div>
+                                          <div className="flex items-center justify-between bg-gray-800 p-2 rounded px-3">
+                                              <div className="flex items-center gap-2">
+                                                  <Icons.Search className="w-4 h-4 text-blue-400" />
+                                                  <div className="flex flex-col">
+                                                      <span className="text-sm">Answer from Records</span>
+                                                      <span className="text-[10px] text-gray-500">Chat can query entries & raw logs</span>
+                                                  </div>
+                                              </div>
+                                              <input type="checkbox" checked={chatSettings.toolsEnabled} onChange={e => setChatSettings({...chatSettings, toolsEnabled: e.target.checked})} className="accent-blue-500" />
+                                          </div>
                                           <div className="flex items-center justify-between bg-gray-800 p-2 rounded px-3">
                                               <div className="flex items-center gap-2">
                                                   <Icons.Database className="w-4 h-4 text-orange-400" />
@@ -1746,6 +8354,67 @@ User Input: "${text}"
                                               </div>
                                               <input type="checkbox" checked={chatSettings.organizerEnabled} onChange={e => setChatSettings({...chatSettings, organizerEnabled: e.target.checked})} className="accent-orange-500" />
                                           </div>
+                                          <div className="bg-gray-800 p-2 rounded px-3 space-y-2">
+                                              <label className="flex items-center justify-between cursor-pointer">
+                                                  <div className="flex flex-col">
+                                                      <span className="text-sm">Review Drafts</span>
+                                                      <span className="text-[10px] text-gray-500">Organizer proposals wait for Accept</span>
+                                                  </div>
+                                                  <input type="checkbox" checked={chatSettings.draftMode} onChange={e => setChatSettings({...chatSettings, draftMode: e.target.checked})} className="accent-orange-500" />
+                                              </label>
+                                              {chatSettings.draftMode && (
+                                                  <div className="flex items-center gap-2 text-[10px] text-gray-400">
+                                                      <input type="checkbox" checked={chatSettings.autoAcceptEnabled} onChange={e => setChatSettings({...chatSettings, autoAcceptEnabled: e.target.checked})} className="accent-orange-500 w-3 h-3" />
+                                                      <span className="whitespace-nowrap">Auto-accept ≥</span>
+                                                      <input 
+                                                        type="range" min="0.5" max="1" step="0.05"
+                                                        disabled={!chatSettings.autoAcceptEnabled}
+                                                        value={chatSettings.autoAcceptThreshold}
+                                                        onChange={e => setChatSettings({...chatSettings, autoAcceptThreshold: parseFloat(e.target.value)})}
+                                                        className="flex-1 accent-orange-500 disabled:opacity-30"
+                                                      />
+                                                      <span className="font-mono w-8 text-right">{Math.round(chatSettings.autoAcceptThreshold * 100)}%</span>
+                                                  </div>
+                                              )}
+                                          </div>
+                                          <div className="bg-gray-800 p-2 rounded px-3 space-y-2">
+                                              <div className="flex items-center justify-between">
+                                                  <div className="flex items-center gap-2">
+                                                      <Icons.BookText className="w-4 h-4 text-indigo-400" />
+                                                      <div className="flex flex-col">
+                                                          <span className="text-sm">Background Logger</span>
+                                                          <span className="text-[10px] text-gray-500">Summarizes every {aiConfig.batchSize} messages into 闲聊速记</span>
+                                                      </div>
+                                                  </div>
+                                                  <input type="checkbox" checked={chatSettings.loggerEnabled} onChange={e => setChatSettings({...chatSettings, loggerEnabled: e.target.checked})} className="accent-indigo-500" />
+                                              </div>
+                                              <div className="flex items-center justify-between gap-2">
+                                                  <div className="flex-1">
+                                                      <div className="h-1.5 bg-gray-900 rounded-full overflow-hidden">
+                                                          <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.min(100, aiConfig.batchSize > 0 ? chatBufferCount / aiConfig.batchSize * 100 : 0)}%` }} />
+                                                      </div>
+                                                      <div className="text-[10px] text-gray-500 mt-1 font-mono">
+                                                          {isLogging ? (
+                                                              <span className="text-indigo-300 animate-pulse">Summarizing...</span>
+                                                          ) : loggerState.lastError ? (
+                                                              <span className="text-red-400" title={loggerState.lastError}>Failed: {loggerState.lastError}</span>
+                                                          ) : (
+                                                              <span>
+                                                                  {chatBufferCount}/{aiConfig.batchSize} buffered
+                                                                  {loggerState.lastRunAt ? ` • last ${new Date(loggerState.lastRunAt).toLocaleString([], {month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit'})}` : ''}
+                                                              </span>
+                                                          )}
+                                                      </div>
+                                                  </div>
+                                                  <button 
+                                                    onClick={() => runBackgroundLogger(true)}
+                                                    disabled={isLogging || chatBufferCount === 0}
+                                                    className="text-[10px] bg-indigo-900/40 text-indigo-300 px-2 py-1 rounded border border-indigo-800 hover:bg-indigo-900/60 disabled:opacity-30 disabled:cursor-not-allowed whitespace-nowrap"
+                                                  >
+                                                      Summarize now
+                                                  </button>
+                                              </div>
+                                          </div>
                                       </div>
 
                                       {/* Column 2: Context & Memory */}
@@ -1810,14 +8479,41 @@ User Input: "${text}"
 
                           {/* Input Area */}
                           <div className="p-2 md:p-4">
+                              {pendingImage && (
+                                  <div className="mb-2 relative inline-block">
+                                      <img src={pendingImage} className="h-16 w-16 object-cover rounded-lg border border-gray-700" />
+                                      <button 
+                                        onClick={() => setPendingImage(null)} 
+                                        className="absolute -top-2 -right-2 bg-gray-900 border border-gray-700 rounded-full p-0.5 text-gray-400 hover:text-red-400"
+                                      >
+                                          <Icons.X className="w-3 h-3" />
+                                      </button>
+                                  </div>
+                              )}
                               <div className="flex items-end gap-2 bg-gray-800 p-2 rounded-xl border border-gray-700 focus-within:border-blue-500 transition-colors">
-                                  <button className="p-2 text-gray-400 hover:text-white transition-colors">
+                                  <button onClick={() => fileInputRef.current?.click()} className={`p-2 transition-colors ${pendingImage ? 'text-blue-400' : 'text-gray-400 hover:text-white'}`}>
                                       <Icons.Paperclip className="w-5 h-5" />
-                                      <input type="file" className="hidden" ref={fileInputRef} />
                                   </button>
+                                  <input 
+                                    type="file" 
+                                    className="hidden" 
+                                    ref={fileInputRef} 
+                                    accept="image/*"
+                                    onChange={e => {
+                                        handleAttachImage(e.target.files?.[0]);
+                                        e.target.value = ''; // Reset
+                                    }}
+                                  />
                                   <textarea 
                                     value={inputText}
                                     onChange={e => setInputText(e.target.value)}
+                                    onPaste={e => {
+                                        const item = Array.from(e.clipboardData.items).find(i => i.type.startsWith('image/'));
+                                        if (item) {
+                                            e.preventDefault();
+                                            handleAttachImage(item.getAsFile());
+                                        }
+                                    }}
                                     onKeyDown={e => {
                                         if(e.key === 'Enter' && !e.shiftKey) {
                                             e.preventDefault();
@@ -1854,6 +8550,33 @@ User Input: "${text}"
                         setEntries={setEntries}
                         rawLogs={rawLogs}
                         setRawLogs={setRawLogs}
+                        categories={categories}
+                        categoryGroups={categoryGroups}
+                        customSchemas={customSchemas}
+                        budgets={budgets}
+                        exchangeRates={exchangeRates}
+                      />
+                  </div>
+              )}
+
+              {activeTab === 'ledger' && (
+                  <div className="h-full overflow-y-auto p-4 md:p-8 custom-scrollbar">
+                      <LedgerView 
+                        entries={entries}
+                        setEditingEntry={setEditingEntry}
+                        exchangeRates={exchangeRates}
+                        setExchangeRates={setExchangeRates}
+                      />
+                  </div>
+              )}
+
+              {activeTab === 'trends' && (
+                  <div className="h-full overflow-y-auto p-4 md:p-8 custom-scrollbar">
+                      <TrendsView 
+                        entries={entries}
+                        profile={profile}
+                        customSchemas={customSchemas}
+                        setEditingEntry={setEditingEntry}
                       />
                   </div>
               )}
@@ -1882,6 +8605,31 @@ User Input: "${text}"
                                         className="w-full h-48 bg-gray-800 border border-gray-700 rounded-xl p-4 text-sm font-mono focus:border-orange-500 outline-none" 
                                     />
                                 </div>
+                                <div className="space-y-4 md:col-span-2">
+                                    <div className="flex items-center justify-between">
+                                        <h3 className="text-xl font-bold flex items-center gap-2 text-indigo-400">
+                                            <Icons.BookText className="w-5 h-5" /> Background Logger
+                                        </h3>
+                                        <label className="flex items-center gap-2 text-xs text-gray-400">
+                                            Batch Size
+                                            <input 
+                                                type="number" 
+                                                min="1"
+                                                value={aiConfig.batchSize}
+                                                onChange={e => {
+                                                    const val = parseInt(e.target.value);
+                                                    setAiConfig({...aiConfig, batchSize: isNaN(val) ? 1 : Math.max(1, val)});
+                                                }}
+                                                className="w-20 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm font-mono focus:border-indigo-500 outline-none"
+                                            />
+                                        </label>
+                                    </div>
+                                    <textarea 
+                                        value={aiConfig.loggerInstructions} 
+                                        onChange={e => setAiConfig({...aiConfig, loggerInstructions: e.target.value})}
+                                        className="w-full h-32 bg-gray-800 border border-gray-700 rounded-xl p-4 text-sm font-mono focus:border-indigo-500 outline-none" 
+                                    />
+                                </div>
                            </div>
                            
                            <div className="border-t border-gray-800 pt-8">
@@ -1898,22 +8646,107 @@ User Input: "${text}"
                                             onChange={(e) => {
                                                 const val = e.target.value;
                                                 setUserApiKey(val);
-                                                localStorage.setItem('lifeos_google_api_key', val);
+                                                if (lockEnabled) {
+                                                    sessionApiKey = val;
+                                                    dbPutKV('apiKey', val).catch(err => console.error("Saving the API key failed", err));
+                                                } else {
+                                                    localStorage.setItem('lifeos_google_api_key', val);
+                                                }
                                             }}
                                             placeholder="Enter your AI Studio API Key here..."
                                             className="w-full bg-gray-800 border border-gray-600 rounded p-2 text-sm text-white focus:border-yellow-500 outline-none" 
                                         />
                                         <p className="text-xs text-gray-500 mt-2">
-                                            The key is stored locally in your browser. Required for deployments without environment variables.
+                                            The key is stored locally in your browser{lockEnabled ? ', encrypted by the app lock' : ''}. Required for deployments without environment variables.
+                                        </p>
+                                    </div>
+
+                                    {/* Per-role model selection */}
+                                    <div className="bg-gray-900 border border-gray-700 rounded-lg p-4 space-y-3">
+                                        <label className="block text-xs text-gray-500 uppercase">Model Providers</label>
+                                        {([
+                                            { role: 'chat', label: 'Chat', color: 'text-blue-400' },
+                                            { role: 'organizer', label: 'Organizer', color: 'text-orange-400' },
+                                            { role: 'logger', label: 'Logger', color: 'text-indigo-400' }
+                                        ] as { role: AIRole; label: string; color: string }[]).map(({ role, label, color }) => {
+                                            const config = aiConfig.models[role];
+                                            const updateModel = (changes: Partial<ModelConfig>) => setAiConfig({
+                                                ...aiConfig,
+                                                models: { ...aiConfig.models, [role]: { ...config, ...changes } }
+                                            });
+                                            return (
+                                                <div key={role} className="grid grid-cols-2 md:grid-cols-12 gap-2 items-center bg-gray-800/50 p-2 rounded">
+                                                    <span className={`col-span-2 md:col-span-2 text-sm font-medium ${color}`}>{label}</span>
+                                                    <select 
+                                                        value={config.provider}
+                                                        onChange={e => {
+                                                            const provider = e.target.value as ProviderKind;
+                                                            updateModel({ provider, model: provider === 'gemini' ? DEFAULT_MODEL_CONFIGS[role].model : '' });
+                                                        }}
+                                                        className="col-span-1 md:col-span-3 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs"
+                                                    >
+                                                        <option value="gemini">Gemini</option>
+                                                        <option value="openai">OpenAI-compatible</option>
+                                                    </select>
+                                                    <input 
+                                                        value={config.model}
+                                                        onChange={e => updateModel({ model: e.target.value })}
+                                                        placeholder={config.provider === 'gemini' ? 'gemini-2.5-flash' : 'llama3.1'}
+                                                        className="col-span-1 md:col-span-3 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs font-mono focus:border-yellow-500 outline-none"
+                                                    />
+                                                    <input 
+                                                        value={config.baseUrl}
+                                                        onChange={e => updateModel({ baseUrl: e.target.value })}
+                                                        placeholder={config.provider === 'gemini' ? 'Default endpoint' : 'http://localhost:11434/v1'}
+                                                        className={`col-span-2 ${config.provider === 'openai' ? 'md:col-span-2' : 'md:col-span-4'} bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs font-mono focus:border-yellow-500 outline-none`}
+                                                    />
+                                                    {config.provider === 'openai' && (
+                                                        <input 
+                                                            type="password"
+                                                            value={config.apiKey}
+                                                            onChange={e => updateModel({ apiKey: e.target.value })}
+                                                            placeholder="API Key (optional)"
+                                                            className="col-span-2 md:col-span-2 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs focus:border-yellow-500 outline-none"
+                                                        />
+                                                    )}
+                                                </div>
+                                            );
+                                        })}
+                                        <p className="text-xs text-gray-500">
+                                            OpenAI-compatible servers (Ollama, llama.cpp, mock servers) get JSON instructions in the prompt, and the reply is validated and repaired locally.
                                         </p>
                                     </div>
                                 </div>
                            </div>
 
+                           <div className="border-t border-gray-800 pt-8">
+                               {renderCategoryManager()}
+                           </div>
+
                            <div className="border-t border-gray-800 pt-8">
                                {renderSchemaEditor()}
                            </div>
 
+                           <div className="border-t border-gray-800 pt-8">
+                               {renderProfilePanel()}
+                           </div>
+
+                           <div className="border-t border-gray-800 pt-8">
+                               {renderBudgetManager()}
+                           </div>
+
+                           <div className="border-t border-gray-800 pt-8">
+                               {renderRecurringManager()}
+                           </div>
+
+                           <div className="border-t border-gray-800 pt-8">
+                               {renderStatementImport()}
+                           </div>
+
+                           <div className="border-t border-gray-800 pt-8">
+                               {renderReprocessPanel()}
+                           </div>
+
                            <div className="border-t border-gray-800 pt-8">
                                 <div className="flex flex-col gap-4">
                                     <h4 className="text-lg font-bold text-gray-300 flex items-center gap-2">
@@ -1921,7 +8754,11 @@ User Input: "${text}"
                                         Data Backup & Restore
                                     </h4>
                                     <div className="flex gap-4">
-                                        <button onClick={handleExportData} className="flex items-center gap-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-sm transition-colors border border-gray-700">
+                                        <button 
+                                            onClick={handleExportData} 
+                                            disabled={!!backupForm.passphrase && backupForm.passphrase !== backupForm.confirm} 
+                                            className="flex items-center gap-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-sm transition-colors border border-gray-700 disabled:opacity-40"
+                                        >
                                             <Icons.Download className="w-4 h-4" />
                                             Export JSON
                                         </button>
@@ -1931,21 +8768,53 @@ User Input: "${text}"
                                         </button>
                                         <input type="file" ref={backupInputRef} onChange={handleImportData} className="hidden" accept=".json" />
                                     </div>
+                                    <div className="flex flex-wrap gap-2">
+                                        <input 
+                                            type="password" 
+                                            value={backupForm.passphrase} 
+                                            onChange={e => setBackupForm({ ...backupForm, passphrase: e.target.value })} 
+                                            placeholder="Export passphrase (optional, encrypts the file)" 
+                                            className="w-72 bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm focus:border-green-500 outline-none" 
+                                        />
+                                        {backupForm.passphrase && (
+                                            <input 
+                                                type="password" 
+                                                value={backupForm.confirm} 
+                                                onChange={e => setBackupForm({ ...backupForm, confirm: e.target.value })} 
+                                                placeholder="Repeat passphrase" 
+                                                className={`w-72 bg-gray-800 border rounded px-3 py-2 text-sm outline-none ${backupForm.confirm && backupForm.confirm !== backupForm.passphrase ? 'border-red-500' : 'border-gray-700 focus:border-green-500'}`} 
+                                            />
+                                        )}
+                                    </div>
                                     <p className="text-xs text-gray-500">
-                                        Save your data to a local file. Useful for backing up or migrating to another device.
+                                        Save your data to a local file. Useful for backing up or migrating to another device. With a passphrase the file is encrypted (AES-GCM) and the same passphrase is asked for on import.
                                     </p>
+                                    {storageEstimate && (
+                                        <p className="text-xs text-gray-600 font-mono">
+                                            Local database (schema v{SCHEMA_VERSION}): {(storageEstimate.usage / 1048576).toFixed(1)} MB used of {(storageEstimate.quota / 1048576).toFixed(0)} MB available
+                                        </p>
+                                    )}
                                 </div>
                            </div>
 
+                           <div className="border-t border-gray-800 pt-8">
+                               {renderLockPanel()}
+                           </div>
+
                            <div className="border-t border-gray-800 pt-8">
                                <div className="flex justify-between items-center bg-red-900/10 border border-red-900/30 p-6 rounded-xl">
                                    <div>
                                        <h4 className="text-red-400 font-bold">Danger Zone</h4>
                                        <p className="text-xs text-red-400/60 mt-1">Irreversibly wipe all local data</p>
                                    </div>
-                                   <button onClick={() => {
+                                   <button onClick={async () => {
                                        if(window.confirm("NUKE EVERYTHING? This cannot be undone.")) {
                                            localStorage.clear();
+                                           try {
+                                               await dbDestroy();
+                                           } catch (e) {
+                                               console.error("Failed to delete database", e);
+                                           }
                                            window.location.reload();
                                        }
                                    }} className="bg-red-900/50 hover:bg-red-800 text-red-200 px-4 py-2 rounded text-sm border border-red-800">Clear All Data</button>
@@ -1958,18 +8827,17 @@ User Input: "${text}"
 
           {/* Overlays */}
           {editingEntry && renderEditModal()}
+          {backupImport && renderImportWizard()}
+          {renderBackupPassphrase()}
+          {lightboxImage && <ImageLightbox image={lightboxImage} onClose={() => setLightboxImage(null)} />}
       </main>
 
       {/* Bottom Navigation for Mobile */}
       <nav className="md:hidden bg-gray-900 border-t border-gray-800 flex justify-around items-center pb-[env(safe-area-inset-bottom)] shrink-0 z-50">
-        {[
-            { id: 'chat', icon: 'MessageSquare', label: 'Chat' },
-            { id: 'dashboard', icon: 'LayoutGrid', label: 'Dashboard' },
-            { id: 'settings', icon: 'Settings', label: 'Settings' }
-        ].map(item => (
+        {NAV_ITEMS.map(item => (
             <button 
                 key={item.id}
-                onClick={() => setActiveTab(item.id as 'chat' | 'dashboard' | 'settings')}
+                onClick={() => setActiveTab(item.id)}
                 className={`flex flex-col items-center justify-center w-full py-3 transition-colors ${activeTab === item.id ? 'text-blue-400 bg-gray-800/50' : 'text-gray-500'}`}
             >
                 <IconComponent name={item.icon} className="w-6 h-6 mb-1" />
@@ -1981,6 +8849,92 @@ User Input: "${text}"
   );
 }
 
+// --- App Lock Gate ---
+// Index is only mounted once the storage key is known, so no data is read or shown before unlocking
+function AppLockGate() {
+  const [status, setStatus] = useState<'checking' | 'locked' | 'open'>('checking');
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    dbIsLocked()
+        .then(locked => setStatus(locked ? 'locked' : 'open'))
+        .catch(e => {
+            // Index reports storage problems itself
+            console.error("Reading the app lock failed", e);
+            setStatus('open');
+        });
+  }, []);
+
+  useEffect(() => {
+    if (status === 'locked') hideLoader();
+  }, [status]);
+
+  const handleUnlock = async () => {
+      setBusy(true);
+      setError(null);
+      try {
+          if (await dbUnlock(passphrase)) {
+              setPassphrase('');
+              setStatus('open');
+          } else {
+              setError('Wrong passphrase');
+          }
+      } catch (e: any) {
+          setError(describeStorageError(e));
+      } finally {
+          setBusy(false);
+      }
+  };
+
+  const handleWipe = async () => {
+      if (!window.confirm("Delete all local data? Without the passphrase it cannot be decrypted, only restored from a backup.")) return;
+      localStorage.clear();
+      try {
+          await dbDestroy();
+      } catch (e) {
+          console.error("Failed to delete database", e);
+      }
+      window.location.reload();
+  };
+
+  if (status === 'checking') return null;
+  if (status === 'open') return <Index />;
+
+  return (
+    <div className="h-dvh w-full flex items-center justify-center bg-gray-950 p-4">
+      <div className="w-full max-w-sm bg-gray-900 border border-gray-800 rounded-xl p-6 shadow-2xl animate-fade-in">
+          <div className="flex flex-col items-center mb-6">
+              <Icons.Lock className="w-10 h-10 text-rose-400 mb-3" />
+              <h1 className="text-xl font-bold text-gray-100">LifeOS is locked</h1>
+              <p className="text-xs text-gray-500 mt-1">Enter your passphrase to decrypt local data</p>
+          </div>
+          <input 
+              type="password" 
+              autoFocus
+              value={passphrase} 
+              onChange={e => { setPassphrase(e.target.value); setError(null); }} 
+              onKeyDown={e => e.key === 'Enter' && passphrase && !busy && handleUnlock()}
+              placeholder="Passphrase" 
+              className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm focus:border-rose-500 outline-none" 
+          />
+          {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+          <button 
+              onClick={handleUnlock} 
+              disabled={!passphrase || busy} 
+              className="w-full mt-4 px-4 py-2 rounded text-sm bg-rose-700 hover:bg-rose-600 text-white disabled:opacity-40"
+          >
+              {busy ? 'Unlocking...' : 'Unlock'}
+          </button>
+          <button onClick={handleWipe} className="w-full mt-6 text-[10px] text-gray-600 hover:text-red-400">
+              Forgot the passphrase? Delete local data
+          </button>
+      </div>
+    </div>
+  );
+}
+
 // Mount the application
 const root = createRoot(document.getElementById('root')!);
-root.render(<Index />);
\ No newline at end of file
+root.render(<AppLockGate />);
\ No newline at end of file